@@ -0,0 +1,548 @@
+import { Buffer } from "node:buffer";
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { removePackBundles } from "./bundles";
+import { brandingOverrides, saveBrandingOverrides, type BrandingOverrides } from "./config";
+import {
+  createAsset,
+  createVideo,
+  deleteAsset,
+  deleteTag,
+  deleteVideo,
+  ensureTag,
+  getSchemaStatus,
+  getVideoById,
+  listTagsWithCounts,
+  listVideosWithAssets,
+  PACK_STATUSES,
+  parseTagInput,
+  reorderAssets,
+  runTransaction,
+  setVideoPublication,
+  updateAsset,
+  updateVideo,
+  type AssetRecord,
+  type AssetUpdate,
+  type PackStatus,
+  type VideoWithAssets
+} from "./db";
+import { isHttpUrl, isValidSlug, parsePublishAt, resolveFilename } from "./packs";
+import { storeUpload, uploadPath } from "./storage";
+
+export const ARCHIVE_FORMAT = "resource-hub-archive";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveAsset = {
+  /** Id on the exporting hub; only used to remap links that point at the asset. */
+  id: number;
+  label: string;
+  kind: "inline" | "external" | "upload";
+  filename: string | null;
+  content?: string;
+  url?: string;
+  upload?: { sha256: string; mime_type: string; size_bytes: number; data: string | null };
+};
+
+export type ArchiveVideo = {
+  slug: string;
+  title: string;
+  description: string | null;
+  video_url: string | null;
+  thumbnail_url: string | null;
+  tags: string[];
+  /** Archives from before pack statuses had neither field; their packs import as published. */
+  status: PackStatus;
+  publish_at: string | null;
+  assets: ArchiveAsset[];
+};
+
+export type HubArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  schema_version: number;
+  branding: BrandingOverrides | null;
+  tags: string[];
+  videos: ArchiveVideo[];
+};
+
+export type ImportMode = "merge" | "replace";
+
+export type ImportChange = { type: "pack" | "tag" | "branding"; name: string; detail?: string };
+
+export type ImportReport = {
+  mode: ImportMode;
+  dryRun: boolean;
+  created: ImportChange[];
+  updated: ImportChange[];
+  skipped: ImportChange[];
+  deleted: ImportChange[];
+  warnings: string[];
+};
+
+function assetKind(asset: AssetRecord): ArchiveAsset["kind"] {
+  if (asset.storage_key) return "upload";
+  return asset.content !== null ? "inline" : "external";
+}
+
+function exportAsset(asset: AssetRecord): ArchiveAsset {
+  const kind = assetKind(asset);
+  const base = { id: asset.id, label: asset.label, kind, filename: asset.filename };
+  if (kind === "inline") {
+    return { ...base, content: asset.content ?? "" };
+  }
+  if (kind === "external") {
+    return { ...base, url: asset.url };
+  }
+  const path = uploadPath(asset.storage_key!);
+  return {
+    ...base,
+    upload: {
+      sha256: asset.storage_key!,
+      mime_type: asset.mime_type ?? "application/octet-stream",
+      size_bytes: asset.size_bytes ?? 0,
+      data: existsSync(path) ? readFileSync(path).toString("base64") : null
+    }
+  };
+}
+
+/** Everything needed to rebuild the hub elsewhere: packs, tags, assets with their files, and branding. */
+export function buildHubArchive(): HubArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    schema_version: getSchemaStatus().current,
+    branding: brandingOverrides,
+    tags: listTagsWithCounts().map((tag) => tag.name),
+    videos: listVideosWithAssets().map((video) => ({
+      slug: video.slug,
+      title: video.title,
+      description: video.description,
+      video_url: video.video_url,
+      thumbnail_url: video.thumbnail_url,
+      tags: video.tags,
+      status: video.status,
+      publish_at: video.publish_at,
+      assets: video.assets.map(exportAsset)
+    }))
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+/**
+ * Links handed to visitors must be http(s), like everywhere else. Root-relative links to this
+ * hub's own asset routes are kept too: exports use them between assets and remap them here.
+ */
+function isImportableUrl(url: string) {
+  return isHttpUrl(url) || /^\/(?:downloads|go)\/assets\/\d+(?:\/|$)/.test(url);
+}
+
+/** Optional pack links that aren't http(s) are dropped with a warning; the pack itself still imports. */
+function optionalUrl(value: unknown, field: string, slug: string, warnings: string[]) {
+  const url = optionalText(value)?.trim() ?? null;
+  if (url !== null && !isHttpUrl(url)) {
+    warnings.push(`Pack "${slug}" has a ${field} that isn't an http(s) URL; it was left out`);
+    return null;
+  }
+  return url;
+}
+
+/** Checks the envelope strictly; individual packs and assets that don't parse become warnings. */
+export function parseHubArchive(input: unknown, warnings: string[] = []): HubArchive {
+  if (!isRecord(input) || input.format !== ARCHIVE_FORMAT) {
+    throw new Error("Not a resource hub archive");
+  }
+  if (typeof input.version !== "number" || input.version > ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version ${String(input.version)}; this build reads up to ${ARCHIVE_VERSION}`);
+  }
+  if (!Array.isArray(input.videos)) {
+    throw new Error("Archive has no videos list");
+  }
+
+  const videos: ArchiveVideo[] = [];
+  const seenSlugs = new Set<string>();
+  input.videos.forEach((raw, index) => {
+    if (!isRecord(raw) || typeof raw.slug !== "string" || !raw.slug.trim() || typeof raw.title !== "string" || !raw.title.trim()) {
+      warnings.push(`Pack #${index + 1} has no slug or title and was ignored`);
+      return;
+    }
+    const slug = raw.slug.trim();
+    if (!isValidSlug(slug)) {
+      warnings.push(`Pack "${slug}" has an invalid slug (only lowercase letters, digits and dashes) and was ignored`);
+      return;
+    }
+    if (seenSlugs.has(slug)) {
+      warnings.push(`Pack "${slug}" appears more than once; only the first copy is used`);
+      return;
+    }
+    seenSlugs.add(slug);
+    const assets: ArchiveAsset[] = [];
+    (Array.isArray(raw.assets) ? raw.assets : []).forEach((asset, assetIndex) => {
+      const parsed = parseArchiveAsset(asset);
+      if (!parsed) {
+        warnings.push(`Asset #${assetIndex + 1} in "${slug}" is malformed and was ignored`);
+      } else if (parsed.kind === "external" && !isImportableUrl(parsed.url ?? "")) {
+        warnings.push(`Asset "${parsed.label}" in "${slug}" links to a URL that isn't http(s) and was ignored`);
+      } else {
+        assets.push(parsed);
+      }
+    });
+    let status = PACK_STATUSES.find((value) => value === raw.status) ?? "published";
+    const publishAt = typeof raw.publish_at === "string" ? parsePublishAt(raw.publish_at) : null;
+    if (status === "scheduled" && !publishAt) {
+      warnings.push(`Pack "${slug}" is scheduled without a publish time and was imported as a draft`);
+      status = "draft";
+    }
+    videos.push({
+      slug,
+      title: raw.title.trim(),
+      description: optionalText(raw.description),
+      video_url: optionalUrl(raw.video_url, "video URL", slug, warnings),
+      thumbnail_url: optionalUrl(raw.thumbnail_url, "thumbnail URL", slug, warnings),
+      tags: Array.isArray(raw.tags) ? parseTagInput(JSON.stringify(raw.tags)) : [],
+      status,
+      publish_at: publishAt,
+      assets
+    });
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: input.version,
+    exported_at: typeof input.exported_at === "string" ? input.exported_at : "",
+    schema_version: typeof input.schema_version === "number" ? input.schema_version : 0,
+    branding: isRecord(input.branding) ? (input.branding as BrandingOverrides) : null,
+    tags: Array.isArray(input.tags) ? parseTagInput(JSON.stringify(input.tags)) : [],
+    videos
+  };
+}
+
+function parseArchiveAsset(raw: unknown): ArchiveAsset | null {
+  if (!isRecord(raw) || typeof raw.label !== "string" || !raw.label.trim() || typeof raw.id !== "number") {
+    return null;
+  }
+  const base = { id: raw.id, label: raw.label.trim(), filename: optionalText(raw.filename) };
+  if (raw.kind === "inline" && typeof raw.content === "string") {
+    return { ...base, kind: "inline", content: raw.content };
+  }
+  if (raw.kind === "external" && typeof raw.url === "string" && raw.url.trim()) {
+    return { ...base, kind: "external", url: raw.url.trim() };
+  }
+  const upload = raw.upload;
+  if (
+    raw.kind === "upload" &&
+    isRecord(upload) &&
+    typeof upload.sha256 === "string" &&
+    (typeof upload.data === "string" || upload.data === null)
+  ) {
+    return {
+      ...base,
+      kind: "upload",
+      upload: {
+        sha256: upload.sha256,
+        mime_type: typeof upload.mime_type === "string" ? upload.mime_type : "application/octet-stream",
+        size_bytes: typeof upload.size_bytes === "number" ? upload.size_bytes : 0,
+        data: upload.data
+      }
+    };
+  }
+  return null;
+}
+
+function decodeUpload(asset: ArchiveAsset) {
+  if (!asset.upload?.data) return null;
+  const bytes = Buffer.from(asset.upload.data, "base64");
+  const digest = createHash("sha256").update(bytes).digest("hex");
+  return digest === asset.upload.sha256 ? bytes : null;
+}
+
+type ImportContext = {
+  /** Decoded size of every upload whose data made it through the checksum. */
+  storedUploads: Map<ArchiveAsset, number>;
+  /** Archive asset id -> id here, as far as it is known before anything is written. */
+  assetIds: Map<number, number>;
+};
+
+/** Same label, kind and payload means nothing to do; the position is compared separately. */
+function assetMatches(existing: AssetRecord, incoming: ArchiveAsset, context: ImportContext) {
+  // Without usable data there is nothing to replace the existing file with.
+  if (incoming.kind === "upload" && !context.storedUploads.has(incoming)) return true;
+  if (existing.label !== incoming.label || assetKind(existing) !== incoming.kind) return false;
+  if (incoming.kind === "inline") {
+    return existing.content === incoming.content && existing.filename === (incoming.filename ?? existing.filename);
+  }
+  if (incoming.kind === "external") {
+    return existing.url === remapAssetLinks(incoming.url ?? "", context.assetIds);
+  }
+  return existing.storage_key === incoming.upload?.sha256 && existing.filename === incoming.filename;
+}
+
+type AssetPlan = {
+  incoming: ArchiveAsset;
+  /** Existing asset to keep (and update if needed); null creates a new one. */
+  existing: AssetRecord | null;
+};
+
+/** Pairs incoming assets with existing ones by label so ids, stats and revisions survive a merge. */
+function planAssets(existingAssets: AssetRecord[], incoming: ArchiveAsset[]) {
+  const unused = [...existingAssets];
+  const plans: AssetPlan[] = incoming.map((asset) => {
+    const index = unused.findIndex((candidate) => candidate.label === asset.label);
+    return { incoming: asset, existing: index === -1 ? null : unused.splice(index, 1)[0] };
+  });
+  return { plans, removed: unused };
+}
+
+function describeAssetChanges(video: VideoWithAssets, archived: ArchiveVideo, context: ImportContext) {
+  const { plans, removed } = planAssets(video.assets, archived.assets);
+  const added = plans.filter(
+    (plan) => !plan.existing && (plan.incoming.kind !== "upload" || context.storedUploads.has(plan.incoming))
+  ).length;
+  const changed = plans.filter((plan) => plan.existing && !assetMatches(plan.existing, plan.incoming, context)).length;
+  const reordered = plans.some((plan, index) => plan.existing && video.assets[index]?.id !== plan.existing.id);
+  const parts = [
+    added ? `${added} asset${added === 1 ? "" : "s"} added` : "",
+    changed ? `${changed} changed` : "",
+    removed.length ? `${removed.length} removed` : "",
+    reordered && !added && !removed.length ? "reordered" : ""
+  ].filter(Boolean);
+  return parts.join(", ");
+}
+
+function videoFieldsChanged(video: VideoWithAssets, archived: ArchiveVideo, context: ImportContext) {
+  const description = archived.description ? remapAssetLinks(archived.description, context.assetIds) : null;
+  return (
+    video.title !== archived.title ||
+    video.description !== description ||
+    video.video_url !== archived.video_url ||
+    video.thumbnail_url !== archived.thumbnail_url ||
+    video.status !== archived.status ||
+    video.publish_at !== archived.publish_at ||
+    [...video.tags].sort().join(",") !== [...archived.tags].sort().join(",")
+  );
+}
+
+const ASSET_LINK_PATTERN = /(^|[\s("'=])(\/(?:downloads|go)\/assets\/)(\d+)(?!\d)/g;
+
+/** Points root-relative asset links from the exporting hub at the ids the assets got here. */
+function remapAssetLinks(text: string, idMap: Map<number, number>) {
+  return text.replace(ASSET_LINK_PATTERN, (match, prefix: string, path: string, id: string) => {
+    const mapped = idMap.get(Number(id));
+    return mapped === undefined ? match : `${prefix}${path}${mapped}`;
+  });
+}
+
+function inlineFilename(asset: ArchiveAsset, fallback: string | null) {
+  return asset.filename ? resolveFilename(asset.label, asset.filename) : fallback ?? resolveFilename(asset.label);
+}
+
+function applyAsset(videoId: number, plan: AssetPlan, context: ImportContext): number | null {
+  const { incoming, existing } = plan;
+  if (existing && assetMatches(existing, incoming, context)) {
+    return existing.id;
+  }
+
+  if (incoming.kind === "upload") {
+    const size = context.storedUploads.get(incoming);
+    if (size === undefined) return existing?.id ?? null;
+    // An uploaded file can't be swapped in place, so a changed upload becomes a new asset.
+    if (existing) deleteAsset(existing.id);
+    return createAsset(videoId, {
+      label: incoming.label,
+      filename: incoming.filename,
+      upload: { storage_key: incoming.upload!.sha256, mime_type: incoming.upload!.mime_type, size_bytes: size }
+    });
+  }
+
+  const update: AssetUpdate =
+    incoming.kind === "inline"
+      ? {
+          kind: "inline",
+          label: incoming.label,
+          filename: inlineFilename(incoming, existing?.filename ?? null),
+          content: incoming.content ?? "",
+          note: "Imported from archive"
+        }
+      : { kind: "external", label: incoming.label, url: incoming.url ?? "" };
+
+  if (existing) {
+    updateAsset(existing.id, update);
+    return existing.id;
+  }
+  return createAsset(videoId, {
+    label: update.label,
+    url: update.kind === "external" ? update.url : undefined,
+    filename: update.kind === "inline" ? update.filename : undefined,
+    content: update.kind === "inline" ? update.content : undefined
+  });
+}
+
+/**
+ * Imports an archive. `merge` creates or updates packs by slug and leaves other packs alone;
+ * `replace` additionally deletes packs and tags that aren't in the archive. With `dryRun`
+ * nothing is written and the report describes what would happen.
+ */
+export async function importHubArchive(
+  input: unknown,
+  { mode, dryRun, applyBranding = true }: { mode: ImportMode; dryRun: boolean; applyBranding?: boolean }
+): Promise<ImportReport> {
+  const report: ImportReport = { mode, dryRun, created: [], updated: [], skipped: [], deleted: [], warnings: [] };
+  const archive = parseHubArchive(input, report.warnings);
+  const existingBySlug = new Map(listVideosWithAssets().map((video) => [video.slug, video]));
+
+  // Uploads are written before the database transaction since storing them is async.
+  // They are content-addressed, so a failed import leaves nothing but unreferenced files.
+  const storedUploads = new Map<ArchiveAsset, number>();
+  for (const archived of archive.videos) {
+    for (const asset of archived.assets.filter((candidate) => candidate.kind === "upload")) {
+      const bytes = decodeUpload(asset);
+      if (!bytes) {
+        report.warnings.push(`"${asset.label}" in "${archived.slug}" has a missing or corrupt file and was not imported`);
+        continue;
+      }
+      storedUploads.set(asset, dryRun ? bytes.byteLength : (await storeUpload(new Blob([bytes]))).size);
+    }
+  }
+
+  const context: ImportContext = { storedUploads, assetIds: new Map() };
+  for (const archived of archive.videos) {
+    const existing = existingBySlug.get(archived.slug);
+    for (const plan of planAssets(existing?.assets ?? [], archived.assets).plans) {
+      if (plan.existing) context.assetIds.set(plan.incoming.id, plan.existing.id);
+    }
+  }
+
+  for (const archived of archive.videos) {
+    const existing = existingBySlug.get(archived.slug);
+    const importable = archived.assets.filter((asset) => asset.kind !== "upload" || storedUploads.has(asset)).length;
+    const count = `${importable} asset${importable === 1 ? "" : "s"}`;
+    if (!existing) {
+      report.created.push({ type: "pack", name: archived.slug, detail: count });
+      continue;
+    }
+    const assetChanges = describeAssetChanges(existing, archived, context);
+    if (!assetChanges && !videoFieldsChanged(existing, archived, context)) {
+      report.skipped.push({ type: "pack", name: archived.slug, detail: "unchanged" });
+    } else {
+      report.updated.push({ type: "pack", name: archived.slug, detail: assetChanges || "details changed" });
+    }
+  }
+
+  const archivedSlugs = new Set(archive.videos.map((video) => video.slug));
+  const wantedTags = new Set([...archive.tags, ...archive.videos.flatMap((video) => video.tags)]);
+  const existingTags = listTagsWithCounts();
+  const existingTagNames = new Set(existingTags.map((tag) => tag.name));
+  const removedVideos = mode === "replace" ? [...existingBySlug.values()].filter((video) => !archivedSlugs.has(video.slug)) : [];
+  const removedTags = mode === "replace" ? existingTags.filter((tag) => !wantedTags.has(tag.name)) : [];
+  for (const video of removedVideos) {
+    report.deleted.push({ type: "pack", name: video.slug, detail: `${video.assets.length} assets` });
+  }
+  for (const name of wantedTags) {
+    if (!existingTagNames.has(name)) report.created.push({ type: "tag", name });
+  }
+  for (const tag of removedTags) {
+    report.deleted.push({ type: "tag", name: tag.name });
+  }
+
+  const brandingChanged =
+    archive.branding !== null && JSON.stringify(archive.branding) !== JSON.stringify(brandingOverrides ?? null);
+  if (archive.branding === null) {
+    report.skipped.push({ type: "branding", name: "branding", detail: "not in archive" });
+  } else if (!applyBranding) {
+    report.skipped.push({ type: "branding", name: "branding", detail: "not requested" });
+  } else if (!brandingChanged) {
+    report.skipped.push({ type: "branding", name: "branding", detail: "unchanged" });
+  } else {
+    report.updated.push({ type: "branding", name: "branding", detail: "applies after a restart" });
+  }
+
+  if (dryRun) {
+    return report;
+  }
+
+  runTransaction(() => {
+    for (const video of removedVideos) {
+      deleteVideo(video.id);
+    }
+
+    const idMap = context.assetIds;
+    const touchedVideoIds: number[] = [];
+    for (const archived of archive.videos) {
+      const existing = existingBySlug.get(archived.slug);
+      const fields = {
+        title: archived.title,
+        description: archived.description ?? undefined,
+        video_url: archived.video_url ?? undefined,
+        thumbnail_url: archived.thumbnail_url ?? undefined,
+        tags: archived.tags
+      };
+      let videoId: number;
+      if (existing) {
+        videoId = existing.id;
+        if (videoFieldsChanged(existing, archived, context)) {
+          updateVideo(videoId, fields);
+          setVideoPublication(videoId, { status: archived.status, publish_at: archived.publish_at });
+        }
+      } else {
+        videoId = createVideo({ ...fields, slug: archived.slug, status: archived.status, publish_at: archived.publish_at });
+      }
+      touchedVideoIds.push(videoId);
+
+      const { plans, removed } = planAssets(existing?.assets ?? [], archived.assets);
+      removed.forEach((asset) => deleteAsset(asset.id));
+      const orderedIds: number[] = [];
+      for (const plan of plans) {
+        const assetId = applyAsset(videoId, plan, context);
+        if (assetId !== null) {
+          idMap.set(plan.incoming.id, assetId);
+          orderedIds.push(assetId);
+        }
+      }
+      reorderAssets(videoId, orderedIds);
+    }
+
+    for (const videoId of touchedVideoIds) {
+      const video = getVideoById(videoId)!;
+      const description = video.description ? remapAssetLinks(video.description, idMap) : null;
+      if (description !== video.description) {
+        updateVideo(videoId, {
+          title: video.title,
+          description: description ?? undefined,
+          video_url: video.video_url ?? undefined,
+          thumbnail_url: video.thumbnail_url ?? undefined,
+          tags: video.tags
+        });
+      }
+      for (const asset of video.assets.filter((candidate) => assetKind(candidate) === "external")) {
+        const url = remapAssetLinks(asset.url, idMap);
+        if (url !== asset.url) updateAsset(asset.id, { kind: "external", label: asset.label, url });
+      }
+    }
+
+    wantedTags.forEach((name) => ensureTag(name));
+    removedTags.forEach((tag) => deleteTag(tag.id));
+  });
+
+  for (const video of removedVideos) {
+    removePackBundles(video.id);
+  }
+
+  if (applyBranding && brandingChanged && archive.branding) {
+    try {
+      saveBrandingOverrides(archive.branding);
+    } catch (error) {
+      console.error("Saving imported branding failed", error);
+      report.warnings.push("Branding overrides could not be written to the config file");
+    }
+  }
+
+  return report;
+}
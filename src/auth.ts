@@ -0,0 +1,107 @@
+import { Buffer } from "node:buffer";
+import { createHash, pbkdf2Sync, randomBytes, timingSafeEqual } from "node:crypto";
+import type { AdminRole, AdminUserRecord } from "./db";
+
+const PASSWORD_KEYLEN = 64;
+const PASSWORD_ITERATIONS = 120_000;
+const PASSWORD_DIGEST = "sha512";
+
+export function derivePasswordHash(password: string, salt?: string) {
+  const actualSalt = salt ?? randomBytes(16).toString("hex");
+  const hash = pbkdf2Sync(password, actualSalt, PASSWORD_ITERATIONS, PASSWORD_KEYLEN, PASSWORD_DIGEST).toString("hex");
+  return { hash, salt: actualSalt };
+}
+
+export function passwordsMatch(password: string, hash: string, salt: string) {
+  try {
+    const candidate = pbkdf2Sync(password, salt, PASSWORD_ITERATIONS, PASSWORD_KEYLEN, PASSWORD_DIGEST).toString("hex");
+    const candidateBuffer = Buffer.from(candidate, "hex");
+    const storedBuffer = Buffer.from(hash, "hex");
+    if (candidateBuffer.length !== storedBuffer.length) {
+      return false;
+    }
+    return timingSafeEqual(candidateBuffer, storedBuffer);
+  } catch (error) {
+    console.error("Failed to verify password", error);
+    return false;
+  }
+}
+
+/** Readable temporary password for new accounts and resets (no ambiguous characters). */
+export function generateTemporaryPassword(length = 16) {
+  const alphabet = "abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  const bytes = randomBytes(length);
+  return Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+export function generateCsrfToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+/** Constant-time comparison for secrets submitted by the browser. */
+export function tokensMatch(submitted: string, expected: string) {
+  const submittedBuffer = Buffer.from(submitted);
+  const expectedBuffer = Buffer.from(expected);
+  return submittedBuffer.length === expectedBuffer.length && timingSafeEqual(submittedBuffer, expectedBuffer);
+}
+
+/** Public handle for a session; the id itself is the cookie secret and never leaves the server. */
+export function sessionHandle(sessionId: string) {
+  return createHash("sha256").update(sessionId).digest("hex").slice(0, 16);
+}
+
+export const SESSION_IDLE_MINUTES = Number(Bun.env.SESSION_IDLE_MINUTES ?? 120);
+
+/** Sessions last seen before this ISO time have timed out; shared by the server and the CLI. */
+export function sessionIdleSince(now = Date.now()) {
+  if (!(SESSION_IDLE_MINUTES > 0)) {
+    throw new Error("SESSION_IDLE_MINUTES must be a positive number.");
+  }
+  return new Date(now - SESSION_IDLE_MINUTES * 60_000).toISOString();
+}
+
+// Recognisable prefix so leaked tokens are easy to spot in logs and secret scanners.
+const API_TOKEN_PREFIX = "dlh_";
+
+/** Personal access token for the REST API; only its hash is stored. */
+export function generateApiToken() {
+  return `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Enough of the token to tell it apart in the admin UI without making it usable. */
+export function apiTokenDisplayPrefix(token: string) {
+  return token.slice(0, API_TOKEN_PREFIX.length + 6);
+}
+
+export const ADMIN_ROLES: AdminRole[] = ["owner", "editor", "viewer"];
+
+export type Permission =
+  | "view"
+  | "edit"
+  | "delete"
+  | "manage_users"
+  | "manage_settings";
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: ["view", "edit", "delete", "manage_users", "manage_settings"],
+  editor: ["view", "edit"],
+  viewer: ["view"]
+};
+
+export const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: "Full access, including deleting packs and managing users",
+  editor: "Create and edit packs, assets and tags",
+  viewer: "Read-only access to the dashboard and stats"
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as string[]).includes(value);
+}
+
+export function can(user: Pick<AdminUserRecord, "role">, permission: Permission) {
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+}
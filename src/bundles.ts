@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { branding } from "./config";
+import type { AssetRecord, VideoWithAssets } from "./db";
+import { dataDir, uploadPath } from "./storage";
+import { renderTemplate } from "./templates";
+import { createZip, type ZipEntry } from "./zip";
+
+export const bundlesDir = join(dataDir, "bundles");
+mkdirSync(bundlesDir, { recursive: true });
+
+export type PackBundle = {
+  path: string;
+  etag: string;
+  filename: string;
+};
+
+export function packBundleUrl(slug: string) {
+  return `/downloads/packs/${encodeURIComponent(slug)}.zip`;
+}
+
+export function hasBundleableAssets(video: VideoWithAssets) {
+  return video.assets.some((asset) => asset.content || asset.storage_key);
+}
+
+/** Changes whenever anything that ends up inside the archive changes. */
+function bundleFingerprint(video: VideoWithAssets) {
+  const hash = createHash("sha256");
+  hash.update(JSON.stringify([video.slug, video.title, video.description, video.video_url]));
+  for (const asset of video.assets) {
+    hash.update(JSON.stringify([asset.id, asset.label, asset.url, asset.filename, asset.storage_key]));
+    hash.update(asset.content ?? "");
+  }
+  return hash.digest("hex").slice(0, 32);
+}
+
+function uniqueName(name: string, taken: Set<string>) {
+  let candidate = name;
+  let counter = 2;
+  while (taken.has(candidate.toLowerCase())) {
+    const dot = name.lastIndexOf(".");
+    candidate = dot > 0 ? `${name.slice(0, dot)}-${counter}${name.slice(dot)}` : `${name}-${counter}`;
+    counter += 1;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function bundleReadme(video: VideoWithAssets, included: string[], external: AssetRecord[]) {
+  const lines = [`# ${video.title}`, ""];
+  if (video.description) {
+    lines.push(video.description, "");
+  }
+  if (video.video_url) {
+    lines.push(`Tutorial: ${video.video_url}`, "");
+  }
+  if (included.length > 0) {
+    lines.push("## Files in this bundle", "", ...included.map((name) => `- ${name}`), "");
+  }
+  if (external.length > 0) {
+    lines.push(
+      "## External downloads",
+      "",
+      "These resources are hosted elsewhere and are not included in the ZIP:",
+      "",
+      ...external.map((asset) => `- ${asset.label}: ${asset.url}`),
+      ""
+    );
+  }
+  lines.push(`Downloaded from ${branding.siteName}.`, "");
+  return lines.join("\n");
+}
+
+/** With `templateValues`, placeholders in inline snippets are filled in (see templates.ts). */
+export function buildPackArchive(video: VideoWithAssets, templateValues?: Map<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const root = video.slug;
+  const taken = new Set<string>(["readme.md"]);
+  const entries: ZipEntry[] = [];
+  const included: string[] = [];
+  const external: AssetRecord[] = [];
+
+  for (const asset of video.assets) {
+    if (asset.storage_key) {
+      const path = uploadPath(asset.storage_key);
+      if (!existsSync(path)) {
+        console.error(`Skipping missing upload ${asset.storage_key} for asset ${asset.id}`);
+        continue;
+      }
+      const name = uniqueName(asset.filename ?? `asset-${asset.id}`, taken);
+      entries.push({ path: `${root}/${name}`, data: new Uint8Array(readFileSync(path)) });
+      included.push(name);
+    } else if (asset.content) {
+      const name = uniqueName(asset.filename ?? `asset-${asset.id}.txt`, taken);
+      const content = templateValues ? renderTemplate(asset.content, templateValues) : asset.content;
+      entries.push({ path: `${root}/${name}`, data: encoder.encode(content) });
+      included.push(name);
+    } else {
+      external.push(asset);
+    }
+  }
+
+  entries.push({ path: `${root}/README.md`, data: encoder.encode(bundleReadme(video, included, external)) });
+  return createZip(entries);
+}
+
+/**
+ * Returns the cached ZIP for a pack, building it when the pack's assets have changed
+ * since the last build. Stale archives for the same pack are removed.
+ */
+export async function getPackBundle(video: VideoWithAssets): Promise<PackBundle> {
+  const fingerprint = bundleFingerprint(video);
+  const prefix = `${video.id}-`;
+  const path = join(bundlesDir, `${prefix}${fingerprint}.zip`);
+
+  if (!existsSync(path)) {
+    const temporary = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await Bun.write(temporary, buildPackArchive(video));
+    renameSync(temporary, path);
+    removePackBundles(video.id, `${prefix}${fingerprint}.zip`);
+  }
+
+  return { path, etag: `"${fingerprint}"`, filename: `${video.slug}.zip` };
+}
+
+export function removePackBundles(videoId: number, keep?: string) {
+  const prefix = `${videoId}-`;
+  for (const entry of readdirSync(bundlesDir)) {
+    if (entry.startsWith(prefix) && entry.endsWith(".zip") && entry !== keep) {
+      try {
+        unlinkSync(join(bundlesDir, entry));
+      } catch (error) {
+        console.error(`Failed to remove stale bundle ${entry}`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,564 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { buildHubArchive, importHubArchive, type ImportReport } from "./archive";
+import { derivePasswordHash, generateTemporaryPassword, sessionIdleSince } from "./auth";
+import { removePackBundles } from "./bundles";
+import { composeValidationError } from "./compose";
+import {
+  clearLoginThrottle,
+  createAsset,
+  createVideo,
+  deleteAllSessions,
+  deleteAsset,
+  deleteSessionsForUser,
+  deleteVideo,
+  disableTotp,
+  getAdminUser,
+  getAssetById,
+  getSchemaStatus,
+  getVideoById,
+  getVideoBySlug,
+  listActiveSessions,
+  listAdminUsers,
+  listVideosWithAssets,
+  migrateDatabase,
+  PACK_STATUSES,
+  parseTagInput,
+  pruneSessions,
+  setMustChangePassword,
+  setVideoPublication,
+  updateAdminPassword,
+  updateAsset,
+  updateVideo,
+  type AssetRecord,
+  type AssetUpdate,
+  type VideoWithAssets
+} from "./db";
+import { checkExternalLinks } from "./linkcheck";
+import { normalizeLoginUsername } from "./lockout";
+import {
+  defaultThumbnailUrl,
+  detectUploadMimeType,
+  effectivePackStatus,
+  isHttpUrl,
+  isValidSlug,
+  normalizeSnippetContent,
+  resolveFilename,
+  resolvePublication,
+  sanitizeFilename,
+  slugify
+} from "./packs";
+import { storeUpload } from "./storage";
+import { queueWebhookEvent } from "./webhooks";
+
+const MIN_PASSWORD_LENGTH = Number(Bun.env.MIN_PASSWORD_LENGTH ?? 12);
+
+const USAGE = `Usage: bun run cli <command> [options]
+
+Packs (<pack> is an id or a slug)
+  packs list
+  packs show <pack>
+  packs create --title <title> [--slug <slug>] [--description <text>] [--video-url <url>]
+               [--thumbnail-url <url>] [--tags <a,b>] [--status <status>] [--publish-at <time>]
+  packs update <pack> [--title ...] [--description ...] [--video-url ...] [--thumbnail-url ...] [--tags ...]
+               [--status draft|scheduled|published|archived] [--publish-at <ISO 8601 time, or "">]
+  packs delete <pack>
+
+Assets
+  assets list <pack>
+  assets add <pack> --label <label> (--content-file <path> | --file <path> | --url <url>) [--filename <name>]
+  assets update <id> [--label <label>] [--content-file <path> | --url <url>] [--filename <name>]
+  assets delete <id>
+
+Links
+  links check [--due]      Check external asset URLs now (all of them, or only those due)
+
+Users
+  users list
+  users reset-password <username> [--password <password>] [--must-change]
+  users clear-rotation <username>
+  users reset-2fa <username>
+
+Sessions
+  sessions list
+  sessions prune [--all]
+
+Database
+  db status
+  db migrate
+  export [--output <file>]
+  import <file> [--replace] [--dry-run] [--no-branding]
+
+Options
+  --json    Print JSON instead of tables`;
+
+/** Bad arguments rather than a failed operation; exits with 2. */
+class UsageError extends Error {}
+
+const { values: flags, positionals } = (() => {
+  try {
+    return parseArgs({
+      args: Bun.argv.slice(2),
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        title: { type: "string" },
+        slug: { type: "string" },
+        description: { type: "string" },
+        "video-url": { type: "string" },
+        "thumbnail-url": { type: "string" },
+        tags: { type: "string" },
+        status: { type: "string" },
+        "publish-at": { type: "string" },
+        label: { type: "string" },
+        "content-file": { type: "string" },
+        file: { type: "string" },
+        url: { type: "string" },
+        filename: { type: "string" },
+        password: { type: "string" },
+        "must-change": { type: "boolean" },
+        all: { type: "boolean" },
+        due: { type: "boolean" },
+        output: { type: "string", short: "o" },
+        replace: { type: "boolean" },
+        "dry-run": { type: "boolean" },
+        "no-branding": { type: "boolean" }
+      }
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${USAGE}`);
+    process.exit(2);
+  }
+})();
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value).replace(/\s+/g, " ");
+}
+
+function printTable(rows: Record<string, unknown>[], columns: string[]) {
+  if (rows.length === 0) {
+    console.log("(none)");
+    return;
+  }
+  const cells = rows.map((row) => columns.map((column) => formatCell(row[column])));
+  const widths = columns.map((column, index) =>
+    Math.min(60, Math.max(column.length, ...cells.map((line) => line[index].length)))
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, index) => (value.length > widths[index] ? `${value.slice(0, widths[index] - 1)}…` : value.padEnd(widths[index])))
+      .join("  ")
+      .trimEnd();
+  console.log(line(columns.map((column) => column.toUpperCase())));
+  cells.forEach((values) => console.log(line(values)));
+}
+
+/** Lists print as tables (or JSON with --json); single records print as key/value pairs. */
+function output(data: unknown, columns?: string[]) {
+  if (flags.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else if (Array.isArray(data) && columns) {
+    printTable(data as Record<string, unknown>[], columns);
+  } else if (data && typeof data === "object") {
+    const entries = Object.entries(data).filter(([, value]) => !Array.isArray(value) || typeof value[0] !== "object");
+    const width = Math.max(...entries.map(([key]) => key.length));
+    entries.forEach(([key, value]) => console.log(`${key.padEnd(width)}  ${formatCell(value)}`));
+  } else {
+    console.log(String(data));
+  }
+}
+
+function done(message: string, data: Record<string, unknown> = {}) {
+  if (flags.json) {
+    console.log(JSON.stringify({ ok: true, message, ...data }, null, 2));
+  } else {
+    console.log(message);
+  }
+}
+
+function requireArg(value: string | undefined, name: string) {
+  if (!value) throw new UsageError(`Missing ${name}`);
+  return value;
+}
+
+function findPack(ref: string | undefined) {
+  const value = requireArg(ref, "<pack>");
+  const video = /^\d+$/.test(value) ? getVideoById(Number(value)) : getVideoBySlug(value);
+  if (!video) throw new Error(`No pack matches "${value}"`);
+  return video;
+}
+
+function findAsset(ref: string | undefined) {
+  const value = requireArg(ref, "<id>");
+  const asset = /^\d+$/.test(value) ? getAssetById(Number(value)) : null;
+  if (!asset) throw new Error(`No asset with id "${value}"`);
+  return asset;
+}
+
+function findUser(username: string | undefined) {
+  const value = requireArg(username, "<username>").toLowerCase();
+  const user = getAdminUser(value);
+  if (!user) throw new Error(`No admin user named "${value}"`);
+  return user;
+}
+
+function readTextFile(path: string) {
+  try {
+    return readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(`Could not read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function packSummary(video: VideoWithAssets) {
+  const { assets, preview_token, ...rest } = video;
+  return { ...rest, live_status: effectivePackStatus(video), assets: assets.length };
+}
+
+function packPublication(existing?: VideoWithAssets) {
+  if (flags.status === undefined && flags["publish-at"] === undefined) {
+    return existing ? undefined : resolvePublicationOrThrow("published", undefined);
+  }
+  const status = PACK_STATUSES.find((value) => value === (flags.status ?? existing?.status));
+  if (!status) throw new UsageError(`--status must be one of ${PACK_STATUSES.join(", ")}`);
+  return resolvePublicationOrThrow(status, flags["publish-at"], existing);
+}
+
+function resolvePublicationOrThrow(...args: Parameters<typeof resolvePublication>) {
+  const publication = resolvePublication(...args);
+  if ("error" in publication) throw new UsageError(publication.error);
+  return publication;
+}
+
+function assetSummary(asset: AssetRecord) {
+  const kind = asset.storage_key ? "upload" : asset.content !== null ? "inline" : "external";
+  return {
+    id: asset.id,
+    pack_id: asset.video_id,
+    position: asset.sort_order,
+    kind,
+    label: asset.label,
+    filename: asset.filename,
+    url: asset.url,
+    size_bytes: asset.size_bytes ?? (asset.content !== null ? Buffer.byteLength(asset.content) : null)
+  };
+}
+
+function packFields(existing?: VideoWithAssets) {
+  const title = flags.title?.trim() ?? existing?.title;
+  if (!title) throw new UsageError("--title is required");
+  const videoUrl = flags["video-url"] !== undefined ? flags["video-url"].trim() : existing?.video_url;
+  const thumbnailUrl = flags["thumbnail-url"] !== undefined ? flags["thumbnail-url"].trim() : existing?.thumbnail_url;
+  const description = flags.description !== undefined ? flags.description.trim() : existing?.description;
+  return {
+    title,
+    description: description || undefined,
+    video_url: videoUrl || undefined,
+    thumbnail_url: thumbnailUrl || defaultThumbnailUrl(videoUrl),
+    tags: flags.tags !== undefined ? parseTagInput(flags.tags) : existing?.tags ?? []
+  };
+}
+
+async function runPacks(action: string | undefined, args: string[]) {
+  switch (action) {
+    case "list":
+      return output(listVideosWithAssets().map(packSummary), ["id", "slug", "title", "live_status", "publish_at", "tags", "assets"]);
+    case "show": {
+      const video = findPack(args[0]);
+      if (flags.json) return output(video);
+      output(packSummary(video));
+      console.log("");
+      return output(video.assets.map(assetSummary), ["id", "kind", "label", "filename", "url"]);
+    }
+    case "create": {
+      const fields = packFields();
+      const slug = flags.slug?.trim() || slugify(fields.title);
+      if (!isValidSlug(slug)) throw new UsageError("--slug may only use lowercase letters, digits and single dashes");
+      if (getVideoBySlug(slug)) throw new Error(`Slug "${slug}" is already in use`);
+      const id = createVideo({ ...fields, ...packPublication(), slug });
+      queueWebhookEvent("pack.created", getVideoById(id)!);
+      return done(`Created pack ${slug} (#${id})`, { pack: packSummary(getVideoById(id)!) });
+    }
+    case "update": {
+      const video = findPack(args[0]);
+      if (flags.slug !== undefined && flags.slug !== video.slug) throw new UsageError("Slugs can't be changed");
+      const publication = packPublication(video);
+      updateVideo(video.id, packFields(video));
+      if (publication) setVideoPublication(video.id, publication);
+      const updated = getVideoById(video.id)!;
+      queueWebhookEvent("pack.updated", updated, { previous: video });
+      return done(`Updated pack ${video.slug}`, { pack: packSummary(updated) });
+    }
+    case "delete": {
+      const video = findPack(args[0]);
+      deleteVideo(video.id);
+      removePackBundles(video.id);
+      queueWebhookEvent("pack.deleted", video);
+      return done(`Deleted pack ${video.slug} and its ${video.assets.length} asset(s)`);
+    }
+    default:
+      throw new UsageError(`Unknown packs command "${action ?? ""}"`);
+  }
+}
+
+function assetSource() {
+  const sources = [flags["content-file"], flags.file, flags.url].filter((value) => value !== undefined);
+  if (sources.length > 1) throw new UsageError("Use only one of --content-file, --file and --url");
+  if (flags.url !== undefined && !isHttpUrl(flags.url)) throw new UsageError("--url must be an http(s) URL");
+  return sources.length === 1;
+}
+
+async function runAssets(action: string | undefined, args: string[]) {
+  switch (action) {
+    case "list":
+      return output(findPack(args[0]).assets.map(assetSummary), ["id", "position", "kind", "label", "filename", "url", "size_bytes"]);
+    case "add": {
+      const video = findPack(args[0]);
+      const label = requireArg(flags.label?.trim(), "--label");
+      if (!assetSource()) throw new UsageError("Provide --content-file, --file or --url");
+      let id: number;
+      if (flags.file) {
+        const file = Bun.file(flags.file);
+        if (!(await file.exists())) throw new Error(`No such file: ${flags.file}`);
+        const filename = sanitizeFilename(flags.filename?.trim() || basename(flags.file));
+        const stored = await storeUpload(file);
+        id = createAsset(video.id, {
+          label,
+          filename,
+          upload: { storage_key: stored.key, mime_type: detectUploadMimeType(filename, file.type), size_bytes: stored.size }
+        });
+      } else if (flags["content-file"]) {
+        const content = normalizeSnippetContent(readTextFile(flags["content-file"]));
+        if (!content.trim()) throw new Error(`${flags["content-file"]} is empty`);
+        const filename = resolveFilename(label, flags.filename ?? basename(flags["content-file"]));
+        const composeError = composeValidationError(filename, content);
+        if (composeError) throw new Error(composeError);
+        id = createAsset(video.id, { label, filename, content });
+      } else {
+        id = createAsset(video.id, { label, url: flags.url!.trim() });
+      }
+      const asset = getAssetById(id)!;
+      queueWebhookEvent("asset.created", getVideoById(video.id)!, { asset });
+      return done(`Added asset #${id} to ${video.slug}`, { asset: assetSummary(asset) });
+    }
+    case "update": {
+      const asset = findAsset(args[0]);
+      assetSource();
+      if (flags.file) throw new UsageError("Uploaded files can't be replaced in place; add a new asset instead");
+      const label = flags.label?.trim() || asset.label;
+      let update: AssetUpdate;
+      if (flags["content-file"] || (asset.content !== null && !asset.storage_key && !flags.url)) {
+        const content = flags["content-file"]
+          ? normalizeSnippetContent(readTextFile(flags["content-file"]))
+          : asset.content ?? "";
+        if (!content.trim()) throw new Error("Inline assets need content");
+        const filename = flags.filename ? resolveFilename(label, flags.filename) : asset.filename ?? resolveFilename(label);
+        if (content !== asset.content || filename !== asset.filename) {
+          const composeError = composeValidationError(filename, content);
+          if (composeError) throw new Error(composeError);
+        }
+        update = { kind: "inline", label, filename, content };
+      } else if (flags.url || (!asset.storage_key && asset.content === null)) {
+        update = { kind: "external", label, url: flags.url?.trim() || asset.url };
+      } else {
+        update = { kind: "upload", label, filename: sanitizeFilename(flags.filename?.trim() || asset.filename || label) };
+      }
+      updateAsset(asset.id, update);
+      return done(`Updated asset #${asset.id}`, { asset: assetSummary(getAssetById(asset.id)!) });
+    }
+    case "delete": {
+      const asset = findAsset(args[0]);
+      deleteAsset(asset.id);
+      return done(`Deleted asset #${asset.id} (${asset.label})`);
+    }
+    default:
+      throw new UsageError(`Unknown assets command "${action ?? ""}"`);
+  }
+}
+
+function runUsers(action: string | undefined, args: string[]) {
+  switch (action) {
+    case "list":
+      return output(
+        listAdminUsers().map((user) => ({
+          username: user.username,
+          role: user.role,
+          disabled: Boolean(user.disabled),
+          must_change_password: Boolean(user.must_change_password),
+          two_factor: Boolean(user.totp_enabled),
+          updated_at: user.updated_at
+        })),
+        ["username", "role", "disabled", "must_change_password", "two_factor", "updated_at"]
+      );
+    case "reset-password": {
+      const user = findUser(args[0]);
+      if (flags.password !== undefined && flags.password.length < MIN_PASSWORD_LENGTH) {
+        throw new UsageError(`--password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+      const password = flags.password ?? generateTemporaryPassword();
+      // A generated password is only a way back in; the owner of the account still picks their own.
+      const mustChange = flags["must-change"] || flags.password === undefined;
+      const { hash, salt } = derivePasswordHash(password);
+      updateAdminPassword(user.username, hash, salt, mustChange);
+      deleteSessionsForUser(user.username);
+      clearLoginThrottle("username", normalizeLoginUsername(user.username));
+      return done(
+        flags.password === undefined
+          ? `Temporary password for ${user.username}: ${password}`
+          : `Password for ${user.username} updated`,
+        { username: user.username, password: flags.password === undefined ? password : undefined, must_change_password: mustChange }
+      );
+    }
+    case "clear-rotation": {
+      const user = findUser(args[0]);
+      setMustChangePassword(user.username, false);
+      return done(`${user.username} no longer has to change their password at sign-in`);
+    }
+    case "reset-2fa": {
+      const user = findUser(args[0]);
+      disableTotp(user.username);
+      deleteSessionsForUser(user.username);
+      return done(`Two-factor authentication removed from ${user.username}`);
+    }
+    default:
+      throw new UsageError(`Unknown users command "${action ?? ""}"`);
+  }
+}
+
+function runSessions(action: string | undefined) {
+  switch (action) {
+    case "list":
+      return output(
+        listActiveSessions(sessionIdleSince()).map(({ id, csrf_token, ...session }) => session),
+        ["username", "ip_address", "user_agent", "created_at", "last_seen_at", "expires_at"]
+      );
+    case "prune": {
+      const removed = flags.all ? deleteAllSessions() : pruneSessions(sessionIdleSince());
+      return done(flags.all ? `Signed out ${removed} session(s)` : `Removed ${removed} expired or idle session(s)`, { removed });
+    }
+    default:
+      throw new UsageError(`Unknown sessions command "${action ?? ""}"`);
+  }
+}
+
+function runDb(action: string | undefined) {
+  switch (action) {
+    case "status": {
+      const status = getSchemaStatus();
+      return output({
+        current: status.current,
+        latest: status.latest,
+        pending: status.pending.map((migration) => `${migration.version} ${migration.name}`)
+      });
+    }
+    case "migrate": {
+      const result = migrateDatabase(console.error);
+      return done(
+        result.from === result.to ? `Schema is up to date (v${result.to})` : `Migrated schema from v${result.from} to v${result.to}`,
+        result
+      );
+    }
+    default:
+      throw new UsageError(`Unknown db command "${action ?? ""}"`);
+  }
+}
+
+async function runLinks(action: string | undefined) {
+  if (action !== "check") throw new UsageError(`Unknown links command "${action ?? ""}"`);
+  const results = await checkExternalLinks({ all: !flags.due });
+  output(
+    results.map(({ asset, status, error }) => ({ id: asset.id, label: asset.label, status, error, url: asset.url })),
+    ["id", "label", "status", "error", "url"]
+  );
+  // A failing link makes the command fail, so it can gate a cron job or a CI step.
+  if (results.some((result) => result.error !== null)) process.exitCode = 1;
+}
+
+function runExport() {
+  const json = JSON.stringify(buildHubArchive(), null, 2);
+  if (!flags.output) {
+    console.log(json);
+    return;
+  }
+  writeFileSync(flags.output, `${json}\n`);
+  console.error(`Wrote ${flags.output}`);
+}
+
+function printImportReport(report: ImportReport) {
+  if (flags.json) return output(report);
+  const verb = (past: string, future: string) => (report.dryRun ? future : past);
+  const rows = [
+    ...report.created.map((change) => ({ action: verb("created", "would create"), ...change })),
+    ...report.updated.map((change) => ({ action: verb("updated", "would update"), ...change })),
+    ...report.deleted.map((change) => ({ action: verb("deleted", "would delete"), ...change })),
+    ...report.skipped.map((change) => ({ action: "skipped", ...change }))
+  ];
+  printTable(rows, ["action", "type", "name", "detail"]);
+  report.warnings.forEach((warning) => console.error(`warning: ${warning}`));
+  if (report.dryRun) console.error("Dry run: nothing was changed.");
+}
+
+async function runImport(args: string[]) {
+  const path = requireArg(args[0], "<file>");
+  let archive: unknown;
+  try {
+    archive = JSON.parse(readTextFile(path));
+  } catch (error) {
+    throw new Error(error instanceof SyntaxError ? `${path} is not valid JSON` : (error as Error).message);
+  }
+  const report = await importHubArchive(archive, {
+    mode: flags.replace ? "replace" : "merge",
+    dryRun: Boolean(flags["dry-run"]),
+    applyBranding: !flags["no-branding"]
+  });
+  printImportReport(report);
+}
+
+async function main() {
+  const [command, action, ...rest] = positionals;
+  if (flags.help || !command || command === "help") {
+    console.log(USAGE);
+    return;
+  }
+  // Everything outside `db` needs the current schema, so pending migrations run first.
+  if (command !== "db") {
+    migrateDatabase(console.error);
+  }
+
+  switch (command) {
+    case "packs":
+      return runPacks(action, rest);
+    case "assets":
+      return runAssets(action, rest);
+    case "users":
+      return runUsers(action, rest);
+    case "sessions":
+      return runSessions(action);
+    case "links":
+      return runLinks(action);
+    case "db":
+      return runDb(action);
+    case "export":
+      return runExport();
+    case "import":
+      return runImport([action, ...rest].filter(Boolean));
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+try {
+  await main();
+} catch (error) {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\nRun \`bun run cli help\` for usage.`);
+    process.exit(2);
+  }
+  console.error(`error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
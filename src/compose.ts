@@ -0,0 +1,330 @@
+import { findTemplateVariables, renderTemplate } from "./templates";
+import { parseYaml, type YamlEntry, type YamlNode } from "./yaml";
+
+export type ComposeIssue = { line: number; message: string };
+
+export type ComposeImage = {
+  reference: string;
+  /** Everything before the tag or digest, e.g. `ghcr.io/linuxserver/jellyfin`. */
+  repository: string;
+  tag: string | null;
+};
+
+export type ComposeService = {
+  name: string;
+  image: string | null;
+  build: boolean;
+  ports: string[];
+  volumes: string[];
+};
+
+export type ComposeSummary = {
+  services: ComposeService[];
+  images: ComposeImage[];
+  /** Variables the file reads from the environment with no default to fall back on. */
+  env: string[];
+};
+
+const TOP_LEVEL_KEYS = new Set(["version", "name", "services", "networks", "volumes", "configs", "secrets", "include", "models"]);
+
+/** docker-compose.yml, compose.yaml, docker-compose.override.yml, docker-compose-dev.yml, ... */
+export function isComposeFilename(filename: string | null | undefined) {
+  return Boolean(filename && /^(?:docker-)?compose(?:[.-][\w.-]*)?\.ya?ml$/i.test(filename.trim()));
+}
+
+function entriesOf(node: YamlNode | undefined) {
+  return node?.kind === "map" ? node.entries : [];
+}
+
+function entry(node: YamlNode, key: string): YamlEntry | undefined {
+  return entriesOf(node).find((candidate) => candidate.key === key);
+}
+
+function scalarText(node: YamlNode | undefined) {
+  return node?.kind === "scalar" && node.value !== null ? String(node.value) : null;
+}
+
+export function parseImageReference(reference: string): ComposeImage {
+  const [withoutDigest, digest] = reference.split("@", 2);
+  const slash = withoutDigest.lastIndexOf("/");
+  const colon = withoutDigest.lastIndexOf(":");
+  // A colon before the last slash belongs to a registry port (registry:5000/app), not a tag.
+  const hasTag = colon > slash;
+  return {
+    reference,
+    repository: hasTag ? withoutDigest.slice(0, colon) : withoutDigest,
+    tag: hasTag ? withoutDigest.slice(colon + 1) : digest ? `@${digest}` : null
+  };
+}
+
+/** Docker Hub spells the same image several ways: `postgres`, `library/postgres`, `docker.io/library/postgres`. */
+function hubRepository(repository: string) {
+  return repository.toLowerCase().replace(/^(?:(?:index\.)?docker\.io\/)?(?:library\/)?/, "");
+}
+
+/**
+ * `postgres` matches `postgres:16`, `library/postgres` and `ghcr.io/acme/postgres`; a query
+ * with a tag (`postgres:16`) must match the tag too. Case-insensitive.
+ */
+export function imageMatches(image: ComposeImage, query: string) {
+  const wanted = parseImageReference(query.trim());
+  const wantedRepository = hubRepository(wanted.repository);
+  const repository = hubRepository(image.repository);
+  const repositoryMatches = repository === wantedRepository || repository.endsWith(`/${wantedRepository}`);
+  return repositoryMatches && (wanted.tag === null || image.tag?.toLowerCase() === wanted.tag.toLowerCase());
+}
+
+// Compose interpolation (${VAR:-8080}) and unfilled template names stand in for numbers when checking ports.
+const PORT_SHAPE = /^(?:(?:\[[0-9a-fA-F:.]+\]|[0-9.]+):)?(?:\d+(?:-\d+)?:)?\d+(?:-\d+)?(?:\/(?:tcp|udp|sctp))?$/;
+
+function portLooksValid(port: string) {
+  return PORT_SHAPE.test(port.replace(/\$\{[^}]*\}|\$[A-Za-z_]\w*|\b[A-Z_][A-Z0-9_]*\b/g, "1"));
+}
+
+function describePort(node: YamlNode, service: string, issues: ComposeIssue[]) {
+  if (node.kind === "scalar" && node.value !== null) {
+    const port = String(node.value);
+    if (!portLooksValid(port)) {
+      issues.push({ line: node.line, message: `Service "${service}" has a port "${port}" that doesn't look like 8080:80 or 127.0.0.1:8080:80/udp` });
+    }
+    return port;
+  }
+  const target = node.kind === "map" ? scalarText(entry(node, "target")?.value) : null;
+  if (!target) {
+    issues.push({ line: node.line, message: `Service "${service}" has a port entry without a \`target\`` });
+    return null;
+  }
+  const hostIp = scalarText(entry(node, "host_ip")?.value);
+  const published = scalarText(entry(node, "published")?.value);
+  const protocol = scalarText(entry(node, "protocol")?.value);
+  return `${hostIp ? `${hostIp}:` : ""}${published ? `${published}:` : ""}${target}${protocol ? `/${protocol}` : ""}`;
+}
+
+function describeVolume(node: YamlNode, service: string, issues: ComposeIssue[]) {
+  if (node.kind === "scalar" && typeof node.value === "string") {
+    return node.value;
+  }
+  const target = node.kind === "map" ? scalarText(entry(node, "target")?.value) : null;
+  if (!target) {
+    issues.push({ line: node.line, message: `Service "${service}" has a volume entry without a \`target\`` });
+    return null;
+  }
+  const source = scalarText(entry(node, "source")?.value);
+  return source ? `${source}:${target}` : target;
+}
+
+/** The name of a named volume in `name:/path` short syntax; bind mounts and anonymous volumes give null. */
+function namedVolume(volume: string) {
+  const parts = volume.split(":");
+  if (parts.length < 2) return null;
+  const source = parts[0];
+  return /^[A-Za-z0-9][\w.-]*$/.test(source) ? source : null;
+}
+
+function referencedNames(node: YamlNode | undefined) {
+  if (!node) return [];
+  if (node.kind === "seq") {
+    return node.items.flatMap((item) => (item.kind === "scalar" && item.value !== null ? [{ name: String(item.value), line: item.line }] : []));
+  }
+  return entriesOf(node).map((item) => ({ name: item.key, line: item.line }));
+}
+
+function collectStrings(node: YamlNode, into: string[], seen = new Set<YamlNode>()) {
+  if (seen.has(node)) return;
+  seen.add(node);
+  if (node.kind === "scalar") {
+    if (typeof node.value === "string") into.push(node.value);
+  } else if (node.kind === "seq") {
+    node.items.forEach((item) => collectStrings(item, into, seen));
+  } else {
+    node.entries.forEach((item) => collectStrings(item.value, into, seen));
+  }
+}
+
+/** `${VAR}`, `${VAR:?error}` and `$VAR` need a value; `${VAR:-default}` and `${VAR+alt}` don't. `$$` is a literal dollar. */
+function requiredInterpolations(text: string) {
+  const names: string[] = [];
+  for (const match of text.matchAll(/\$\$|\$\{([A-Za-z_]\w*)(:?[-+?][^}]*)?\}|\$([A-Za-z_]\w*)/g)) {
+    if (match[0] === "$$") continue;
+    const modifier = match[2];
+    if (modifier && /^:?[-+]/.test(modifier)) continue;
+    names.push(match[1] ?? match[3]);
+  }
+  return names;
+}
+
+function analyzeService(
+  serviceEntry: YamlEntry,
+  context: { services: Set<string>; volumes: Set<string> | null; networks: Set<string> | null; env: Set<string> },
+  issues: ComposeIssue[]
+): ComposeService | null {
+  const { key: name, value: node } = serviceEntry;
+  if (node.kind !== "map") {
+    issues.push({ line: serviceEntry.line, message: `Service "${name}" must be a mapping of settings such as \`image:\`` });
+    return null;
+  }
+
+  const imageEntry = entry(node, "image");
+  const image = scalarText(imageEntry?.value);
+  if (imageEntry && (imageEntry.value.kind !== "scalar" || !image)) {
+    issues.push({ line: imageEntry.line, message: `Service "${name}" has an \`image\` that isn't a plain image name` });
+  }
+  const build = entry(node, "build") !== undefined;
+  if (!image && !build && !entry(node, "extends")) {
+    issues.push({ line: serviceEntry.line, message: `Service "${name}" needs an \`image\` or a \`build\` section` });
+  }
+
+  const ports: string[] = [];
+  const portsEntry = entry(node, "ports");
+  if (portsEntry) {
+    if (portsEntry.value.kind !== "seq") {
+      issues.push({ line: portsEntry.line, message: `\`ports\` of service "${name}" must be a list` });
+    } else {
+      portsEntry.value.items.forEach((item) => {
+        const port = describePort(item, name, issues);
+        if (port) ports.push(port);
+      });
+    }
+  }
+
+  const volumes: string[] = [];
+  const volumesEntry = entry(node, "volumes");
+  if (volumesEntry) {
+    if (volumesEntry.value.kind !== "seq") {
+      issues.push({ line: volumesEntry.line, message: `\`volumes\` of service "${name}" must be a list` });
+    } else {
+      volumesEntry.value.items.forEach((item) => {
+        const volume = describeVolume(item, name, issues);
+        if (!volume) return;
+        volumes.push(volume);
+        const named = namedVolume(volume);
+        if (named && context.volumes && !context.volumes.has(named)) {
+          issues.push({ line: item.line, message: `Service "${name}" uses volume "${named}", which isn't declared under the top-level \`volumes:\`` });
+        }
+      });
+    }
+  }
+
+  const environmentEntry = entry(node, "environment");
+  if (environmentEntry) {
+    const environment = environmentEntry.value;
+    if (environment.kind === "seq") {
+      environment.items.forEach((item) => {
+        const value = scalarText(item);
+        if (item.kind !== "scalar" || value === null) {
+          issues.push({ line: item.line, message: `Environment entries of service "${name}" must be strings like KEY=value` });
+        } else if (!value.includes("=")) {
+          context.env.add(value.trim());
+        }
+      });
+    } else if (environment.kind === "map") {
+      environment.entries.forEach((item) => {
+        if (item.value.kind !== "scalar") {
+          issues.push({ line: item.line, message: `Environment variable "${item.key}" of service "${name}" must be a single value` });
+        } else if (item.value.value === null) {
+          context.env.add(item.key);
+        }
+      });
+    } else if (environment.value !== null) {
+      issues.push({ line: environmentEntry.line, message: `\`environment\` of service "${name}" must be a list or a mapping` });
+    }
+  }
+
+  for (const dependency of referencedNames(entry(node, "depends_on")?.value)) {
+    if (!context.services.has(dependency.name)) {
+      issues.push({ line: dependency.line, message: `Service "${name}" depends on "${dependency.name}", which isn't defined` });
+    }
+  }
+  for (const network of referencedNames(entry(node, "networks")?.value)) {
+    if (network.name !== "default" && !context.networks?.has(network.name)) {
+      issues.push({ line: network.line, message: `Service "${name}" joins network "${network.name}", which isn't declared under the top-level \`networks:\`` });
+    }
+  }
+
+  return { name, image, build, ports, volumes };
+}
+
+/**
+ * Parses a compose file and checks the mistakes Docker Compose would refuse to start with.
+ * Template placeholders are filled with their defaults first so `TZ: {{TZ|UTC}}` reads as a
+ * value rather than a flow mapping; they never span lines, so line numbers stay accurate.
+ */
+export function analyzeCompose(content: string): { summary: ComposeSummary } | { errors: ComposeIssue[] } {
+  const defaults = new Map(findTemplateVariables([content]).map((variable) => [variable.name, variable.defaultValue ?? variable.name]));
+  const parsed = parseYaml(renderTemplate(content, defaults));
+  if ("error" in parsed) {
+    return { errors: [parsed.error] };
+  }
+
+  const document = parsed.document;
+  if (!document || document.kind !== "map") {
+    return { errors: [{ line: document?.line ?? 1, message: "A compose file must be a mapping with a top-level `services:` section" }] };
+  }
+
+  const issues: ComposeIssue[] = [];
+  for (const item of document.entries) {
+    if (!TOP_LEVEL_KEYS.has(item.key) && !item.key.startsWith("x-")) {
+      issues.push({ line: item.line, message: `Unknown top-level key "${item.key}"; custom sections must start with x-` });
+    }
+  }
+
+  const servicesEntry = entry(document, "services");
+  if (!servicesEntry) {
+    if (!entry(document, "include")) {
+      issues.push({ line: 1, message: "Missing the top-level `services:` section" });
+    }
+  } else if (servicesEntry.value.kind !== "map" || servicesEntry.value.entries.length === 0) {
+    issues.push({ line: servicesEntry.line, message: "`services` must map service names to their settings" });
+  }
+
+  const declared = (key: string) => {
+    const section = entry(document, key);
+    return section ? new Set(entriesOf(section.value).map((item) => item.key)) : null;
+  };
+  const context = {
+    services: new Set(entriesOf(servicesEntry?.value).map((item) => item.key)),
+    volumes: declared("volumes") ?? new Set<string>(),
+    networks: declared("networks"),
+    env: new Set<string>()
+  };
+  const services = entriesOf(servicesEntry?.value)
+    .map((item) => analyzeService(item, context, issues))
+    .filter((service): service is ComposeService => service !== null);
+
+  if (issues.length > 0) {
+    return { errors: issues.sort((a, b) => a.line - b.line) };
+  }
+
+  const strings: string[] = [];
+  collectStrings(document, strings);
+  strings.flatMap(requiredInterpolations).forEach((name) => context.env.add(name));
+
+  const images = new Map<string, ComposeImage>();
+  services.forEach((service) => {
+    if (service.image && !images.has(service.image)) images.set(service.image, parseImageReference(service.image));
+  });
+
+  return { summary: { services, images: [...images.values()], env: [...context.env].sort() } };
+}
+
+/** Reads back the JSON stored in `assets.compose_summary`. */
+export function readComposeSummary(json: string | null): ComposeSummary | null {
+  return json ? (JSON.parse(json) as ComposeSummary) : null;
+}
+
+/** Null when the asset isn't a compose file or the file has errors. */
+export function composeSummaryFor(filename: string | null | undefined, content: string | null | undefined) {
+  if (!content || !isComposeFilename(filename)) return null;
+  const result = analyzeCompose(content);
+  return "summary" in result ? result.summary : null;
+}
+
+/** A message for the admin flash or API response, or null when the asset is fine to save. */
+export function composeValidationError(filename: string | null | undefined, content: string | null | undefined) {
+  if (!content || !isComposeFilename(filename)) return null;
+  const result = analyzeCompose(content);
+  if ("summary" in result) return null;
+  const shown = result.errors.slice(0, 5).map((issue) => `line ${issue.line}: ${issue.message}`);
+  const more = result.errors.length > shown.length ? ` (and ${result.errors.length - shown.length} more)` : "";
+  return `${filename!.trim()} isn't a valid compose file. ${shown.join("; ")}${more}`;
+}
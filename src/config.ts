@@ -1,4 +1,4 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { isAbsolute, resolve } from "node:path";
 
 export type BrandingConfig = {
@@ -48,6 +48,8 @@ type DeepPartial<T> = {
   [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
 };
 
+export type BrandingOverrides = DeepPartial<BrandingConfig>;
+
 const defaultConfig: AppConfig = {
   admin: {
     defaultUsername: "creator",
@@ -92,22 +94,20 @@ const defaultConfig: AppConfig = {
   }
 };
 
-function loadUserConfig(): DeepPartial<AppConfig> | null {
+function userConfigPath() {
   const explicitPath = Bun.env.RESOURCE_HUB_CONFIG_PATH?.trim();
-  if (explicitPath) {
-    const resolved = resolvePath(explicitPath);
-    if (!existsSync(resolved)) {
-      console.warn(`RESOURCE_HUB_CONFIG_PATH set to ${resolved}, but file not found.`);
-      return null;
-    }
-    return parseConfig(resolved);
-  }
+  return explicitPath ? resolvePath(explicitPath) : resolve(process.cwd(), "resource-hub.config.json");
+}
 
-  const fallback = resolve(process.cwd(), "resource-hub.config.json");
-  if (!existsSync(fallback)) {
+function loadUserConfig(): DeepPartial<AppConfig> | null {
+  const path = userConfigPath();
+  if (!existsSync(path)) {
+    if (Bun.env.RESOURCE_HUB_CONFIG_PATH?.trim()) {
+      console.warn(`RESOURCE_HUB_CONFIG_PATH set to ${path}, but file not found.`);
+    }
     return null;
   }
-  return parseConfig(fallback);
+  return parseConfig(path);
 }
 
 function resolvePath(target: string) {
@@ -151,7 +151,8 @@ function applyOverrides(target: Record<string, unknown>, source: Record<string,
   }
 }
 
-const merged = mergeConfig(defaultConfig, loadUserConfig());
+const userConfig = loadUserConfig();
+const merged = mergeConfig(defaultConfig, userConfig);
 
 const envUsername = Bun.env.ADMIN_USERNAME?.trim();
 const envPassword = Bun.env.ADMIN_PASSWORD?.trim();
@@ -159,7 +160,8 @@ const envPassword = Bun.env.ADMIN_PASSWORD?.trim();
 export const appConfig: AppConfig = {
   ...merged,
   admin: {
-    defaultUsername: envUsername && envUsername.length > 0 ? envUsername : merged.admin.defaultUsername,
+    // Sign-in, the CLI and the user routes all look accounts up by their lower-case name.
+    defaultUsername: (envUsername && envUsername.length > 0 ? envUsername : merged.admin.defaultUsername.trim()).toLowerCase(),
     defaultPassword: envPassword && envPassword.length > 0 ? envPassword : merged.admin.defaultPassword
   }
 };
@@ -167,6 +169,26 @@ export const appConfig: AppConfig = {
 export const branding = appConfig.branding;
 export const adminDefaults = appConfig.admin;
 
+/** Only what the config file changes, so exports don't freeze the built-in defaults. */
+export const brandingOverrides: BrandingOverrides | null = userConfig?.branding ?? null;
+
+/**
+ * Writes branding overrides into the config file, keeping its other sections. The running
+ * process keeps its current branding; the new text shows up after a restart.
+ */
+export function saveBrandingOverrides(overrides: BrandingOverrides) {
+  const path = userConfigPath();
+  let existing: Record<string, unknown> = {};
+  if (existsSync(path)) {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    if (isPlainObject(parsed)) {
+      existing = parsed;
+    }
+  }
+  writeFileSync(path, `${JSON.stringify({ ...existing, branding: overrides }, null, 2)}\n`);
+  return path;
+}
+
 export function formatBrandingText(input: string, tokens: Record<string, string> = {}) {
   const appliedTokens = {
     siteName: branding.siteName,
@@ -1,6 +1,12 @@
 import { Database } from "bun:sqlite";
-import { mkdirSync } from "node:fs";
-import { join } from "node:path";
+import { basename, join } from "node:path";
+import { composeSummaryFor } from "./compose";
+import { getMigrationStatus, runMigrations, type Migration } from "./migrations";
+import { dataDir, removeUpload } from "./storage";
+
+export type PackStatus = "draft" | "scheduled" | "published" | "archived";
+
+export const PACK_STATUSES: PackStatus[] = ["draft", "scheduled", "published", "archived"];
 
 type VideoRecord = {
   id: number;
@@ -10,6 +16,10 @@ type VideoRecord = {
   video_url: string | null;
   tags: string | null;
   thumbnail_url: string | null;
+  status: PackStatus;
+  publish_at: string | null;
+  preview_token: string;
+  announced_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -22,6 +32,51 @@ export type AssetRecord = {
   sort_order: number;
   filename: string | null;
   content: string | null;
+  storage_key: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  /** JSON ComposeSummary for inline compose files, refreshed whenever the content changes. */
+  compose_summary: string | null;
+  /** Link checker results for external URLs; reset whenever the URL changes. */
+  link_checked_at: string | null;
+  link_status: number | null;
+  link_error: string | null;
+  link_failures: number;
+};
+
+export type AssetRevisionRecord = {
+  id: number;
+  asset_id: number;
+  revision: number;
+  filename: string | null;
+  content: string;
+  note: string | null;
+  created_at: string;
+};
+
+export type TagRecord = {
+  id: number;
+  name: string;
+  created_at: string;
+};
+
+export type TagWithCount = TagRecord & {
+  video_count: number;
+};
+
+export type DownloadStats = {
+  days: number;
+  since: string;
+  total: number;
+  daily: { day: string; downloads: number }[];
+  topVideos: { video_id: number; title: string; slug: string; downloads: number }[];
+  topAssets: {
+    asset_id: number;
+    video_id: number;
+    label: string | null;
+    video_title: string;
+    downloads: number;
+  }[];
 };
 
 export type SessionRecord = {
@@ -30,50 +85,103 @@ export type SessionRecord = {
   expires_at: string;
   ip_address: string | null;
   user_agent: string | null;
+  username: string | null;
+  csrf_token: string | null;
+  last_seen_at: string | null;
 };
 
+export type AdminRole = "owner" | "editor" | "viewer";
+
 export type AdminUserRecord = {
   username: string;
   password_hash: string;
   salt: string;
   must_change_password: number;
   updated_at: string;
+  role: AdminRole;
+  disabled: number;
+  totp_secret: string | null;
+  totp_enabled: number;
+  totp_last_counter: number | null;
+};
+
+export type LoginThrottleScope = "username" | "ip";
+
+export type LoginThrottleRecord = {
+  scope: LoginThrottleScope;
+  key: string;
+  failures: number;
+  lockouts: number;
+  last_failure_at: string | null;
+  locked_until: string | null;
+};
+
+export type LoginFailureRecord = {
+  id: number;
+  username: string | null;
+  ip_address: string | null;
+  reason: string;
+  created_at: string;
+};
+
+export type ApiTokenScope = "read" | "write";
+
+export type ApiTokenRecord = {
+  id: number;
+  username: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scope: ApiTokenScope;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+export type WebhookFormat = "json" | "discord";
+
+export type WebhookRecord = {
+  id: number;
+  url: string;
+  description: string | null;
+  /** Kept in plain text: it signs every delivery, so it can't be hashed like API tokens. */
+  secret: string;
+  /** Comma-separated event names the endpoint subscribes to. */
+  events: string;
+  format: WebhookFormat;
+  active: number;
+  created_at: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDeliveryRecord = {
+  id: number;
+  webhook_id: number;
+  event: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+export type LoginChallengeRecord = {
+  id: string;
+  username: string;
+  attempts: number;
+  expires_at: string;
 };
 
-const dataDir = Bun.env.DATA_DIR ?? join(process.cwd(), "data");
-mkdirSync(dataDir, { recursive: true });
 const dbPath = join(dataDir, Bun.env.DATABASE_FILE ?? "downloads.db");
 
 export const db = new Database(dbPath, { create: true });
 
 db.exec("PRAGMA foreign_keys = ON;");
 
-db.exec(`
-CREATE TABLE IF NOT EXISTS videos (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  title TEXT NOT NULL,
-  slug TEXT NOT NULL UNIQUE,
-  description TEXT,
-  video_url TEXT,
-  tags TEXT,
-  thumbnail_url TEXT,
-  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
-);
-`);
-
-db.exec(`
-CREATE TABLE IF NOT EXISTS assets (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  video_id INTEGER NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
-  label TEXT NOT NULL,
-  url TEXT NOT NULL,
-  sort_order INTEGER NOT NULL DEFAULT 0,
-  filename TEXT,
-  content TEXT
-);
-`);
-
 function addColumnIfMissing(table: string, definition: string) {
   try {
     db.exec(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
@@ -85,28 +193,385 @@ function addColumnIfMissing(table: string, definition: string) {
   }
 }
 
-addColumnIfMissing("assets", "filename TEXT");
-addColumnIfMissing("assets", "content TEXT");
+/**
+ * Schema history, oldest first. Append new migrations; never edit one that has shipped.
+ * Versions 1–13 replay what older builds applied ad hoc on every boot, so they stay
+ * idempotent: a database from before versioning may already have any of these objects.
+ */
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS videos (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          slug TEXT NOT NULL UNIQUE,
+          description TEXT,
+          video_url TEXT,
+          tags TEXT,
+          thumbnail_url TEXT,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS assets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          video_id INTEGER NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+          label TEXT NOT NULL,
+          url TEXT NOT NULL,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          filename TEXT,
+          content TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          expires_at TEXT NOT NULL,
+          ip_address TEXT,
+          user_agent TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS admin_users (
+          username TEXT PRIMARY KEY,
+          password_hash TEXT NOT NULL,
+          salt TEXT NOT NULL,
+          must_change_password INTEGER NOT NULL DEFAULT 1,
+          updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: "inline_asset_content",
+    up: () => {
+      addColumnIfMissing("assets", "filename TEXT");
+      addColumnIfMissing("assets", "content TEXT");
+    }
+  },
+  {
+    version: 3,
+    name: "search_index",
+    up: (db) => {
+      // One row per video (rowid = videos.id) so results can be ranked per pack.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+          title,
+          description,
+          tags,
+          asset_labels,
+          asset_content,
+          tokenize = 'porter unicode61'
+        );
+        CREATE VIRTUAL TABLE IF NOT EXISTS search_vocab USING fts5vocab(search_index, row);
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: "tags",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS video_tags (
+          video_id INTEGER NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+          tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (video_id, tag_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_video_tags_tag ON video_tags(tag_id);
+      `);
+      migrateLegacyTags();
+    }
+  },
+  {
+    version: 5,
+    name: "download_stats",
+    up: (db) => {
+      // Aggregated per asset per UTC day; no request metadata (IPs, user agents) is stored.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS asset_download_stats (
+          asset_id INTEGER NOT NULL,
+          video_id INTEGER NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+          day TEXT NOT NULL,
+          downloads INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (asset_id, day)
+        );
+        CREATE INDEX IF NOT EXISTS idx_asset_download_stats_day ON asset_download_stats(day);
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: "asset_uploads",
+    up: () => {
+      addColumnIfMissing("assets", "storage_key TEXT");
+      addColumnIfMissing("assets", "mime_type TEXT");
+      addColumnIfMissing("assets", "size_bytes INTEGER");
+    }
+  },
+  {
+    version: 7,
+    name: "asset_revisions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS asset_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          asset_id INTEGER NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+          revision INTEGER NOT NULL,
+          filename TEXT,
+          content TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (asset_id, revision)
+        );
+      `);
+      // Inline assets created before revisions existed start their history at revision 1.
+      db.exec(`
+        INSERT INTO asset_revisions (asset_id, revision, filename, content, note)
+        SELECT id, 1, filename, content, 'Initial version'
+          FROM assets
+         WHERE content IS NOT NULL
+           AND id NOT IN (SELECT asset_id FROM asset_revisions);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "admin_roles",
+    up: () => {
+      // Accounts from single-admin installs become owners.
+      addColumnIfMissing("admin_users", "role TEXT NOT NULL DEFAULT 'owner'");
+      addColumnIfMissing("admin_users", "disabled INTEGER NOT NULL DEFAULT 0");
+      addColumnIfMissing("sessions", "username TEXT");
+    }
+  },
+  {
+    version: 9,
+    name: "two_factor",
+    up: (db) => {
+      addColumnIfMissing("admin_users", "totp_secret TEXT");
+      addColumnIfMissing("admin_users", "totp_enabled INTEGER NOT NULL DEFAULT 0");
+      addColumnIfMissing("admin_users", "totp_last_counter INTEGER");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS admin_recovery_codes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL REFERENCES admin_users(username) ON DELETE CASCADE,
+          code_hash TEXT NOT NULL,
+          used_at TEXT,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_admin_recovery_codes_username ON admin_recovery_codes(username);
+
+        CREATE TABLE IF NOT EXISTS login_challenges (
+          id TEXT PRIMARY KEY,
+          username TEXT NOT NULL REFERENCES admin_users(username) ON DELETE CASCADE,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          expires_at TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: "login_throttles",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS login_throttles (
+          scope TEXT NOT NULL,
+          key TEXT NOT NULL,
+          failures INTEGER NOT NULL DEFAULT 0,
+          lockouts INTEGER NOT NULL DEFAULT 0,
+          last_failure_at TEXT,
+          locked_until TEXT,
+          PRIMARY KEY (scope, key)
+        );
+
+        CREATE TABLE IF NOT EXISTS login_failures (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT,
+          ip_address TEXT,
+          reason TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_login_failures_created ON login_failures(created_at);
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: "session_csrf_tokens",
+    up: () => {
+      addColumnIfMissing("sessions", "csrf_token TEXT");
+    }
+  },
+  {
+    version: 12,
+    name: "session_last_seen",
+    up: () => {
+      addColumnIfMissing("sessions", "last_seen_at TEXT");
+    }
+  },
+  {
+    version: 13,
+    name: "api_tokens",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL REFERENCES admin_users(username) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          token_prefix TEXT NOT NULL,
+          scope TEXT NOT NULL CHECK (scope IN ('read', 'write')),
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          last_used_at TEXT
+        );
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: "pack_status",
+    up: (db) => {
+      // Packs that existed before statuses were already public, so they start out published.
+      addColumnIfMissing(
+        "videos",
+        "status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'scheduled', 'published', 'archived'))"
+      );
+      addColumnIfMissing("videos", "publish_at TEXT");
+      addColumnIfMissing("videos", "preview_token TEXT");
+      db.exec(`
+        UPDATE videos SET publish_at = created_at WHERE publish_at IS NULL AND status = 'published';
+        UPDATE videos SET preview_token = lower(hex(randomblob(16))) WHERE preview_token IS NULL;
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: "asset_compose_summary",
+    up: (db) => {
+      addColumnIfMissing("assets", "compose_summary TEXT");
+      const rows = db.query("SELECT id, filename, content FROM assets WHERE content IS NOT NULL").all() as Pick<
+        AssetRecord,
+        "id" | "filename" | "content"
+      >[];
+      const update = db.prepare("UPDATE assets SET compose_summary = ? WHERE id = ?");
+      rows.forEach((row) => update.run(composeSummaryJson(row.filename, row.content), row.id));
+    }
+  },
+  {
+    version: 16,
+    name: "asset_link_checks",
+    up: () => {
+      addColumnIfMissing("assets", "link_checked_at TEXT");
+      addColumnIfMissing("assets", "link_status INTEGER");
+      addColumnIfMissing("assets", "link_error TEXT");
+      addColumnIfMissing("assets", "link_failures INTEGER NOT NULL DEFAULT 0");
+    }
+  },
+  {
+    version: 17,
+    name: "webhooks",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL,
+          description TEXT,
+          secret TEXT NOT NULL,
+          events TEXT NOT NULL,
+          format TEXT NOT NULL DEFAULT 'json' CHECK (format IN ('json', 'discord')),
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          last_attempt_at TEXT,
+          response_status INTEGER,
+          response_body TEXT,
+          error TEXT,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+      `);
+    }
+  },
+  {
+    version: 18,
+    name: "video_announced_at",
+    up: (db) => {
+      addColumnIfMissing("videos", "announced_at TEXT");
+      // Packs that are already out have been seen; only later publishes send pack.published.
+      db.exec(`
+        UPDATE videos SET announced_at = CURRENT_TIMESTAMP
+         WHERE status IN ('published', 'archived')
+            OR (status = 'scheduled' AND datetime(publish_at) <= datetime('now'));
+      `);
+    }
+  },
+  {
+    version: 19,
+    name: "lowercase_usernames",
+    up: (db) => {
+      // Sign-in lower-cases the name it looks up, so an ADMIN_USERNAME stored as configured
+      // ("Dawson") could never sign in. A name whose lower-case form is already taken is left alone.
+      // The foreign keys have no ON UPDATE CASCADE, so they are checked once everything is renamed.
+      db.exec(`
+        PRAGMA defer_foreign_keys = ON;
+        CREATE TEMP TABLE username_renames AS
+          SELECT username AS old_name, lower(username) AS new_name FROM admin_users
+           WHERE username != lower(username)
+             AND lower(username) NOT IN (SELECT username FROM admin_users)
+             AND username = (SELECT MIN(other.username) FROM admin_users other WHERE lower(other.username) = lower(admin_users.username));
+        UPDATE admin_users SET username = (SELECT new_name FROM username_renames WHERE old_name = username)
+         WHERE username IN (SELECT old_name FROM username_renames);
+      `);
+      for (const table of ["sessions", "admin_recovery_codes", "login_challenges", "api_tokens"]) {
+        db.exec(`
+          UPDATE ${table} SET username = (SELECT new_name FROM username_renames WHERE old_name = username)
+           WHERE username IN (SELECT old_name FROM username_renames);
+        `);
+      }
+      db.exec("DROP TABLE username_renames;");
+    }
+  }
+];
+
+function migrationBackupPath(fromVersion: number) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return join(dataDir, "backups", `${basename(dbPath)}.v${fromVersion}.${stamp}.bak`);
+}
 
-db.exec(`
-CREATE TABLE IF NOT EXISTS sessions (
-  id TEXT PRIMARY KEY,
-  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  expires_at TEXT NOT NULL,
-  ip_address TEXT,
-  user_agent TEXT
-);
-`);
+/** Brings the schema up to date; every entry point must call this before touching the database. */
+export function migrateDatabase(log?: (message: string) => void) {
+  return runMigrations(db, migrations, { backupPath: migrationBackupPath, log });
+}
 
-db.exec(`
-CREATE TABLE IF NOT EXISTS admin_users (
-  username TEXT PRIMARY KEY,
-  password_hash TEXT NOT NULL,
-  salt TEXT NOT NULL,
-  must_change_password INTEGER NOT NULL DEFAULT 1,
-  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
-);
-`);
+export function getSchemaStatus() {
+  return getMigrationStatus(db, migrations);
+}
 
 type SeedAsset = Pick<AssetRecord, "label" | "url">;
 type SeedVideo = {
@@ -184,8 +649,8 @@ export function seedIfEmpty() {
   }
 
   const insertVideo = db.prepare(`
-    INSERT INTO videos (title, slug, description, video_url, thumbnail_url, tags)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO videos (title, slug, description, video_url, thumbnail_url, publish_at, preview_token, announced_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, lower(hex(randomblob(16))), CURRENT_TIMESTAMP)
   `);
 
   const insertAsset = db.prepare(`
@@ -199,14 +664,15 @@ export function seedIfEmpty() {
       video.slug,
       video.description,
       video.video_url,
-      video.thumbnail_url,
-      JSON.stringify(video.tags)
+      video.thumbnail_url
     );
     const videoId = Number(info.lastInsertRowid);
+    setVideoTags(videoId, video.tags);
 
     video.assets.forEach((asset, index) => {
       insertAsset.run(videoId, asset.label, asset.url, index);
     });
+    refreshSearchIndex(videoId);
   }
 }
 
@@ -215,14 +681,56 @@ export type VideoWithAssets = Omit<VideoRecord, "tags"> & {
   assets: AssetRecord[];
 };
 
-function parseTags(value: string | null): string[] {
+export function normalizeTagName(input: string) {
+  return input.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Accepts a JSON array or a comma separated list and returns unique canonical tag names. */
+export function parseTagInput(value: string | null | undefined): string[] {
   if (!value) return [];
+  let raw: unknown[];
   try {
     const parsed = JSON.parse(value);
-    return Array.isArray(parsed) ? (parsed.filter((t) => typeof t === "string") as string[]) : [];
+    raw = Array.isArray(parsed) ? parsed : value.split(",");
   } catch {
-    return value.split(",").map((t) => t.trim()).filter(Boolean);
+    raw = value.split(",");
   }
+  const names = raw
+    .filter((tag): tag is string => typeof tag === "string")
+    .map(normalizeTagName)
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+function listTagNamesByVideo(): Map<number, string[]> {
+  const rows = db
+    .query(`
+      SELECT vt.video_id, t.name
+        FROM video_tags vt
+        JOIN tags t ON t.id = vt.tag_id
+       ORDER BY t.name ASC
+    `)
+    .all() as { video_id: number; name: string }[];
+  const byVideo = new Map<number, string[]>();
+  for (const row of rows) {
+    const names = byVideo.get(row.video_id) ?? [];
+    names.push(row.name);
+    byVideo.set(row.video_id, names);
+  }
+  return byVideo;
+}
+
+function listTagNamesForVideo(videoId: number): string[] {
+  const rows = db
+    .prepare(`
+      SELECT t.name
+        FROM video_tags vt
+        JOIN tags t ON t.id = vt.tag_id
+       WHERE vt.video_id = ?
+       ORDER BY t.name ASC
+    `)
+    .all(videoId) as { name: string }[];
+  return rows.map((row) => row.name);
 }
 
 export function listVideosWithAssets(): VideoWithAssets[] {
@@ -231,14 +739,33 @@ export function listVideosWithAssets(): VideoWithAssets[] {
   const assets = db
     .query("SELECT * FROM assets ORDER BY sort_order ASC, id ASC")
     .all() as AssetRecord[];
+  const tags = listTagNamesByVideo();
 
   return videos.map((video) => ({
     ...video,
-    tags: parseTags(video.tags),
+    tags: tags.get(video.id) ?? [],
     assets: assets.filter((asset) => asset.video_id === video.id)
   }));
 }
 
+function withTagsAndAssets(video: VideoRecord): VideoWithAssets {
+  return {
+    ...video,
+    tags: listTagNamesForVideo(video.id),
+    assets: listAssetsByVideo(video.id)
+  };
+}
+
+export function getVideoBySlug(slug: string): VideoWithAssets | null {
+  const video = db.prepare("SELECT * FROM videos WHERE slug = ?").get(slug) as VideoRecord | undefined;
+  return video ? withTagsAndAssets(video) : null;
+}
+
+export function getVideoById(id: number): VideoWithAssets | null {
+  const video = db.prepare("SELECT * FROM videos WHERE id = ?").get(id) as VideoRecord | undefined;
+  return video ? withTagsAndAssets(video) : null;
+}
+
 export function createVideo(data: {
   title: string;
   slug: string;
@@ -246,11 +773,15 @@ export function createVideo(data: {
   video_url?: string;
   thumbnail_url?: string;
   tags?: string[];
+  status?: PackStatus;
+  publish_at?: string | null;
 }): number {
+  const status = data.status ?? "published";
   const info = db
     .prepare(`
-      INSERT INTO videos (title, slug, description, video_url, thumbnail_url, tags)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO videos (title, slug, description, video_url, thumbnail_url, status, publish_at, preview_token, announced_at)
+      VALUES (?1, ?2, ?3, ?4, ?5, ?6, COALESCE(?7, CASE WHEN ?6 = 'published' THEN CURRENT_TIMESTAMP END), lower(hex(randomblob(16))),
+              CASE WHEN ?6 IN ('published', 'archived') THEN CURRENT_TIMESTAMP END)
     `)
     .run(
       data.title,
@@ -258,9 +789,13 @@ export function createVideo(data: {
       data.description ?? null,
       data.video_url ?? null,
       data.thumbnail_url ?? null,
-      data.tags ? JSON.stringify(data.tags) : null
+      status,
+      data.publish_at ?? null
     );
-  return Number(info.lastInsertRowid);
+  const videoId = Number(info.lastInsertRowid);
+  setVideoTags(videoId, data.tags ?? []);
+  refreshSearchIndex(videoId);
+  return videoId;
 }
 
 export function updateVideo(id: number, data: {
@@ -276,7 +811,6 @@ export function updateVideo(id: number, data: {
              description = ?,
              video_url = ?,
              thumbnail_url = ?,
-             tags = ?,
              updated_at = CURRENT_TIMESTAMP
        WHERE id = ?
     `)
@@ -285,13 +819,58 @@ export function updateVideo(id: number, data: {
       data.description ?? null,
       data.video_url ?? null,
       data.thumbnail_url ?? null,
-      data.tags ? JSON.stringify(data.tags) : null,
       id
     );
+  setVideoTags(id, data.tags ?? []);
+  refreshSearchIndex(id);
+}
+
+/** Taking a pack back to a draft (or a future schedule) means its next publish is announced again. */
+export function setVideoPublication(id: number, publication: { status: PackStatus; publish_at: string | null }) {
+  db.prepare(`
+      UPDATE videos
+         SET status = ?1,
+             publish_at = ?2,
+             announced_at = CASE
+               WHEN ?1 = 'draft' OR (?1 = 'scheduled' AND datetime(?2) > datetime('now')) THEN NULL
+               ELSE announced_at
+             END,
+             updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?3
+    `)
+    .run(publication.status, publication.publish_at, id);
+}
+
+/** Marks a pack as announced; false when another process (or an earlier call) already did. */
+export function claimPackAnnouncement(id: number, now: string) {
+  return db.prepare("UPDATE videos SET announced_at = ? WHERE id = ? AND announced_at IS NULL").run(now, id).changes === 1;
+}
+
+/** Live packs that haven't been announced: scheduled packs whose time came, and packs published by an archive import. */
+export function listUnannouncedLivePackIds(now: string): number[] {
+  const rows = db
+    .prepare(`
+      SELECT id FROM videos
+       WHERE announced_at IS NULL
+         AND (status = 'published' OR (status = 'scheduled' AND datetime(publish_at) <= datetime(?)))
+       ORDER BY publish_at, id
+    `)
+    .all(now) as { id: number }[];
+  return rows.map((row) => row.id);
 }
 
 export function deleteVideo(id: number) {
+  const storageKeys = listAssetsByVideo(id)
+    .map((asset) => asset.storage_key)
+    .filter((key): key is string => Boolean(key));
   db.prepare("DELETE FROM videos WHERE id = ?").run(id);
+  refreshSearchIndex(id);
+  storageKeys.forEach(releaseUpload);
+}
+
+function composeSummaryJson(filename: string | null | undefined, content: string | null | undefined) {
+  const summary = composeSummaryFor(filename, content);
+  return summary ? JSON.stringify(summary) : null;
 }
 
 function buildInlineAssetUrl(assetId: number, filename?: string | null) {
@@ -307,48 +886,269 @@ export function createAsset(
     sort_order?: number;
     filename?: string | null;
     content?: string | null;
+    upload?: { storage_key: string; mime_type: string; size_bytes: number } | null;
   }
 ): number {
-  if (!asset.url && !asset.content) {
-    throw new Error("Asset must include a URL or inline content");
+  if (!asset.url && !asset.content && !asset.upload) {
+    throw new Error("Asset must include a URL, inline content or an uploaded file");
   }
 
+  const hosted = Boolean(asset.content || asset.upload);
   const normalizedFilename =
-    asset.content && asset.filename && asset.filename.trim().length > 0
+    hosted && asset.filename && asset.filename.trim().length > 0
       ? asset.filename.trim()
-      : asset.content
-        ? `asset-${Date.now()}.txt`
+      : hosted
+        ? `asset-${Date.now()}${asset.upload ? "" : ".txt"}`
         : null;
 
   const result = db.prepare(`
-      INSERT INTO assets (video_id, label, url, sort_order, filename, content)
-      VALUES (?, ?, ?, COALESCE(?, 0), ?, ?)
+      INSERT INTO assets (video_id, label, url, sort_order, filename, content, storage_key, mime_type, size_bytes, compose_summary)
+      VALUES (?1, ?2, ?3, COALESCE(?4, (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM assets WHERE video_id = ?1)), ?5, ?6, ?7, ?8, ?9, ?10)
     `).run(
     videoId,
     asset.label,
-    asset.content ? asset.url ?? "" : asset.url ?? "",
-    asset.sort_order ?? 0,
+    hosted ? "" : asset.url ?? "",
+    asset.sort_order ?? null,
     normalizedFilename,
-    asset.content ?? null
+    asset.upload ? null : asset.content ?? null,
+    asset.upload?.storage_key ?? null,
+    asset.upload?.mime_type ?? null,
+    asset.upload?.size_bytes ?? null,
+    asset.upload ? null : composeSummaryJson(normalizedFilename, asset.content)
   );
 
   const assetId = Number(result.lastInsertRowid);
 
-  if (asset.content) {
+  if (hosted) {
     const downloadUrl = buildInlineAssetUrl(assetId, normalizedFilename);
     db.prepare("UPDATE assets SET url = ? WHERE id = ?").run(downloadUrl, assetId);
   }
 
+  if (asset.content && !asset.upload) {
+    insertAssetRevision(assetId, normalizedFilename, asset.content, "Initial version");
+  }
+
+  refreshSearchIndex(videoId);
   return assetId;
 }
 
 export function deleteAsset(id: number) {
+  const asset = getAssetById(id);
   db.prepare("DELETE FROM assets WHERE id = ?").run(id);
+  if (asset) {
+    refreshSearchIndex(asset.video_id);
+    if (asset.storage_key) {
+      releaseUpload(asset.storage_key);
+    }
+  }
+}
+
+function insertAssetRevision(assetId: number, filename: string | null, content: string, note?: string) {
+  const row = db
+    .prepare("SELECT COALESCE(MAX(revision), 0) AS latest FROM asset_revisions WHERE asset_id = ?")
+    .get(assetId) as { latest: number };
+  const revision = row.latest + 1;
+  db.prepare(`
+      INSERT INTO asset_revisions (asset_id, revision, filename, content, note)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    .run(assetId, revision, filename, content, note ?? null);
+  return revision;
+}
+
+export function listAssetRevisions(assetId: number): AssetRevisionRecord[] {
+  return db
+    .prepare("SELECT * FROM asset_revisions WHERE asset_id = ? ORDER BY revision DESC")
+    .all(assetId) as AssetRevisionRecord[];
+}
+
+export function getAssetRevision(assetId: number, revision: number): AssetRevisionRecord | null {
+  const row = db
+    .prepare("SELECT * FROM asset_revisions WHERE asset_id = ? AND revision = ?")
+    .get(assetId, revision) as AssetRevisionRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Replaces an inline asset's content/filename and records the change as a new revision.
+ * Returns the new revision number, or null when nothing changed.
+ */
+export function updateAssetContent(
+  assetId: number,
+  data: { filename: string; content: string; note?: string }
+): number | null {
+  const asset = getAssetById(assetId);
+  if (!asset || asset.content === null) {
+    throw new Error("Only inline assets have editable content");
+  }
+  if (asset.content === data.content && asset.filename === data.filename) {
+    return null;
+  }
+
+  let revision = 0;
+  db.transaction(() => {
+    db.prepare("UPDATE assets SET content = ?, filename = ?, url = ?, compose_summary = ? WHERE id = ?").run(
+      data.content,
+      data.filename,
+      buildInlineAssetUrl(assetId, data.filename),
+      composeSummaryJson(data.filename, data.content),
+      assetId
+    );
+    revision = insertAssetRevision(assetId, data.filename, data.content, data.note);
+  })();
+  refreshSearchIndex(asset.video_id);
+  return revision;
+}
+
+export type AssetUpdate =
+  | { kind: "inline"; label: string; filename: string; content: string; note?: string }
+  | { kind: "external"; label: string; url: string }
+  | { kind: "upload"; label: string; filename: string };
+
+/**
+ * Edits an asset in place, including switching it between inline content, an external
+ * URL and (when it already has one) its uploaded file. Inline content changes are
+ * recorded as revisions; an upload that is switched away from is released.
+ */
+export function updateAsset(id: number, update: AssetUpdate) {
+  const asset = getAssetById(id);
+  if (!asset) {
+    throw new Error(`Asset ${id} not found`);
+  }
+
+  db.transaction(() => {
+    if (update.kind === "inline") {
+      db.prepare(`
+          UPDATE assets
+             SET label = ?, filename = ?, content = ?, url = ?, compose_summary = ?,
+                 storage_key = NULL, mime_type = NULL, size_bytes = NULL,
+                 link_checked_at = NULL, link_status = NULL, link_error = NULL, link_failures = 0
+           WHERE id = ?
+        `)
+        .run(
+          update.label,
+          update.filename,
+          update.content,
+          buildInlineAssetUrl(id, update.filename),
+          composeSummaryJson(update.filename, update.content),
+          id
+        );
+      if (asset.content !== update.content || asset.filename !== update.filename) {
+        const note = update.note ?? (asset.content === null ? "Switched to inline content" : undefined);
+        insertAssetRevision(id, update.filename, update.content, note);
+      }
+    } else if (update.kind === "external") {
+      // SET expressions see the old row, so the check results survive only if the URL is unchanged.
+      db.prepare(`
+          UPDATE assets
+             SET label = ?1, url = ?2, filename = NULL, content = NULL, compose_summary = NULL,
+                 storage_key = NULL, mime_type = NULL, size_bytes = NULL,
+                 link_checked_at = CASE WHEN url = ?2 THEN link_checked_at END,
+                 link_status = CASE WHEN url = ?2 THEN link_status END,
+                 link_error = CASE WHEN url = ?2 THEN link_error END,
+                 link_failures = CASE WHEN url = ?2 THEN link_failures ELSE 0 END
+           WHERE id = ?3
+        `)
+        .run(update.label, update.url, id);
+    } else {
+      if (!asset.storage_key) {
+        throw new Error(`Asset ${id} has no uploaded file`);
+      }
+      db.prepare("UPDATE assets SET label = ?, filename = ?, url = ? WHERE id = ?").run(
+        update.label,
+        update.filename,
+        buildInlineAssetUrl(id, update.filename),
+        id
+      );
+    }
+  })();
+
+  refreshSearchIndex(asset.video_id);
+  if (asset.storage_key && update.kind !== "upload") {
+    releaseUpload(asset.storage_key);
+  }
+}
+
+/** Persists a full ordering for a pack's assets; ids must be exactly the pack's assets. */
+export function reorderAssets(videoId: number, orderedIds: number[]) {
+  const current = listAssetsByVideo(videoId).map((asset) => asset.id);
+  const unique = new Set(orderedIds);
+  if (unique.size !== orderedIds.length || current.length !== orderedIds.length || !current.every((id) => unique.has(id))) {
+    throw new Error("Asset order must list every asset in the pack exactly once");
+  }
+
+  db.transaction(() => {
+    const update = db.prepare("UPDATE assets SET sort_order = ? WHERE id = ? AND video_id = ?");
+    orderedIds.forEach((assetId, index) => update.run(index, assetId, videoId));
+  })();
+}
+
+/** Swaps an asset with its neighbour; used by the no-JavaScript up/down buttons. */
+export function moveAsset(id: number, direction: "up" | "down") {
+  const asset = getAssetById(id);
+  if (!asset) {
+    throw new Error(`Asset ${id} not found`);
+  }
+  const ids = listAssetsByVideo(asset.video_id).map((item) => item.id);
+  const index = ids.indexOf(id);
+  const target = direction === "up" ? index - 1 : index + 1;
+  if (target < 0 || target >= ids.length) return;
+  [ids[index], ids[target]] = [ids[target], ids[index]];
+  reorderAssets(asset.video_id, ids);
+}
+
+/** Rolling back never rewrites history: the old revision is copied forward as a new one. */
+export function rollbackAssetContent(assetId: number, revision: number): number | null {
+  const target = getAssetRevision(assetId, revision);
+  if (!target) {
+    throw new Error(`Revision ${revision} not found for asset ${assetId}`);
+  }
+  return updateAssetContent(assetId, {
+    filename: target.filename ?? `asset-${assetId}.txt`,
+    content: target.content,
+    note: `Rolled back to revision ${revision}`
+  });
+}
+
+// Uploads released inside runTransaction; their files are only removed once it commits.
+let deferredReleases: string[] = [];
+
+/**
+ * Deletes an uploaded file from disk once no asset points at it any more. Inside a transaction
+ * the file is kept until commit, since a rollback would bring the row back without it.
+ */
+function releaseUpload(storageKey: string) {
+  if (db.inTransaction) {
+    deferredReleases.push(storageKey);
+    return;
+  }
+  const row = db.prepare("SELECT COUNT(*) as count FROM assets WHERE storage_key = ?").get(storageKey) as {
+    count: number;
+  };
+  if (row.count === 0) {
+    removeUpload(storageKey);
+  }
+}
+
+/** Runs `fn` in a transaction and removes the uploads it released after the commit; a rollback keeps them. */
+export function runTransaction<T>(fn: () => T): T {
+  if (db.inTransaction) return fn();
+  let result: T;
+  try {
+    result = db.transaction(fn)();
+  } catch (error) {
+    deferredReleases = [];
+    throw error;
+  }
+  const released = [...new Set(deferredReleases)];
+  deferredReleases = [];
+  released.forEach(releaseUpload);
+  return result;
 }
 
 export function listAssetsByVideo(videoId: number): AssetRecord[] {
   return db
-    .prepare("SELECT * FROM assets WHERE video_id = ? ORDER BY sort_order ASC")
+    .prepare("SELECT * FROM assets WHERE video_id = ? ORDER BY sort_order ASC, id ASC")
     .all(videoId) as AssetRecord[];
 }
 
@@ -357,12 +1157,399 @@ export function getAssetById(id: number): AssetRecord | null {
   return row ?? null;
 }
 
-export function createSession(data: { id: string; expiresAt: string; ip?: string; userAgent?: string }) {
+/** External http(s) assets, optionally only those not checked since `checkedBefore` (a DB timestamp). */
+export function listExternalAssets(checkedBefore?: string): AssetRecord[] {
+  return db
+    .prepare(`
+      SELECT * FROM assets
+       WHERE content IS NULL AND storage_key IS NULL AND (url LIKE 'http://%' OR url LIKE 'https://%')
+         AND (?1 IS NULL OR link_checked_at IS NULL OR link_checked_at < ?1)
+       ORDER BY id
+    `)
+    .all(checkedBefore ?? null) as AssetRecord[];
+}
+
+/**
+ * Stores one check; a non-null `error` counts as a failure and extends the streak. Results
+ * for a URL the asset no longer points at (edited mid-check) are dropped.
+ */
+export function recordLinkCheck(
+  assetId: number,
+  url: string,
+  result: { status: number | null; error: string | null; checkedAt: string }
+) {
+  db.prepare(`
+      UPDATE assets
+         SET link_checked_at = ?1, link_status = ?2, link_error = ?3,
+             link_failures = CASE WHEN ?3 IS NULL THEN 0 ELSE link_failures + 1 END
+       WHERE id = ?4 AND url = ?5
+    `)
+    .run(result.checkedAt, result.status, result.error, assetId, url);
+}
+
+export function refreshSearchIndex(videoId: number) {
+  db.prepare("DELETE FROM search_index WHERE rowid = ?").run(videoId);
+  const video = db.prepare("SELECT * FROM videos WHERE id = ?").get(videoId) as VideoRecord | undefined;
+  if (!video) return;
+
+  const assets = listAssetsByVideo(videoId);
+  db.prepare(`
+      INSERT INTO search_index (rowid, title, description, tags, asset_labels, asset_content)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      video.id,
+      video.title,
+      video.description ?? "",
+      listTagNamesForVideo(video.id).join(" "),
+      assets.map((asset) => [asset.label, asset.filename].filter(Boolean).join(" ")).join("\n"),
+      assets.map((asset) => asset.content ?? "").filter(Boolean).join("\n\n")
+    );
+}
+
+export function rebuildSearchIndex() {
+  db.transaction(() => {
+    db.exec("DELETE FROM search_index");
+    const rows = db.query("SELECT id FROM videos").all() as { id: number }[];
+    rows.forEach(({ id }) => refreshSearchIndex(id));
+  })();
+}
+
+/** Rebuilds the index when it has drifted from `videos` (e.g. databases created before search existed). */
+export function ensureSearchIndex() {
+  const indexed = db.query("SELECT COUNT(*) as count FROM search_index").get() as { count: number };
+  const videos = db.query("SELECT COUNT(*) as count FROM videos").get() as { count: number };
+  if (indexed.count !== videos.count) {
+    rebuildSearchIndex();
+  }
+}
+
+export const SEARCH_MATCH_START = "\u0002";
+export const SEARCH_MATCH_END = "\u0003";
+
+export type SearchHit = {
+  video_id: number;
+  score: number;
+  title: string;
+  excerpt: string;
+};
+
+const SEARCH_STOPWORDS = new Set([
+  "a", "an", "and", "are", "does", "for", "how", "in", "is", "it", "of", "on", "or",
+  "the", "to", "what", "which", "who", "with"
+]);
+
+function tokenizeSearchQuery(query: string) {
+  const tokens = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  const meaningful = tokens.filter((token) => !SEARCH_STOPWORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+function editDistance(a: string, b: string) {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function fuzzyTerms(tokens: string[]) {
+  const vocabulary = (db.query("SELECT term FROM search_vocab").all() as { term: string }[]).map((row) => row.term);
+  const matches = new Set<string>();
+  for (const token of tokens) {
+    if (token.length < 4) continue;
+    const maxDistance = token.length >= 8 ? 2 : 1;
+    for (const term of vocabulary) {
+      if (Math.abs(term.length - token.length) > maxDistance) continue;
+      if (editDistance(term, token) <= maxDistance) {
+        matches.add(term);
+      }
+    }
+  }
+  return [...matches];
+}
+
+function runSearch(matchExpression: string, limit: number, now: string): SearchHit[] {
+  // Only listed packs compete for the limit, so drafts and archived packs can't crowd them out.
+  const rows = db
+    .prepare(`
+      SELECT search_index.rowid AS video_id,
+             bm25(search_index, 10.0, 4.0, 6.0, 3.0, 1.0) AS rank,
+             highlight(search_index, 0, ?1, ?2) AS title,
+             snippet(search_index, -1, ?1, ?2, '…', 16) AS excerpt
+        FROM search_index
+        JOIN videos ON videos.id = search_index.rowid
+       WHERE search_index MATCH ?3
+         AND (videos.status = 'published' OR (videos.status = 'scheduled' AND datetime(videos.publish_at) <= datetime(?5)))
+       ORDER BY rank
+       LIMIT ?4
+    `)
+    .all(SEARCH_MATCH_START, SEARCH_MATCH_END, matchExpression, limit, now) as Array<{
+    video_id: number;
+    rank: number;
+    title: string;
+    excerpt: string;
+  }>;
+
+  return rows.map((row) => ({
+    video_id: row.video_id,
+    score: Number((-row.rank).toFixed(4)),
+    title: row.title,
+    excerpt: row.excerpt
+  }));
+}
+
+/**
+ * Ranked full-text search over listed packs. Tries every term first, then any term, then
+ * falls back to near-miss vocabulary terms so small typos still find something.
+ * Matches in `title`/`excerpt` are wrapped in SEARCH_MATCH_START/SEARCH_MATCH_END.
+ */
+export function searchVideos(query: string, limit = 20, now = new Date().toISOString()): SearchHit[] {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return [];
+
+  const quoted = tokens.map((token) => `"${token}"*`);
+  const strict = runSearch(quoted.join(" AND "), limit, now);
+  if (strict.length > 0) return strict;
+
+  if (tokens.length > 1) {
+    const loose = runSearch(quoted.join(" OR "), limit, now);
+    if (loose.length > 0) return loose;
+  }
+
+  const corrections = fuzzyTerms(tokens);
+  if (corrections.length === 0) return [];
+  return runSearch(corrections.map((term) => `"${term}"`).join(" OR "), limit, now);
+}
+
+function getOrCreateTagId(name: string): number {
+  const existing = db.prepare("SELECT id FROM tags WHERE name = ?").get(name) as { id: number } | undefined;
+  if (existing) return existing.id;
+  const info = db.prepare("INSERT INTO tags (name) VALUES (?)").run(name);
+  return Number(info.lastInsertRowid);
+}
+
+/** Creates the tag if needed (even with no packs yet) and returns its id. */
+export function ensureTag(name: string): number {
+  return getOrCreateTagId(normalizeTagName(name));
+}
+
+export function setVideoTags(videoId: number, tags: string[]) {
+  const names = [...new Set(tags.map(normalizeTagName).filter(Boolean))];
+  db.transaction(() => {
+    db.prepare("DELETE FROM video_tags WHERE video_id = ?").run(videoId);
+    const link = db.prepare("INSERT OR IGNORE INTO video_tags (video_id, tag_id) VALUES (?, ?)");
+    for (const name of names) {
+      link.run(videoId, getOrCreateTagId(name));
+    }
+  })();
+}
+
+export function listTagsWithCounts(): TagWithCount[] {
+  return db
+    .query(`
+      SELECT t.*, COUNT(vt.video_id) AS video_count
+        FROM tags t
+        LEFT JOIN video_tags vt ON vt.tag_id = t.id
+       GROUP BY t.id
+       ORDER BY t.name ASC
+    `)
+    .all() as TagWithCount[];
+}
+
+export function getTagById(id: number): TagRecord | null {
+  const row = db.prepare("SELECT * FROM tags WHERE id = ?").get(id) as TagRecord | undefined;
+  return row ?? null;
+}
+
+export function getTagByName(name: string): TagRecord | null {
+  const row = db.prepare("SELECT * FROM tags WHERE name = ?").get(normalizeTagName(name)) as TagRecord | undefined;
+  return row ?? null;
+}
+
+function videoIdsForTag(tagId: number): number[] {
+  const rows = db.prepare("SELECT video_id FROM video_tags WHERE tag_id = ?").all(tagId) as { video_id: number }[];
+  return rows.map((row) => row.video_id);
+}
+
+/** Moves every pack from `sourceId` onto `targetId`, then removes the source tag. */
+export function mergeTags(sourceId: number, targetId: number) {
+  if (sourceId === targetId) return;
+  const affected = videoIdsForTag(sourceId);
+  db.transaction(() => {
+    db.prepare(`
+        INSERT OR IGNORE INTO video_tags (video_id, tag_id)
+        SELECT video_id, ? FROM video_tags WHERE tag_id = ?
+      `)
+      .run(targetId, sourceId);
+    db.prepare("DELETE FROM tags WHERE id = ?").run(sourceId);
+  })();
+  affected.forEach(refreshSearchIndex);
+}
+
+/** Renames a tag; when the new name already exists the two tags are merged. Returns the surviving tag id. */
+export function renameTag(id: number, newName: string): number {
+  const name = normalizeTagName(newName);
+  if (!name) {
+    throw new Error("Tag name cannot be empty");
+  }
+  const existing = getTagByName(name);
+  if (existing && existing.id !== id) {
+    mergeTags(id, existing.id);
+    return existing.id;
+  }
+  db.prepare("UPDATE tags SET name = ? WHERE id = ?").run(name, id);
+  videoIdsForTag(id).forEach(refreshSearchIndex);
+  return id;
+}
+
+export function deleteTag(id: number) {
+  const affected = videoIdsForTag(id);
+  db.prepare("DELETE FROM tags WHERE id = ?").run(id);
+  affected.forEach(refreshSearchIndex);
+}
+
+/** Moves tags stored in the legacy `videos.tags` JSON/comma column into the tags tables. */
+function migrateLegacyTags() {
+  const rows = db.query("SELECT id, tags FROM videos WHERE tags IS NOT NULL").all() as {
+    id: number;
+    tags: string;
+  }[];
+  if (rows.length === 0) return;
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const link = db.prepare("INSERT OR IGNORE INTO video_tags (video_id, tag_id) VALUES (?, ?)");
+      for (const name of parseTagInput(row.tags)) {
+        link.run(row.id, getOrCreateTagId(name));
+      }
+      db.prepare("UPDATE videos SET tags = NULL WHERE id = ?").run(row.id);
+    }
+  })();
+  console.log(`Migrated tags for ${rows.length} video(s) into the tags table`);
+}
+
+export function recordAssetDownload(asset: Pick<AssetRecord, "id" | "video_id">) {
   db.prepare(`
-      INSERT INTO sessions (id, expires_at, ip_address, user_agent)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO asset_download_stats (asset_id, video_id, day, downloads)
+      VALUES (?, ?, date('now'), 1)
+      ON CONFLICT(asset_id, day) DO UPDATE SET downloads = downloads + 1
     `)
-    .run(data.id, data.expiresAt, data.ip ?? null, data.userAgent ?? null);
+    .run(asset.id, asset.video_id);
+}
+
+export function getDownloadStats(days: number, limit = 10): DownloadStats {
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const dailyRows = db
+    .prepare(`
+      SELECT day, SUM(downloads) AS downloads
+        FROM asset_download_stats
+       WHERE day >= ?
+       GROUP BY day
+    `)
+    .all(since) as { day: string; downloads: number }[];
+  const byDay = new Map(dailyRows.map((row) => [row.day, row.downloads]));
+  const daily = Array.from({ length: days }, (_, index) => {
+    const day = new Date(Date.parse(`${since}T00:00:00Z`) + index * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return { day, downloads: byDay.get(day) ?? 0 };
+  });
+
+  const topVideos = db
+    .prepare(`
+      SELECT v.id AS video_id, v.title, v.slug, SUM(s.downloads) AS downloads
+        FROM asset_download_stats s
+        JOIN videos v ON v.id = s.video_id
+       WHERE s.day >= ?
+       GROUP BY v.id
+       ORDER BY downloads DESC, v.title ASC
+       LIMIT ?
+    `)
+    .all(since, limit) as DownloadStats["topVideos"];
+
+  const topAssets = db
+    .prepare(`
+      SELECT s.asset_id, s.video_id, a.label, v.title AS video_title, SUM(s.downloads) AS downloads
+        FROM asset_download_stats s
+        JOIN videos v ON v.id = s.video_id
+        LEFT JOIN assets a ON a.id = s.asset_id
+       WHERE s.day >= ?
+       GROUP BY s.asset_id
+       ORDER BY downloads DESC, s.asset_id ASC
+       LIMIT ?
+    `)
+    .all(since, limit) as DownloadStats["topAssets"];
+
+  return {
+    days,
+    since,
+    total: daily.reduce((sum, row) => sum + row.downloads, 0),
+    daily,
+    topVideos,
+    topAssets
+  };
+}
+
+export function createSession(data: {
+  id: string;
+  username: string;
+  csrfToken: string;
+  expiresAt: string;
+  ip?: string;
+  userAgent?: string;
+}) {
+  db.prepare(`
+      INSERT INTO sessions (id, username, csrf_token, expires_at, ip_address, user_agent, last_seen_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      data.id,
+      data.username,
+      data.csrfToken,
+      data.expiresAt,
+      data.ip ?? null,
+      data.userAgent ?? null,
+      new Date().toISOString()
+    );
+}
+
+export function touchSession(id: string, seenAt: string) {
+  db.prepare("UPDATE sessions SET last_seen_at = ? WHERE id = ?").run(seenAt, id);
+}
+
+/**
+ * Unexpired sessions seen since `idleSince`, most recently active first; pass a username to
+ * limit it to one account. Idle sessions are only deleted on their next request, so they
+ * have to be filtered here.
+ */
+export function listActiveSessions(idleSince: string, username?: string): SessionRecord[] {
+  const now = new Date().toISOString();
+  const active = "expires_at > ? AND datetime(COALESCE(last_seen_at, created_at)) >= datetime(?)";
+  const order = "ORDER BY COALESCE(last_seen_at, created_at) DESC";
+  if (username) {
+    return db
+      .query(`SELECT * FROM sessions WHERE ${active} AND username = ? ${order}`)
+      .all(now, idleSince, username) as SessionRecord[];
+  }
+  return db.query(`SELECT * FROM sessions WHERE ${active} ${order}`).all(now, idleSince) as SessionRecord[];
+}
+
+export function deleteOtherSessions(username: string, keepId: string) {
+  db.prepare("DELETE FROM sessions WHERE username = ? AND id != ?").run(username, keepId);
+}
+
+export function setSessionCsrfToken(id: string, csrfToken: string) {
+  db.prepare("UPDATE sessions SET csrf_token = ? WHERE id = ?").run(csrfToken, id);
 }
 
 export function findSession(id: string): SessionRecord | null {
@@ -379,8 +1566,258 @@ export function deleteSession(id: string) {
   db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
 }
 
-export function pruneSessions() {
-  db.exec("DELETE FROM sessions WHERE expires_at < datetime('now')");
+export function deleteSessionsForUser(username: string) {
+  db.prepare("DELETE FROM sessions WHERE username = ?").run(username);
+}
+
+/** Removes expired sessions, and those not seen since `idleSince` when it is given. */
+export function pruneSessions(idleSince?: string): number {
+  const { changes } = db
+    .prepare(
+      "DELETE FROM sessions WHERE datetime(expires_at) < datetime('now') OR datetime(COALESCE(last_seen_at, created_at)) < datetime(?)"
+    )
+    .run(idleSince ?? null);
+  db.exec("DELETE FROM login_challenges WHERE expires_at < datetime('now')");
+  return changes;
+}
+
+export function deleteAllSessions(): number {
+  return db.prepare("DELETE FROM sessions").run().changes;
+}
+
+export function createLoginChallenge(data: { id: string; username: string; expiresAt: string }) {
+  db.prepare("INSERT INTO login_challenges (id, username, expires_at) VALUES (?, ?, ?)").run(
+    data.id,
+    data.username,
+    data.expiresAt
+  );
+}
+
+export function findLoginChallenge(id: string): LoginChallengeRecord | null {
+  const row = db.prepare("SELECT * FROM login_challenges WHERE id = ?").get(id) as LoginChallengeRecord | undefined;
+  if (!row) return null;
+  if (new Date(row.expires_at).getTime() < Date.now()) {
+    deleteLoginChallenge(id);
+    return null;
+  }
+  return row;
+}
+
+/** Bumps the failed-attempt counter and returns the new total. */
+export function recordLoginChallengeFailure(id: string) {
+  db.prepare("UPDATE login_challenges SET attempts = attempts + 1 WHERE id = ?").run(id);
+  const row = db.query("SELECT attempts FROM login_challenges WHERE id = ?").get(id) as { attempts: number } | null;
+  return row?.attempts ?? 0;
+}
+
+export function deleteLoginChallenge(id: string) {
+  db.prepare("DELETE FROM login_challenges WHERE id = ?").run(id);
+}
+
+export function getLoginThrottle(scope: LoginThrottleScope, key: string): LoginThrottleRecord | null {
+  const row = db
+    .query("SELECT * FROM login_throttles WHERE scope = ? AND key = ?")
+    .get(scope, key) as LoginThrottleRecord | null;
+  return row ?? null;
+}
+
+export function saveLoginThrottle(record: LoginThrottleRecord) {
+  db.prepare(`
+      INSERT INTO login_throttles (scope, key, failures, lockouts, last_failure_at, locked_until)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(scope, key) DO UPDATE SET
+        failures = excluded.failures,
+        lockouts = excluded.lockouts,
+        last_failure_at = excluded.last_failure_at,
+        locked_until = excluded.locked_until
+    `)
+    .run(record.scope, record.key, record.failures, record.lockouts, record.last_failure_at, record.locked_until);
+}
+
+export function clearLoginThrottle(scope: LoginThrottleScope, key: string) {
+  db.prepare("DELETE FROM login_throttles WHERE scope = ? AND key = ?").run(scope, key);
+}
+
+/** Throttles that currently block sign-in or still carry failures, most recent first. */
+export function listLoginThrottles(): LoginThrottleRecord[] {
+  return db
+    .query("SELECT * FROM login_throttles WHERE failures > 0 OR locked_until > ? ORDER BY last_failure_at DESC")
+    .all(new Date().toISOString()) as LoginThrottleRecord[];
+}
+
+/** Forgets throttles with no failures since `before` and failure log entries older than `logRetentionDays`. */
+export function pruneLoginThrottles(before: string, logRetentionDays: number) {
+  db.prepare(
+    "DELETE FROM login_throttles WHERE last_failure_at < ? AND (locked_until IS NULL OR locked_until < ?)"
+  ).run(before, before);
+  db.prepare("DELETE FROM login_failures WHERE created_at < datetime('now', ?)").run(`-${logRetentionDays} days`);
+}
+
+export function recordLoginFailure(data: { username: string | null; ip: string | null; reason: string }) {
+  db.prepare("INSERT INTO login_failures (username, ip_address, reason) VALUES (?, ?, ?)").run(
+    data.username,
+    data.ip,
+    data.reason
+  );
+}
+
+export function listRecentLoginFailures(limit = 100): LoginFailureRecord[] {
+  return db
+    .query("SELECT * FROM login_failures ORDER BY id DESC LIMIT ?")
+    .all(limit) as LoginFailureRecord[];
+}
+
+export function getSetting(key: string): string | null {
+  const row = db.query("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | null;
+  return row?.value ?? null;
+}
+
+export function setSetting(key: string, value: string) {
+  db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `)
+    .run(key, value);
+}
+
+export function createApiToken(data: {
+  username: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scope: ApiTokenScope;
+}): number {
+  const info = db
+    .prepare("INSERT INTO api_tokens (username, name, token_hash, token_prefix, scope) VALUES (?, ?, ?, ?, ?)")
+    .run(data.username, data.name, data.tokenHash, data.tokenPrefix, data.scope);
+  return Number(info.lastInsertRowid);
+}
+
+export function listApiTokens(username?: string): ApiTokenRecord[] {
+  const query = `SELECT * FROM api_tokens ${username ? "WHERE username = ?" : ""} ORDER BY created_at DESC, id DESC`;
+  const statement = db.prepare(query);
+  return (username ? statement.all(username) : statement.all()) as ApiTokenRecord[];
+}
+
+export function getApiTokenById(id: number): ApiTokenRecord | null {
+  return (db.prepare("SELECT * FROM api_tokens WHERE id = ?").get(id) as ApiTokenRecord | undefined) ?? null;
+}
+
+export function findApiTokenByHash(tokenHash: string): ApiTokenRecord | null {
+  return (db.prepare("SELECT * FROM api_tokens WHERE token_hash = ?").get(tokenHash) as ApiTokenRecord | undefined) ?? null;
+}
+
+export function touchApiToken(id: number, usedAt: string) {
+  db.prepare("UPDATE api_tokens SET last_used_at = ? WHERE id = ?").run(usedAt, id);
+}
+
+export function deleteApiToken(id: number) {
+  db.prepare("DELETE FROM api_tokens WHERE id = ?").run(id);
+}
+
+export function createWebhook(data: {
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  format: WebhookFormat;
+}): number {
+  const info = db
+    .prepare("INSERT INTO webhooks (url, description, secret, events, format) VALUES (?, ?, ?, ?, ?)")
+    .run(data.url, data.description, data.secret, data.events.join(","), data.format);
+  return Number(info.lastInsertRowid);
+}
+
+export function listWebhooks(): WebhookRecord[] {
+  return db.prepare("SELECT * FROM webhooks ORDER BY id").all() as WebhookRecord[];
+}
+
+export function getWebhookById(id: number): WebhookRecord | null {
+  return (db.prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as WebhookRecord | undefined) ?? null;
+}
+
+export function setWebhookActive(id: number, active: boolean) {
+  db.prepare("UPDATE webhooks SET active = ? WHERE id = ?").run(active ? 1 : 0, id);
+}
+
+export function deleteWebhook(id: number) {
+  db.prepare("DELETE FROM webhooks WHERE id = ?").run(id);
+}
+
+/** Queues one delivery per active endpoint subscribed to `event`; returns how many were queued. */
+export function enqueueWebhookDeliveries(event: string, payload: string, now: string) {
+  const endpoints = listWebhooks().filter((webhook) => webhook.active && webhook.events.split(",").includes(event));
+  const insert = db.prepare(
+    "INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at) VALUES (?, ?, ?, ?)"
+  );
+  db.transaction(() => endpoints.forEach((webhook) => insert.run(webhook.id, event, payload, now)))();
+  return endpoints.length;
+}
+
+/** Pending deliveries whose next attempt is due, oldest first. Paused endpoints keep theirs until resumed. */
+export function listDueWebhookDeliveries(now: string, limit = 20): (WebhookDeliveryRecord & { webhook: WebhookRecord })[] {
+  const rows = db
+    .prepare(`
+      SELECT d.* FROM webhook_deliveries d
+        JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.active = 1
+       ORDER BY d.next_attempt_at, d.id
+       LIMIT ?
+    `)
+    .all(now, limit) as WebhookDeliveryRecord[];
+  return rows.map((row) => ({ ...row, webhook: getWebhookById(row.webhook_id)! }));
+}
+
+export function recordWebhookAttempt(
+  id: number,
+  attempt: Pick<
+    WebhookDeliveryRecord,
+    "status" | "attempts" | "next_attempt_at" | "last_attempt_at" | "response_status" | "response_body" | "error"
+  >
+) {
+  db.prepare(`
+      UPDATE webhook_deliveries
+         SET status = ?, attempts = ?, next_attempt_at = ?, last_attempt_at = ?, response_status = ?, response_body = ?, error = ?
+       WHERE id = ?
+    `)
+    .run(
+      attempt.status,
+      attempt.attempts,
+      attempt.next_attempt_at,
+      attempt.last_attempt_at,
+      attempt.response_status,
+      attempt.response_body,
+      attempt.error,
+      id
+    );
+}
+
+export function listWebhookDeliveries(limit = 50): (WebhookDeliveryRecord & { webhook_url: string })[] {
+  return db
+    .prepare(`
+      SELECT d.*, w.url AS webhook_url FROM webhook_deliveries d
+        JOIN webhooks w ON w.id = d.webhook_id
+       ORDER BY d.id DESC
+       LIMIT ?
+    `)
+    .all(limit) as (WebhookDeliveryRecord & { webhook_url: string })[];
+}
+
+/** Redelivery queues a fresh copy so the original attempt stays in the log; returns the new id. */
+export function redeliverWebhookDelivery(id: number, now: string): number | null {
+  const info = db
+    .prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at)
+      SELECT webhook_id, event, payload, ? FROM webhook_deliveries WHERE id = ?
+    `)
+    .run(now, id);
+  return info.changes > 0 ? Number(info.lastInsertRowid) : null;
+}
+
+export function pruneWebhookDeliveries(retentionDays: number) {
+  db.prepare("DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', ?)").run(
+    `-${retentionDays} days`
+  );
 }
 
 export function getAdminUser(username: string): AdminUserRecord | null {
@@ -389,14 +1826,111 @@ export function getAdminUser(username: string): AdminUserRecord | null {
 }
 
 export function listAdminUsers(): AdminUserRecord[] {
-  return db.prepare("SELECT * FROM admin_users").all() as AdminUserRecord[];
+  return db.prepare("SELECT * FROM admin_users ORDER BY username ASC").all() as AdminUserRecord[];
+}
+
+export function countActiveOwners(): number {
+  const row = db
+    .query("SELECT COUNT(*) as count FROM admin_users WHERE role = 'owner' AND disabled = 0")
+    .get() as { count: number };
+  return row.count;
+}
+
+export function createAdminUser(data: {
+  username: string;
+  passwordHash: string;
+  salt: string;
+  role: AdminRole;
+  mustChangePassword?: boolean;
+}) {
+  db.prepare(`
+      INSERT INTO admin_users (username, password_hash, salt, must_change_password, role)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    .run(data.username, data.passwordHash, data.salt, data.mustChangePassword === false ? 0 : 1, data.role);
+}
+
+export function updateAdminRole(username: string, role: AdminRole) {
+  db.prepare("UPDATE admin_users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE username = ?").run(role, username);
+}
+
+export function setAdminDisabled(username: string, disabled: boolean) {
+  db.prepare("UPDATE admin_users SET disabled = ?, updated_at = CURRENT_TIMESTAMP WHERE username = ?").run(
+    disabled ? 1 : 0,
+    username
+  );
+  if (disabled) {
+    deleteSessionsForUser(username);
+  }
+}
+
+/** Stores a fresh secret for enrollment; it only takes effect once `enableTotp` confirms a code. */
+export function setPendingTotpSecret(username: string, secret: string) {
+  db.prepare(
+    "UPDATE admin_users SET totp_secret = ?, totp_enabled = 0, totp_last_counter = NULL, updated_at = CURRENT_TIMESTAMP WHERE username = ?"
+  ).run(secret, username);
+}
+
+export function enableTotp(username: string, counter: number, recoveryCodeHashes: string[]) {
+  db.transaction(() => {
+    db.prepare(
+      "UPDATE admin_users SET totp_enabled = 1, totp_last_counter = ?, updated_at = CURRENT_TIMESTAMP WHERE username = ?"
+    ).run(counter, username);
+    replaceRecoveryCodes(username, recoveryCodeHashes);
+  })();
+}
+
+export function disableTotp(username: string) {
+  db.transaction(() => {
+    db.prepare(
+      "UPDATE admin_users SET totp_secret = NULL, totp_enabled = 0, totp_last_counter = NULL, updated_at = CURRENT_TIMESTAMP WHERE username = ?"
+    ).run(username);
+    db.prepare("DELETE FROM admin_recovery_codes WHERE username = ?").run(username);
+  })();
+}
+
+export function markTotpCounterUsed(username: string, counter: number) {
+  db.prepare("UPDATE admin_users SET totp_last_counter = ? WHERE username = ?").run(counter, username);
+}
+
+export function replaceRecoveryCodes(username: string, codeHashes: string[]) {
+  db.transaction(() => {
+    db.prepare("DELETE FROM admin_recovery_codes WHERE username = ?").run(username);
+    const insert = db.prepare("INSERT INTO admin_recovery_codes (username, code_hash) VALUES (?, ?)");
+    for (const hash of codeHashes) {
+      insert.run(username, hash);
+    }
+  })();
+}
+
+/** Marks a matching unused recovery code as spent; returns false when none matched. */
+export function consumeRecoveryCode(username: string, codeHash: string) {
+  const result = db
+    .prepare(
+      "UPDATE admin_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE username = ? AND code_hash = ? AND used_at IS NULL"
+    )
+    .run(username, codeHash);
+  return result.changes > 0;
+}
+
+export function countUnusedRecoveryCodes(username: string): number {
+  const row = db
+    .query("SELECT COUNT(*) as count FROM admin_recovery_codes WHERE username = ? AND used_at IS NULL")
+    .get(username) as { count: number };
+  return row.count;
 }
 
 export function deleteAdminUser(username: string) {
   db.prepare("DELETE FROM admin_users WHERE username = ?").run(username);
 }
 
-export function ensureAdminUser(username: string, passwordHash: string, salt: string, forcePasswordChange = true) {
+export function ensureAdminUser(
+  username: string,
+  passwordHash: string,
+  salt: string,
+  forcePasswordChange = true,
+  role: AdminRole = "owner"
+) {
   const existing = getAdminUser(username);
   if (existing) {
     return;
@@ -404,10 +1938,17 @@ export function ensureAdminUser(username: string, passwordHash: string, salt: st
 
   db.prepare(
     `
-    INSERT INTO admin_users (username, password_hash, salt, must_change_password)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO admin_users (username, password_hash, salt, must_change_password, role)
+    VALUES (?, ?, ?, ?, ?)
   `
-  ).run(username, passwordHash, salt, forcePasswordChange ? 1 : 0);
+  ).run(username, passwordHash, salt, forcePasswordChange ? 1 : 0, role);
+}
+
+export function setMustChangePassword(username: string, mustChange: boolean) {
+  db.prepare("UPDATE admin_users SET must_change_password = ?, updated_at = CURRENT_TIMESTAMP WHERE username = ?").run(
+    mustChange ? 1 : 0,
+    username
+  );
 }
 
 export function updateAdminPassword(username: string, passwordHash: string, salt: string, forceRotate = false) {
@@ -0,0 +1,118 @@
+export type DiffLine = {
+  number: number;
+  text: string;
+};
+
+export type DiffRow =
+  | { type: "same"; left: DiffLine; right: DiffLine }
+  | { type: "changed"; left: DiffLine; right: DiffLine }
+  | { type: "removed"; left: DiffLine }
+  | { type: "added"; right: DiffLine };
+
+type Operation = { kind: "equal" | "delete" | "insert"; line: string };
+
+// Above this many LCS cells we fall back to "everything changed" instead of burning memory.
+const MAX_DIFF_CELLS = 4_000_000;
+
+function lineOperations(before: string[], after: string[]): Operation[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: Operation[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    a.forEach((line) => middle.push({ kind: "delete", line }));
+    b.forEach((line) => middle.push({ kind: "insert", line }));
+  } else {
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        middle.push({ kind: "equal", line: a[i] });
+        i += 1;
+        j += 1;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        middle.push({ kind: "delete", line: a[i] });
+        i += 1;
+      } else {
+        middle.push({ kind: "insert", line: b[j] });
+        j += 1;
+      }
+    }
+    a.slice(i).forEach((line) => middle.push({ kind: "delete", line }));
+    b.slice(j).forEach((line) => middle.push({ kind: "insert", line }));
+  }
+
+  return [
+    ...before.slice(0, prefix).map((line): Operation => ({ kind: "equal", line })),
+    ...middle,
+    ...before.slice(before.length - suffix).map((line): Operation => ({ kind: "equal", line }))
+  ];
+}
+
+/**
+ * Line-based diff laid out for side-by-side display: runs of removed lines are paired
+ * with the added lines that replaced them so edits show up on the same row.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const operations = lineOperations(before.split("\n"), after.split("\n"));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < operations.length) {
+    const operation = operations[index];
+    if (operation.kind === "equal") {
+      rows.push({
+        type: "same",
+        left: { number: leftNumber++, text: operation.line },
+        right: { number: rightNumber++, text: operation.line }
+      });
+      index += 1;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && operations[index].kind !== "equal") {
+      (operations[index].kind === "delete" ? removed : added).push(operations[index].line);
+      index += 1;
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({
+        type: "changed",
+        left: { number: leftNumber++, text: removed[k] },
+        right: { number: rightNumber++, text: added[k] }
+      });
+    }
+    removed.slice(paired).forEach((text) => rows.push({ type: "removed", left: { number: leftNumber++, text } }));
+    added.slice(paired).forEach((text) => rows.push({ type: "added", right: { number: rightNumber++, text } }));
+  }
+
+  return rows;
+}
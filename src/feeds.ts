@@ -0,0 +1,183 @@
+import { createHash } from "node:crypto";
+
+export type FeedAttachment = {
+  url: string;
+  title: string;
+  mimeType: string;
+  sizeBytes: number | null;
+};
+
+export type FeedItem = {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  contentHtml: string;
+  imageUrl: string | null;
+  tags: string[];
+  published: number;
+  updated: number;
+  attachments: FeedAttachment[];
+};
+
+/** Every URL in a feed document is absolute; readers have no page to resolve relative links against. */
+export type FeedDocument = {
+  title: string;
+  description: string;
+  homeUrl: string;
+  selfUrl: string;
+  items: FeedItem[];
+};
+
+export const FEED_CONTENT_TYPES = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8"
+} as const;
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters other than tab and newlines are not allowed anywhere in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+/** Newest change across the feed, or null for an empty feed. */
+export function feedLastModified(feed: FeedDocument) {
+  return feed.items.length > 0 ? Math.max(...feed.items.map((item) => item.updated)) : null;
+}
+
+function isoDate(timestamp: number) {
+  return new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+export function buildRssFeed(feed: FeedDocument) {
+  const lastModified = feedLastModified(feed);
+  const items = feed.items.map((item) => {
+    // RSS has no place for a size-less enclosure, so external links only appear in the description.
+    const enclosures = item.attachments
+      .filter((attachment) => attachment.sizeBytes !== null)
+      .map(
+        (attachment) =>
+          `<enclosure url="${escapeXml(attachment.url)}" length="${attachment.sizeBytes}" type="${escapeXml(attachment.mimeType)}" />`
+      );
+    return [
+      "    <item>",
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(item.contentHtml)}</description>`,
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      ...enclosures.map((enclosure) => `      ${enclosure}`),
+      "    </item>"
+    ].join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml" />
+${lastModified !== null ? `    <lastBuildDate>${new Date(lastModified).toUTCString()}</lastBuildDate>\n` : ""}${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+export function buildAtomFeed(feed: FeedDocument) {
+  const lastModified = feedLastModified(feed) ?? 0;
+  const entries = feed.items.map((item) =>
+    [
+      "  <entry>",
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `    <published>${isoDate(item.published)}</published>`,
+      `    <updated>${isoDate(item.updated)}</updated>`,
+      ...(item.summary ? [`    <summary>${escapeXml(item.summary)}</summary>`] : []),
+      `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`),
+      ...item.attachments.map(
+        (attachment) =>
+          `    <link rel="enclosure" href="${escapeXml(attachment.url)}" type="${escapeXml(attachment.mimeType)}" title="${escapeXml(attachment.title)}"${
+            attachment.sizeBytes !== null ? ` length="${attachment.sizeBytes}"` : ""
+          } />`
+      ),
+      "  </entry>"
+    ].join("\n")
+  );
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.homeUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}" />
+  <updated>${isoDate(lastModified)}</updated>
+  <author><name>${escapeXml(feed.title)}</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+export function buildJsonFeed(feed: FeedDocument) {
+  return `${JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: feed.title,
+      home_page_url: feed.homeUrl,
+      feed_url: feed.selfUrl,
+      description: feed.description,
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        content_html: item.contentHtml,
+        ...(item.summary ? { summary: item.summary } : {}),
+        ...(item.imageUrl ? { image: item.imageUrl } : {}),
+        date_published: isoDate(item.published),
+        date_modified: isoDate(item.updated),
+        tags: item.tags,
+        attachments: item.attachments.map((attachment) => ({
+          url: attachment.url,
+          mime_type: attachment.mimeType,
+          title: attachment.title,
+          ...(attachment.sizeBytes !== null ? { size_in_bytes: attachment.sizeBytes } : {})
+        }))
+      }))
+    },
+    null,
+    2
+  )}\n`;
+}
+
+export function feedEtag(body: string) {
+  return `"${createHash("sha256").update(body).digest("hex").slice(0, 32)}"`;
+}
+
+/**
+ * True when the client's cached copy is still current. If-None-Match wins over
+ * If-Modified-Since, as RFC 9110 requires; dates only have second precision.
+ */
+export function isNotModified(request: Request, etag: string, lastModified: number | null) {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return (
+      ifNoneMatch.trim() === "*" ||
+      ifNoneMatch.split(",").some((candidate) => candidate.trim().replace(/^W\//, "") === etag)
+    );
+  }
+  const ifModifiedSince = Date.parse(request.headers.get("if-modified-since") ?? "");
+  if (lastModified === null || Number.isNaN(ifModifiedSince)) {
+    return false;
+  }
+  return Math.floor(lastModified / 1000) <= Math.floor(ifModifiedSince / 1000);
+}
@@ -0,0 +1,203 @@
+import { escapeHtml } from "./html";
+
+export type HighlightLanguage = "yaml" | "json" | "env" | "sh" | "ts" | "md" | "conf" | "text";
+
+type TokenClass = "comment" | "key" | "string" | "number" | "keyword" | "variable" | "heading" | "punct";
+
+/**
+ * A sticky pattern tried at the current position. `classes` maps capture groups to classes
+ * when one match spans several kinds of token; the groups must cover the whole match.
+ */
+type Rule = { pattern: RegExp; cls: TokenClass | null } | { pattern: RegExp; classes: (TokenClass | null)[] };
+
+type Token = { text: string; cls: TokenClass | null };
+
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"/y;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'/y;
+const SHELL_VARIABLE = /\$\{[^}\n]*\}|\$[A-Za-z_]\w*|\$[0-9@#?$!*-]/y;
+
+const RULES: Record<Exclude<HighlightLanguage, "text">, Rule[]> = {
+  yaml: [
+    { pattern: /(?<=^|[ \t])#.*/my, cls: "comment" },
+    { pattern: /^(?:---|\.\.\.)(?=\s|$)/my, cls: "punct" },
+    {
+      pattern: /^([ \t]*(?:-[ \t]+)*)("(?:[^"\\\n]|\\.)*"|'[^'\n]*'|[^\s#:'"-][^\n:#]*?|-[^\s\n:#][^\n:#]*?)(:)(?=[ \t]|$)/my,
+      classes: [null, "key", "punct"]
+    },
+    { pattern: /^[ \t]*-(?=\s)/my, cls: "punct" },
+    { pattern: DOUBLE_QUOTED, cls: "string" },
+    { pattern: /'(?:[^'\n]|'')*'/y, cls: "string" },
+    { pattern: SHELL_VARIABLE, cls: "variable" },
+    { pattern: /[&*][\w-]+|!!?[\w-]+/y, cls: "keyword" },
+    { pattern: /\b(?:true|false|yes|no|on|off|null)\b|~(?=\s|$)/y, cls: "keyword" },
+    { pattern: /-?\b\d+(?:\.\d+)?\b/y, cls: "number" },
+    { pattern: /(?<=:[ \t]+)[|>][+-]?\d?(?=[ \t]*(?:#.*)?$)/my, cls: "punct" }
+  ],
+  json: [
+    { pattern: /("(?:[^"\\\n]|\\.)*")(\s*)(:)/y, classes: ["key", null, "punct"] },
+    { pattern: DOUBLE_QUOTED, cls: "string" },
+    { pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, cls: "number" },
+    { pattern: /\b(?:true|false|null)\b/y, cls: "keyword" },
+    { pattern: /[{}[\],:]/y, cls: "punct" }
+  ],
+  env: [
+    { pattern: /^[ \t]*#.*/my, cls: "comment" },
+    { pattern: /^([ \t]*)(export[ \t]+)?([A-Za-z_][\w.-]*)([ \t]*=)/my, classes: [null, "keyword", "key", "punct"] },
+    { pattern: /(?<=[ \t])#.*/y, cls: "comment" },
+    { pattern: DOUBLE_QUOTED, cls: "string" },
+    { pattern: SINGLE_QUOTED, cls: "string" },
+    { pattern: SHELL_VARIABLE, cls: "variable" }
+  ],
+  sh: [
+    { pattern: /(?<=^|[\s;])#.*/my, cls: "comment" },
+    { pattern: /^([ \t]*)([A-Za-z_]\w*)(=)/my, classes: [null, "key", "punct"] },
+    { pattern: /"(?:[^"\\]|\\[\s\S])*"/y, cls: "string" },
+    { pattern: /'[^']*'/y, cls: "string" },
+    { pattern: SHELL_VARIABLE, cls: "variable" },
+    {
+      pattern:
+        /\b(?:if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|exit|local|export|readonly|set|unset|source|echo|cd|shift|trap)\b/y,
+      cls: "keyword"
+    },
+    { pattern: /\b\d+\b/y, cls: "number" },
+    { pattern: /&&|\|\||[|;&<>]/y, cls: "punct" }
+  ],
+  ts: [
+    { pattern: /\/\/.*|\/\*[\s\S]*?(?:\*\/|$(?![\s\S]))/y, cls: "comment" },
+    { pattern: DOUBLE_QUOTED, cls: "string" },
+    { pattern: SINGLE_QUOTED, cls: "string" },
+    { pattern: /`(?:[^`\\]|\\[\s\S])*`/y, cls: "string" },
+    {
+      pattern:
+        /\b(?:abstract|as|async|await|break|case|catch|class|const|continue|debugger|declare|default|delete|do|else|enum|export|extends|false|finally|for|from|function|get|if|implements|import|in|instanceof|interface|keyof|let|new|null|of|private|protected|public|readonly|return|satisfies|set|static|super|switch|this|throw|true|try|type|typeof|undefined|var|void|while|yield)\b/y,
+      cls: "keyword"
+    },
+    { pattern: /\b(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y, cls: "number" },
+    { pattern: /\b[A-Z][A-Za-z0-9_]*\b/y, cls: "key" },
+    { pattern: /=>|[{}()[\];,.<>=!+\-*/%&|?:]/y, cls: "punct" }
+  ],
+  md: [
+    { pattern: /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^\1[ \t]*$|$(?![\s\S]))/my, cls: "string" },
+    { pattern: /^#{1,6}[ \t].*/my, cls: "heading" },
+    { pattern: /^[ \t]*>.*/my, cls: "comment" },
+    { pattern: /^([ \t]*)([-*+]|\d+\.)(?=[ \t])/my, classes: [null, "punct"] },
+    { pattern: /`[^`\n]+`/y, cls: "string" },
+    { pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/y, cls: "keyword" },
+    { pattern: /!?\[[^\]\n]*\]\([^)\n]*\)/y, cls: "variable" }
+  ],
+  conf: [
+    { pattern: /^[ \t]*[#;].*/my, cls: "comment" },
+    { pattern: /(?<=[ \t])#.*/y, cls: "comment" },
+    { pattern: /^([ \t]*)(\[[^\]\n]*\])/my, classes: [null, "heading"] },
+    { pattern: /^([ \t]*)([\w.-]+)([ \t]*[=:])/my, classes: [null, "key", "punct"] },
+    { pattern: /^([ \t]*)([A-Za-z_][\w.-]*)(?=[ \t]|$)/my, classes: [null, "key"] },
+    { pattern: DOUBLE_QUOTED, cls: "string" },
+    { pattern: SINGLE_QUOTED, cls: "string" },
+    { pattern: SHELL_VARIABLE, cls: "variable" },
+    { pattern: /\b\d+(?:\.\d+)?[kKmMgGsShHdD]?\b/y, cls: "number" },
+    { pattern: /\b(?:on|off|true|false|yes|no)\b/y, cls: "keyword" },
+    { pattern: /[{};]/y, cls: "punct" }
+  ]
+};
+
+const LANGUAGE_NAMES: Record<HighlightLanguage, string> = {
+  yaml: "YAML",
+  json: "JSON",
+  env: "Environment file",
+  sh: "Shell script",
+  ts: "TypeScript / JavaScript",
+  md: "Markdown",
+  conf: "Config file",
+  text: "Plain text"
+};
+
+/** Mirrors the extensions detectMimeTypeFromFilename knows; `.env.production` style names count as env files. */
+export function detectHighlightLanguage(filename: string): HighlightLanguage {
+  const name = filename.toLowerCase();
+  if (name === ".env" || name.startsWith(".env.")) return "env";
+  switch (name.includes(".") ? name.split(".").pop() : undefined) {
+    case "yml":
+    case "yaml":
+      return "yaml";
+    case "json":
+      return "json";
+    case "env":
+      return "env";
+    case "sh":
+      return "sh";
+    case "ts":
+    case "tsx":
+    case "js":
+    case "jsx":
+      return "ts";
+    case "md":
+    case "mdx":
+      return "md";
+    case "conf":
+    case "ini":
+      return "conf";
+    default:
+      return "text";
+  }
+}
+
+export function highlightLanguageName(language: HighlightLanguage) {
+  return LANGUAGE_NAMES[language];
+}
+
+function tokenize(content: string, rules: Rule[]): Token[] {
+  const tokens: Token[] = [];
+  const push = (text: string, cls: TokenClass | null) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.cls === cls) {
+      last.text += text;
+    } else {
+      tokens.push({ text, cls });
+    }
+  };
+
+  let position = 0;
+  scan: while (position < content.length) {
+    for (const rule of rules) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(content);
+      if (!match || match[0].length === 0) continue;
+      if ("classes" in rule) {
+        rule.classes.forEach((cls, index) => push(match[index + 1] ?? "", cls));
+      } else {
+        push(match[0], rule.cls);
+      }
+      position += match[0].length;
+      continue scan;
+    }
+    // Nothing starts here: skip a whole word so keyword rules can't fire in the middle of one,
+    // and stop at each line break so line-anchored rules get a chance at the next line.
+    const plain = /[A-Za-z_]\w*|[ \t]+|[\s\S]/y;
+    plain.lastIndex = position;
+    const text = plain.exec(content)![0];
+    push(text, null);
+    position += text.length;
+  }
+  return tokens;
+}
+
+/**
+ * Returns one HTML string per line of `content`. Tokens that span lines (block comments,
+ * fenced code) are closed and reopened at each line break so every line stands alone.
+ */
+export function highlightLines(content: string, language: HighlightLanguage): string[] {
+  const tokens = language === "text" ? [{ text: content, cls: null }] : tokenize(content, RULES[language]);
+  const lines: string[] = [""];
+  for (const token of tokens) {
+    token.text.split("\n").forEach((part, index) => {
+      if (index > 0) lines.push("");
+      if (!part) return;
+      const html = escapeHtml(part);
+      lines[lines.length - 1] += token.cls ? `<span class="hl-${token.cls}">${html}</span>` : html;
+    });
+  }
+  // A trailing newline ends the last line rather than starting an empty one.
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
@@ -0,0 +1,102 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The policy and the database are read at import time, so the environment is set up first.
+const dataDir = mkdtempSync(join(tmpdir(), "linkcheck-test-"));
+Bun.env.DATA_DIR = dataDir;
+Bun.env.LINK_CHECK_CONCURRENCY = "not-a-number";
+const { checkExternalLinks, checkLink, linkCheckPolicy } = await import("./linkcheck");
+const { createAsset, createVideo, db, migrateDatabase } = await import("./db");
+migrateDatabase(() => undefined);
+
+const stub = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/ok":
+        return new Response("ok");
+      case "/no-head":
+        return new Response(request.method === "HEAD" ? null : "ok", { status: request.method === "HEAD" ? 405 : 200 });
+      case "/moved":
+        return Response.redirect(new URL("/ok", request.url).toString(), 302);
+      case "/slow":
+        await Bun.sleep(200);
+        return new Response("ok");
+      default:
+        return new Response("missing", { status: 404 });
+    }
+  }
+});
+
+// Drops the connection on HEAD without answering, the way some CDNs do, and serves GET normally.
+const resetting = Bun.listen({
+  hostname: "127.0.0.1",
+  port: 0,
+  socket: {
+    data(socket, data) {
+      if (data.toString().startsWith("HEAD ")) {
+        socket.end();
+        return;
+      }
+      socket.end("HTTP/1.1 200 OK\r\ncontent-length: 2\r\nconnection: close\r\n\r\nok");
+    }
+  }
+});
+
+const stubUrl = (path: string) => `http://127.0.0.1:${stub.port}${path}`;
+
+afterAll(() => {
+  stub.stop(true);
+  resetting.stop(true);
+  db.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("checkLink", () => {
+  test("accepts a link that answers HEAD", async () => {
+    expect(await checkLink(stubUrl("/ok"), 2000)).toEqual({ status: 200, error: null });
+  });
+
+  test("retries with GET when HEAD is refused", async () => {
+    expect(await checkLink(stubUrl("/no-head"), 2000)).toEqual({ status: 200, error: null });
+  });
+
+  test("retries with GET when HEAD drops the connection", async () => {
+    expect(await checkLink(`http://127.0.0.1:${resetting.port}/file.zip`, 2000)).toEqual({ status: 200, error: null });
+  });
+
+  test("follows redirects", async () => {
+    expect(await checkLink(stubUrl("/moved"), 2000)).toEqual({ status: 200, error: null });
+  });
+
+  test("reports the final error status", async () => {
+    expect(await checkLink(stubUrl("/gone"), 2000)).toEqual({ status: 404, error: "HTTP 404" });
+  });
+
+  test("reports a timeout", async () => {
+    const result = await checkLink(stubUrl("/slow"), 50);
+    expect(result.status).toBeNull();
+    expect(result.error).toBe("No response within 0.05s");
+  });
+});
+
+describe("checkExternalLinks", () => {
+  test("falls back to the default concurrency for an invalid setting", () => {
+    expect(linkCheckPolicy.concurrency).toBe(4);
+  });
+
+  test("a full check requested during a due-only run waits and then checks everything", async () => {
+    const videoId = createVideo({ title: "Links", slug: "links" });
+    const checked = createAsset(videoId, { label: "Checked", url: stubUrl("/ok") });
+    expect((await checkExternalLinks()).map((result) => result.asset.id)).toEqual([checked]);
+
+    const fresh = createAsset(videoId, { label: "Fresh", url: stubUrl("/slow") });
+    const due = checkExternalLinks();
+    const full = checkExternalLinks({ all: true });
+    expect((await due).map((result) => result.asset.id)).toEqual([fresh]);
+    expect((await full).map((result) => result.asset.id).sort()).toEqual([checked, fresh].sort());
+  });
+});
@@ -0,0 +1,134 @@
+import { listExternalAssets, recordLinkCheck, type AssetRecord } from "./db";
+import { formatDbTimestamp } from "./packs";
+
+/** Parallel checks need at least one lane; anything that isn't a positive number falls back to the default. */
+function readConcurrency(value: string | undefined, fallback: number) {
+  const parsed = Math.floor(Number(value ?? fallback));
+  return parsed >= 1 ? parsed : fallback;
+}
+
+export const linkCheckPolicy = {
+  // Each external link is rechecked once this many minutes have passed; 0 turns the background checker off.
+  intervalMinutes: Number(Bun.env.LINK_CHECK_INTERVAL_MINUTES ?? 6 * 60),
+  timeoutSeconds: Number(Bun.env.LINK_CHECK_TIMEOUT_SECONDS ?? 10),
+  concurrency: readConcurrency(Bun.env.LINK_CHECK_CONCURRENCY, 4),
+  // Failed checks in a row before public pages call a link temporarily unavailable; 0 never does.
+  unavailableAfter: Number(Bun.env.LINK_CHECK_UNAVAILABLE_AFTER ?? 3)
+};
+
+// How often the background job looks for links that are due; the query is cheap when none are.
+const SCHEDULER_TICK_MS = 60_000;
+const USER_AGENT = "manage-video-download-links link checker";
+
+export type LinkCheckResult = {
+  asset: AssetRecord;
+  status: number | null;
+  error: string | null;
+};
+
+async function requestStatus(url: string, method: "HEAD" | "GET", timeoutMs: number) {
+  const response = await fetch(url, {
+    method,
+    redirect: "follow",
+    headers: { "user-agent": USER_AGENT },
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+  // Only the status matters, and a GET may be a large download.
+  await response.body?.cancel().catch(() => undefined);
+  return response.status;
+}
+
+function describeFetchError(error: unknown, timeoutMs: number) {
+  if (error instanceof DOMException && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return `No response within ${timeoutMs / 1000}s`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * HEAD first, then GET when HEAD fails: some servers (object stores, release CDNs) answer
+ * HEAD with 403/405 or drop the connection for files that download fine. Redirects are
+ * followed; anything that ends below 400 counts as working.
+ */
+export async function checkLink(url: string, timeoutMs = linkCheckPolicy.timeoutSeconds * 1000) {
+  try {
+    const headStatus = await requestStatus(url, "HEAD", timeoutMs).catch(() => null);
+    const status = headStatus !== null && headStatus < 400 ? headStatus : await requestStatus(url, "GET", timeoutMs);
+    return { status, error: status >= 400 ? `HTTP ${status}` : null };
+  } catch (error) {
+    return { status: null, error: describeFetchError(error, timeoutMs) };
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+}
+
+let activeRun: { all: boolean; results: Promise<LinkCheckResult[]> } | null = null;
+
+function runLinkChecks(all: boolean) {
+  const dueBefore = all ? undefined : formatDbTimestamp(Date.now() - linkCheckPolicy.intervalMinutes * 60_000);
+  return mapWithConcurrency(listExternalAssets(dueBefore), linkCheckPolicy.concurrency, async (asset) => {
+    const result = await checkLink(asset.url);
+    recordLinkCheck(asset.id, asset.url, { ...result, checkedAt: formatDbTimestamp(Date.now()) });
+    return { asset, ...result };
+  });
+}
+
+/**
+ * Checks external assets and records the results. By default only links that are due (not
+ * checked within the interval) are visited; `all` rechecks everything. A call that arrives
+ * while a run covering it is in progress shares that run; asking for `all` during a due-only
+ * run queues a full run after it, so it never returns a partial list.
+ */
+export function checkExternalLinks({ all = false }: { all?: boolean } = {}) {
+  if (activeRun && (activeRun.all || !all)) return activeRun.results;
+  const previous = activeRun?.results;
+  const run = {
+    all,
+    results: (async () => {
+      await previous?.catch(() => undefined);
+      return runLinkChecks(all);
+    })().finally(() => {
+      if (activeRun === run) activeRun = null;
+    })
+  };
+  activeRun = run;
+  return run.results;
+}
+
+/** Runs checkExternalLinks in the background for the lifetime of the server process. */
+export function startLinkChecker() {
+  if (!(linkCheckPolicy.intervalMinutes > 0)) return;
+  const tick = async () => {
+    try {
+      const results = await checkExternalLinks();
+      const failing = results.filter((result) => result.error !== null);
+      if (failing.length > 0) {
+        console.warn(`Link check: ${failing.length} of ${results.length} external links failed`);
+      }
+    } catch (error) {
+      console.error("Link check failed", error);
+    }
+  };
+  setInterval(tick, SCHEDULER_TICK_MS);
+  void tick();
+}
+
+export function isLinkBroken(asset: Pick<AssetRecord, "link_error">) {
+  return asset.link_error !== null;
+}
+
+/** Public pages only flag a link once it has failed several checks in a row, so one blip doesn't show. */
+export function isLinkUnavailable(asset: Pick<AssetRecord, "link_failures">) {
+  return linkCheckPolicy.unavailableAfter > 0 && asset.link_failures >= linkCheckPolicy.unavailableAfter;
+}
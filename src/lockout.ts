@@ -0,0 +1,108 @@
+import {
+  clearLoginThrottle,
+  getLoginThrottle,
+  pruneLoginThrottles,
+  recordLoginFailure,
+  saveLoginThrottle,
+  type LoginThrottleRecord,
+  type LoginThrottleScope
+} from "./db";
+
+export const loginLockoutPolicy = {
+  // Failures allowed per username (and, more generously, per client IP) before a lockout.
+  maxUserFailures: Number(Bun.env.LOGIN_MAX_FAILURES ?? 5),
+  maxIpFailures: Number(Bun.env.LOGIN_MAX_IP_FAILURES ?? 20),
+  lockoutMinutes: Number(Bun.env.LOGIN_LOCKOUT_MINUTES ?? 15),
+  maxLockoutMinutes: Number(Bun.env.LOGIN_MAX_LOCKOUT_MINUTES ?? 24 * 60)
+};
+
+// Short pause between failures below the lockout threshold: 1s, 2s, 4s… capped here.
+const MAX_BACKOFF_SECONDS = 60;
+const FAILURE_LOG_RETENTION_DAYS = 30;
+
+function throttleKeys(username: string | null, ip: string | null) {
+  const keys: { scope: LoginThrottleScope; key: string; limit: number }[] = [];
+  if (username) {
+    keys.push({ scope: "username", key: normalizeLoginUsername(username), limit: loginLockoutPolicy.maxUserFailures });
+  }
+  if (ip) {
+    keys.push({ scope: "ip", key: ip, limit: loginLockoutPolicy.maxIpFailures });
+  }
+  return keys;
+}
+
+export function normalizeLoginUsername(username: string) {
+  return username.trim().toLowerCase().slice(0, 64);
+}
+
+/** Seconds until this username/IP pair may try again, or 0 when sign-in is allowed. */
+export function loginRetryAfter(username: string | null, ip: string | null, now = Date.now()) {
+  let waitMs = 0;
+  for (const { scope, key } of throttleKeys(username, ip)) {
+    const lockedUntil = getLoginThrottle(scope, key)?.locked_until;
+    if (lockedUntil) {
+      waitMs = Math.max(waitMs, new Date(lockedUntil).getTime() - now);
+    }
+  }
+  return Math.ceil(waitMs / 1000);
+}
+
+function nextThrottle(
+  existing: LoginThrottleRecord | null,
+  scope: LoginThrottleScope,
+  key: string,
+  limit: number,
+  now: number
+): LoginThrottleRecord {
+  const lastFailure = existing?.last_failure_at ? new Date(existing.last_failure_at).getTime() : 0;
+  const quietMs = now - lastFailure;
+  // Failures expire after one lockout period of quiet; the lockout level decays much more slowly.
+  let failures = quietMs > loginLockoutPolicy.lockoutMinutes * 60_000 ? 0 : existing?.failures ?? 0;
+  let lockouts = quietMs > loginLockoutPolicy.maxLockoutMinutes * 60_000 ? 0 : existing?.lockouts ?? 0;
+
+  failures += 1;
+  let lockMs: number;
+  if (failures >= limit) {
+    lockouts += 1;
+    failures = 0;
+    lockMs = Math.min(loginLockoutPolicy.lockoutMinutes * 2 ** (lockouts - 1), loginLockoutPolicy.maxLockoutMinutes) * 60_000;
+  } else {
+    lockMs = Math.min(2 ** (failures - 1), MAX_BACKOFF_SECONDS) * 1000;
+  }
+
+  return {
+    scope,
+    key,
+    failures,
+    lockouts,
+    last_failure_at: new Date(now).toISOString(),
+    locked_until: new Date(now + lockMs).toISOString()
+  };
+}
+
+/** Logs the failure and pushes back the next allowed attempt; returns the new wait in seconds. */
+export function registerLoginFailure(username: string | null, ip: string | null, reason: string, now = Date.now()) {
+  pruneLoginThrottles(
+    new Date(now - loginLockoutPolicy.maxLockoutMinutes * 60_000).toISOString(),
+    FAILURE_LOG_RETENTION_DAYS
+  );
+  recordLoginFailure({ username: username ? normalizeLoginUsername(username) : null, ip, reason });
+  for (const { scope, key, limit } of throttleKeys(username, ip)) {
+    saveLoginThrottle(nextThrottle(getLoginThrottle(scope, key), scope, key, limit, now));
+  }
+  return loginRetryAfter(username, ip, now);
+}
+
+/**
+ * Clears the username's failures only. The IP count keeps running, so signing in to one
+ * account can't reset the budget for guessing at others from the same address.
+ */
+export function registerLoginSuccess(username: string) {
+  clearLoginThrottle("username", normalizeLoginUsername(username));
+}
+
+export function describeRetryAfter(seconds: number) {
+  if (seconds < 60) return `${seconds} ${seconds === 1 ? "second" : "seconds"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
@@ -0,0 +1,98 @@
+import type { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+};
+
+export type MigrationStatus = {
+  current: number;
+  latest: number;
+  pending: Migration[];
+};
+
+function ensureMigrationsTable(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+function assertOrdered(migrations: Migration[]) {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration "${migration.name}" is numbered ${migration.version}; expected ${index + 1}`);
+    }
+  });
+}
+
+export function getMigrationStatus(db: Database, migrations: Migration[]): MigrationStatus {
+  ensureMigrationsTable(db);
+  const row = db.query("SELECT MAX(version) AS version FROM schema_migrations").get() as { version: number | null };
+  const current = row.version ?? 0;
+  return {
+    current,
+    latest: migrations.length,
+    pending: migrations.filter((migration) => migration.version > current)
+  };
+}
+
+function hasUserTables(db: Database) {
+  const row = db
+    .query("SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'")
+    .get() as { count: number };
+  return row.count > 0;
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction, after copying the
+ * database to `backupPath(currentVersion)`. Refuses to touch a database whose schema is
+ * newer than the migrations this build knows about.
+ */
+export function runMigrations(
+  db: Database,
+  migrations: Migration[],
+  {
+    backupPath,
+    log = console.log
+  }: { backupPath: (fromVersion: number) => string; log?: (message: string) => void }
+) {
+  assertOrdered(migrations);
+  const { current, latest, pending } = getMigrationStatus(db, migrations);
+
+  if (current > latest) {
+    throw new Error(
+      `Database schema is at version ${current} but this build only knows migrations up to ${latest}. ` +
+        "Upgrade the app, or restore a backup taken before the newer version ran."
+    );
+  }
+  if (pending.length === 0) {
+    return { from: current, to: current, backup: null };
+  }
+
+  // A brand-new database has nothing worth saving.
+  let backup: string | null = null;
+  if (hasUserTables(db)) {
+    backup = backupPath(current);
+    mkdirSync(dirname(backup), { recursive: true });
+    db.run("VACUUM INTO ?", [backup]);
+    log(`Backed up database (schema v${current}) to ${backup}`);
+  }
+
+  const record = db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)");
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    })();
+    log(`Applied migration ${String(migration.version).padStart(4, "0")} ${migration.name}`);
+  }
+
+  return { from: current, to: latest, backup };
+}
@@ -0,0 +1,232 @@
+// Normalizes pack and asset input the same way for the web forms, the REST API and the CLI.
+import type { PackStatus } from "./db";
+
+export function slugify(input: string) {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64) || `video-${Date.now()}`;
+}
+
+/** Slugs end up in URLs and bundle file names, so only lowercase letters, digits and single dashes are allowed. */
+export function isValidSlug(slug: string) {
+  return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug);
+}
+
+export function sanitizeFilename(input?: string | null) {
+  const fallback = `asset-${Date.now()}.txt`;
+  if (!input) return fallback;
+  const trimmed = input.replace(/[\r\n]+/g, " ").trim();
+  if (!trimmed) return fallback;
+  const withoutPath = trimmed.replace(/[\\/]/g, "-");
+  const withoutIllegal = withoutPath.replace(/[<>:"|?*]/g, "");
+  const collapsedWhitespace = withoutIllegal.replace(/\s{2,}/g, " ");
+  return collapsedWhitespace.slice(0, 180) || fallback;
+}
+
+export function resolveFilename(label: string, provided?: string | null) {
+  const base = provided && provided.trim().length > 0 ? provided : label;
+  const withExtension = base.includes(".") ? base : `${base}.txt`;
+  return sanitizeFilename(withExtension);
+}
+
+export function normalizeSnippetContent(input: string) {
+  return input.replace(/\r\n/g, "\n");
+}
+
+export function detectMimeTypeFromFilename(filename: string) {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  switch (ext) {
+    case "yml":
+    case "yaml":
+      return "text/yaml; charset=utf-8";
+    case "json":
+      return "application/json; charset=utf-8";
+    case "env":
+    case "txt":
+    case undefined:
+      return "text/plain; charset=utf-8";
+    case "sh":
+      return "text/x-shellscript; charset=utf-8";
+    case "ts":
+    case "tsx":
+      return "application/typescript; charset=utf-8";
+    case "js":
+    case "jsx":
+      return "application/javascript; charset=utf-8";
+    case "md":
+    case "mdx":
+      return "text/markdown; charset=utf-8";
+    case "conf":
+    case "ini":
+      return "text/plain; charset=utf-8";
+    default:
+      return "text/plain; charset=utf-8";
+  }
+}
+
+function detectBinaryMimeType(filename: string) {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  switch (ext) {
+    case "zip":
+      return "application/zip";
+    case "gz":
+    case "tgz":
+      return "application/gzip";
+    case "tar":
+      return "application/x-tar";
+    case "7z":
+      return "application/x-7z-compressed";
+    case "pdf":
+      return "application/pdf";
+    case "png":
+      return "image/png";
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    case "svg":
+      return "image/svg+xml";
+    default:
+      return null;
+  }
+}
+
+const TEXT_EXTENSIONS = new Set(["yml", "yaml", "json", "env", "txt", "sh", "ts", "tsx", "js", "jsx", "md", "mdx", "conf", "ini"]);
+
+/** Known extensions win over the browser-declared type, which is often missing or generic. */
+export function detectUploadMimeType(filename: string, declared?: string | null) {
+  const binaryType = detectBinaryMimeType(filename);
+  if (binaryType) return binaryType;
+  const ext = filename.includes(".") ? filename.split(".").pop()?.toLowerCase() : undefined;
+  if (ext && TEXT_EXTENSIONS.has(ext)) return detectMimeTypeFromFilename(filename);
+  return declared?.trim() || "application/octet-stream";
+}
+
+/** External asset links are opened by visitors, so anything but http(s) (`javascript:`, `file:`, `ftp:`) is refused. */
+export function isHttpUrl(input: string) {
+  try {
+    const { protocol } = new URL(input.trim());
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function extractYouTubeVideoId(input?: string | null) {
+  if (!input) return null;
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(trimmed);
+    const host = url.hostname.toLowerCase();
+
+    if (host === "youtu.be") {
+      const candidate = url.pathname.split("/").filter(Boolean)[0];
+      if (candidate && candidate.length === 11) return candidate;
+    }
+
+    if (host.endsWith("youtube.com")) {
+      const watchId = url.searchParams.get("v");
+      if (watchId && watchId.length === 11) return watchId;
+
+      const parts = url.pathname.split("/").filter(Boolean);
+      if (parts.length >= 2 && ["shorts", "embed", "live"].includes(parts[0]) && parts[1].length === 11) {
+        return parts[1];
+      }
+    }
+  } catch {
+    // fall through to regex parsing
+  }
+
+  const fallbackMatch = trimmed.match(/(?:v=|\/)([0-9A-Za-z_-]{11})/);
+  return fallbackMatch ? fallbackMatch[1] : null;
+}
+
+function youtubeThumbnailUrl(videoId: string) {
+  return `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
+}
+
+/** YouTube videos get their poster frame as a thumbnail unless one is provided. */
+export function defaultThumbnailUrl(videoUrl?: string | null) {
+  const videoId = extractYouTubeVideoId(videoUrl);
+  return videoId ? youtubeThumbnailUrl(videoId) : undefined;
+}
+
+type Publication = { status: PackStatus; publish_at: string | null };
+
+/** SQLite's CURRENT_TIMESTAMP is UTC without a zone marker; ISO strings with one are read as-is. */
+export function parseDbTimestamp(value: string) {
+  return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(value) ? value : `${value.replace(" ", "T")}Z`).getTime();
+}
+
+export function formatDbTimestamp(timestamp: number) {
+  return new Date(timestamp).toISOString().slice(0, 19).replace("T", " ");
+}
+
+/** Accepts ISO 8601 timestamps; values without a zone (such as datetime-local inputs) are read as UTC. */
+export function parsePublishAt(input: string) {
+  const trimmed = input.trim();
+  if (!/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?([zZ]|[+-]\d\d:\d\d)?$/.test(trimmed)) {
+    return null;
+  }
+  const hasZone = /([zZ]|[+-]\d\d:\d\d)$/.test(trimmed);
+  const withTime = trimmed.length === 10 ? `${trimmed}T00:00` : trimmed.replace(" ", "T");
+  const timestamp = Date.parse(hasZone ? withTime : `${withTime}Z`);
+  return Number.isNaN(timestamp) ? null : formatDbTimestamp(timestamp);
+}
+
+/**
+ * Works out what to store for a status change. `publishAt` is undefined to keep the current
+ * time and empty to clear it. Publishing stamps the current time unless an earlier one is
+ * given, so feeds can date the pack; scheduling needs an explicit time.
+ */
+export function resolvePublication(
+  status: PackStatus,
+  publishAt: string | null | undefined,
+  existing?: Publication | null,
+  now = Date.now()
+): Publication | { error: string } {
+  let publish_at = existing?.publish_at ?? null;
+  if (publishAt !== undefined) {
+    publish_at = publishAt?.trim() ? parsePublishAt(publishAt) : null;
+    if (publishAt?.trim() && !publish_at) {
+      return { error: "Publish time must be a date and time such as 2026-11-01T17:00:00Z" };
+    }
+  }
+  if (status === "scheduled" && !publish_at) {
+    return { error: "Scheduled packs need a publish time" };
+  }
+  if (status === "published" && (!publish_at || parseDbTimestamp(publish_at) > now)) {
+    publish_at = formatDbTimestamp(now);
+  }
+  return { status, publish_at };
+}
+
+/** Scheduled packs go live on their own once publish_at passes; the stored status is left as is. */
+export function effectivePackStatus(pack: Publication, now = Date.now()): PackStatus {
+  if (pack.status === "scheduled" && pack.publish_at && parseDbTimestamp(pack.publish_at) <= now) {
+    return "published";
+  }
+  return pack.status;
+}
+
+/** Shown on the home page, tag pages, search, feeds, the sitemap and /api/videos. */
+export function isPackListed(pack: Publication, now = Date.now()) {
+  return effectivePackStatus(pack, now) === "published";
+}
+
+/** Archived packs drop out of listings, but their pages and downloads keep working for old links. */
+export function isPackViewable(pack: Publication, now = Date.now()) {
+  const status = effectivePackStatus(pack, now);
+  return status === "published" || status === "archived";
+}
+
+export function packPublishedAt(pack: Publication & { created_at: string }) {
+  return parseDbTimestamp(pack.publish_at ?? pack.created_at);
+}
@@ -1,164 +1,343 @@
 import {
+  consumeRecoveryCode,
+  countActiveOwners,
+  countUnusedRecoveryCodes,
+  clearLoginThrottle,
+  createAdminUser,
+  createApiToken,
   createAsset,
+  createLoginChallenge,
   createSession,
   createVideo,
+  createWebhook,
   db,
-  deleteAdminUser,
+  deleteApiToken,
   deleteAsset,
+  deleteLoginChallenge,
+  deleteOtherSessions,
   deleteSession,
+  deleteSessionsForUser,
+  deleteTag,
   deleteVideo,
+  deleteWebhook,
+  disableTotp,
+  enableTotp,
   ensureAdminUser,
+  findApiTokenByHash,
+  findLoginChallenge,
   findSession,
   getAdminUser,
+  getApiTokenById,
   getAssetById,
+  getAssetRevision,
+  getDownloadStats,
+  getSetting,
+  getTagById,
+  getTagByName,
+  getVideoById,
+  getVideoBySlug,
+  getWebhookById,
   listAdminUsers,
+  listApiTokens,
+  listAssetRevisions,
+  listActiveSessions,
+  listLoginThrottles,
+  listRecentLoginFailures,
+  listTagsWithCounts,
   listVideosWithAssets,
+  listWebhookDeliveries,
+  listWebhooks,
+  markTotpCounterUsed,
+  migrateDatabase,
+  moveAsset,
+  PACK_STATUSES,
+  ensureSearchIndex,
+  mergeTags,
+  parseTagInput,
+  recordAssetDownload,
+  recordLoginChallengeFailure,
+  redeliverWebhookDelivery,
+  replaceRecoveryCodes,
   pruneSessions,
+  SEARCH_MATCH_END,
+  SEARCH_MATCH_START,
+  searchVideos,
+  renameTag,
+  reorderAssets,
+  rollbackAssetContent,
   seedIfEmpty,
+  type AdminRole,
+  type AdminUserRecord,
+  type ApiTokenRecord,
+  type AssetRecord,
+  type LoginFailureRecord,
+  type LoginThrottleRecord,
+  type PackStatus,
+  type SessionRecord,
+  type AssetRevisionRecord,
+  type AssetUpdate,
+  type DownloadStats,
+  type SearchHit,
+  type TagWithCount,
+  type VideoWithAssets,
+  type WebhookDeliveryRecord,
+  type WebhookDeliveryStatus,
+  type WebhookRecord,
+  setAdminDisabled,
+  setPendingTotpSecret,
+  setSessionCsrfToken,
+  setSetting,
+  setVideoPublication,
+  setWebhookActive,
+  touchApiToken,
+  touchSession,
   updateAdminPassword,
+  updateAdminRole,
+  updateAsset,
+  updateAssetContent,
   updateVideo
 } from "./db";
+import { buildHubArchive, importHubArchive, type ImportChange, type ImportReport } from "./archive";
 import { adminDefaults, branding, formatBrandingText } from "./config";
+import { composeValidationError, imageMatches, readComposeSummary, type ComposeSummary } from "./compose";
+import { diffLines, type DiffLine, type DiffRow } from "./diff";
+import { buildPackArchive, getPackBundle, hasBundleableAssets, packBundleUrl, removePackBundles } from "./bundles";
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  FEED_CONTENT_TYPES,
+  feedEtag,
+  feedLastModified,
+  isNotModified,
+  type FeedDocument,
+  type FeedItem
+} from "./feeds";
+import { detectHighlightLanguage, highlightLanguageName, highlightLines } from "./highlight";
+import { escapeHtml } from "./html";
+import { storeUpload, uploadPath } from "./storage";
+import {
+  findTemplateVariables,
+  generateSecret,
+  hasTemplateVariables,
+  isGeneratedSecret,
+  renderTemplate,
+  resolveTemplateValues,
+  timeZoneNames,
+  type TemplateVariable
+} from "./templates";
+import { renderQrSvg } from "./qr";
+import {
+  defaultThumbnailUrl,
+  detectMimeTypeFromFilename,
+  detectUploadMimeType,
+  effectivePackStatus,
+  extractYouTubeVideoId,
+  formatDbTimestamp,
+  isHttpUrl,
+  isPackListed,
+  isPackViewable,
+  isValidSlug,
+  normalizeSnippetContent,
+  packPublishedAt,
+  parseDbTimestamp,
+  resolveFilename,
+  resolvePublication,
+  sanitizeFilename,
+  slugify
+} from "./packs";
+import { parseUserAgent } from "./useragent";
+import {
+  describeRetryAfter,
+  loginLockoutPolicy,
+  loginRetryAfter,
+  registerLoginFailure,
+  registerLoginSuccess
+} from "./lockout";
+import {
+  generateWebhookSecret,
+  queueWebhookEvent,
+  startWebhookWorker,
+  webhookPolicy,
+  WEBHOOK_EVENTS,
+  type WebhookEvent
+} from "./webhooks";
+import { checkExternalLinks, isLinkBroken, isLinkUnavailable, linkCheckPolicy, startLinkChecker } from "./linkcheck";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpUri,
+  verifyTotp
+} from "./totp";
+import {
+  ADMIN_ROLES,
+  apiTokenDisplayPrefix,
+  can,
+  derivePasswordHash,
+  generateApiToken,
+  generateCsrfToken,
+  generateTemporaryPassword,
+  hashApiToken,
+  isAdminRole,
+  passwordsMatch,
+  ROLE_DESCRIPTIONS,
+  SESSION_IDLE_MINUTES,
+  sessionHandle,
+  sessionIdleSince,
+  tokensMatch,
+  type Permission
+} from "./auth";
 import { Buffer } from "node:buffer";
-import { pbkdf2Sync, randomBytes, timingSafeEqual } from "node:crypto";
 
 const HOST = Bun.env.HOST ?? "0.0.0.0";
 const PORT = Number(Bun.env.PORT ?? 3000);
 const ADMIN_USERNAME = adminDefaults.defaultUsername;
 const DEFAULT_ADMIN_PASSWORD = adminDefaults.defaultPassword;
 const SESSION_COOKIE = "sid";
+const CSRF_FIELD = "_csrf";
+const CSRF_HEADER = "x-csrf-token";
 const SESSION_TTL_DAYS = Number(Bun.env.SESSION_TTL_DAYS ?? 7);
 const SESSION_MAX_AGE = SESSION_TTL_DAYS * 24 * 60 * 60; // seconds
-const PASSWORD_KEYLEN = 64;
-const PASSWORD_ITERATIONS = 120_000;
-const PASSWORD_DIGEST = "sha512";
+// Writing last-seen on every request is wasteful; a minute of precision is plenty.
+const SESSION_TOUCH_INTERVAL_MS = 60_000;
+const LOGIN_CHALLENGE_COOKIE = "mfa";
+const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_LOGIN_CHALLENGE_ATTEMPTS = 5;
+const TWO_FACTOR_SETUP_PATH = "/admin/password/2fa";
+const REQUIRE_TWO_FACTOR_SETTING = "require_two_factor";
 const MIN_PASSWORD_LENGTH = Number(Bun.env.MIN_PASSWORD_LENGTH ?? 12);
+const MAX_UPLOAD_MB = Number(Bun.env.MAX_UPLOAD_MB ?? 50);
+const MAX_UPLOAD_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
+const TRUSTED_PROXY_HOPS = Number(Bun.env.TRUSTED_PROXY_HOPS ?? 0);
+const PUBLIC_BASE_URL = Bun.env.PUBLIC_BASE_URL?.trim().replace(/\/+$/, "") || null;
+
+try {
+  migrateDatabase();
+} catch (error) {
+  console.error("Database migration failed", error);
+  process.exit(1);
+}
 
 ensureProductionConfig();
 
 seedIfEmpty();
+ensureSearchIndex();
 initializeAdminUser();
 
-function escapeHtml(value: string) {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-}
-
-function slugify(input: string) {
-  return input
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-+|-+$/g, "")
-    .slice(0, 64) || `video-${Date.now()}`;
+function highlightMatches(value: string) {
+  return escapeHtml(value)
+    .split(SEARCH_MATCH_START)
+    .join("<mark>")
+    .split(SEARCH_MATCH_END)
+    .join("</mark>");
 }
 
 function tagsToString(tags: string[]) {
   return tags.join(", ");
 }
 
-function parseTags(input: FormDataEntryValue | null): string[] {
-  if (!input) return [];
-  return input
-    .toString()
-    .split(",")
-    .map((tag) => tag.trim())
-    .filter(Boolean);
-}
-
-function sanitizeFilename(input?: string | null) {
-  const fallback = `asset-${Date.now()}.txt`;
-  if (!input) return fallback;
-  const trimmed = input.replace(/[\r\n]+/g, " ").trim();
-  if (!trimmed) return fallback;
-  const withoutPath = trimmed.replace(/[\\/]/g, "-");
-  const withoutIllegal = withoutPath.replace(/[<>:"|?*]/g, "");
-  const collapsedWhitespace = withoutIllegal.replace(/\s{2,}/g, " ");
-  return collapsedWhitespace.slice(0, 180) || fallback;
-}
-
-function resolveFilename(label: string, provided?: string | null) {
-  const base = provided && provided.trim().length > 0 ? provided : label;
-  const withExtension = base.includes(".") ? base : `${base}.txt`;
-  return sanitizeFilename(withExtension);
-}
-
-function normalizeSnippetContent(input: string) {
-  return input.replace(/\r\n/g, "\n");
-}
-
-function detectMimeTypeFromFilename(filename: string) {
-  const ext = filename.split(".").pop()?.toLowerCase();
-  switch (ext) {
-    case "yml":
-    case "yaml":
-      return "text/yaml; charset=utf-8";
-    case "json":
-      return "application/json; charset=utf-8";
-    case "env":
-    case "txt":
-    case undefined:
-      return "text/plain; charset=utf-8";
-    case "sh":
-      return "text/x-shellscript; charset=utf-8";
-    case "ts":
-    case "tsx":
-      return "application/typescript; charset=utf-8";
-    case "js":
-    case "jsx":
-      return "application/javascript; charset=utf-8";
-    case "md":
-    case "mdx":
-      return "text/markdown; charset=utf-8";
-    case "conf":
-    case "ini":
-      return "text/plain; charset=utf-8";
-    default:
-      return "text/plain; charset=utf-8";
-  }
-}
-
 function contentDispositionFilename(filename: string) {
   const safe = filename.replace(/"/g, "'");
   return `attachment; filename="${safe}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
 }
 
-function extractYouTubeVideoId(input?: string | null) {
-  if (!input) return null;
-  const trimmed = input.trim();
-  if (!trimmed) return null;
+function youtubeEmbedUrl(videoId: string) {
+  return `https://www.youtube-nocookie.com/embed/${videoId}`;
+}
+
+function videoPageUrl(slug: string) {
+  return `/videos/${encodeURIComponent(slug)}`;
+}
 
-  try {
-    const url = new URL(trimmed);
-    const host = url.hostname.toLowerCase();
+function tagPageUrl(tag: string) {
+  return `/tags/${encodeURIComponent(tag)}`;
+}
 
-    if (host === "youtu.be") {
-      const candidate = url.pathname.split("/").filter(Boolean)[0];
-      if (candidate && candidate.length === 11) return candidate;
-    }
+type FeedLink = { title: string; href: string; type: string };
 
-    if (host.endsWith("youtube.com")) {
-      const watchId = url.searchParams.get("v");
-      if (watchId && watchId.length === 11) return watchId;
+/** Share and search metadata for public pages; every URL must already be absolute. */
+type PageSeo = {
+  title?: string;
+  canonicalUrl?: string;
+  imageUrl?: string | null;
+  type?: "website" | "video.other";
+  jsonLd?: Record<string, unknown>;
+  noindex?: boolean;
+};
 
-      const parts = url.pathname.split("/").filter(Boolean);
-      if (parts.length >= 2 && ["shorts", "embed", "live"].includes(parts[0]) && parts[1].length === 11) {
-        return parts[1];
-      }
-    }
-  } catch {
-    // fall through to regex parsing
-  }
+/** `</script>` inside a string would end the script element early, so `<` is always escaped. */
+function serializeJsonLd(data: Record<string, unknown>) {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+function siteFeedLinks(): FeedLink[] {
+  return [
+    { title: `${branding.siteName} (RSS)`, href: "/feed.xml", type: "application/rss+xml" },
+    { title: `${branding.siteName} (Atom)`, href: "/atom.xml", type: "application/atom+xml" },
+    { title: `${branding.siteName} (JSON Feed)`, href: "/feed.json", type: "application/feed+json" }
+  ];
+}
+
+function tagFeedUrl(tag: string) {
+  return `${tagPageUrl(tag)}/feed.xml`;
+}
+
+/** Inline snippets and uploaded files are served by the hub itself from /downloads/assets/:id. */
+function isHostedAsset(asset: AssetRecord) {
+  return Boolean(asset.content || asset.storage_key);
+}
+
+/** External links go through /go/assets/:id so clicks are counted before redirecting. */
+function publicAssetUrl(asset: AssetRecord) {
+  return isHostedAsset(asset) ? asset.url : `/go/assets/${asset.id}`;
+}
+
+/** Only inline snippets can be previewed; uploads may be binary and external links aren't ours to fetch. */
+function hasAssetPreview(asset: AssetRecord) {
+  return asset.content !== null;
+}
+
+function assetPreviewUrl(assetId: number) {
+  return `/downloads/assets/${assetId}/preview`;
+}
+
+function assetRawUrl(assetId: number) {
+  return `/downloads/assets/${assetId}/raw`;
+}
+
+/** Links on a preview of an unreleased pack carry its token, so they open for the same people the page does. */
+function withPreviewToken(path: string, previewToken: string | null) {
+  return previewToken ? `${path}?preview=${encodeURIComponent(previewToken)}` : path;
+}
 
-  const fallbackMatch = trimmed.match(/(?:v=|\/)([0-9A-Za-z_-]{11})/);
-  return fallbackMatch ? fallbackMatch[1] : null;
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
 }
 
-function youtubeThumbnailUrl(videoId: string) {
-  return `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
+function describeAsset(asset: AssetRecord) {
+  if (asset.storage_key) {
+    return {
+      type: asset.mime_type ?? "application/octet-stream",
+      size: asset.size_bytes !== null ? formatBytes(asset.size_bytes) : null
+    };
+  }
+  if (asset.content) {
+    const filename = asset.filename ?? `asset-${asset.id}.txt`;
+    return {
+      type: detectMimeTypeFromFilename(filename).split(";")[0],
+      size: formatBytes(Buffer.byteLength(asset.content, "utf-8"))
+    };
+  }
+  return { type: "External link", size: null };
 }
 
 function parseCookies(request: Request): Record<string, string> {
@@ -172,33 +351,10 @@ function parseCookies(request: Request): Record<string, string> {
   }, {});
 }
 
-function derivePasswordHash(password: string, salt?: string) {
-  const actualSalt = salt ?? randomBytes(16).toString("hex");
-  const hash = pbkdf2Sync(password, actualSalt, PASSWORD_ITERATIONS, PASSWORD_KEYLEN, PASSWORD_DIGEST).toString("hex");
-  return { hash, salt: actualSalt };
-}
-
-function passwordsMatch(password: string, hash: string, salt: string) {
-  try {
-    const candidate = pbkdf2Sync(password, salt, PASSWORD_ITERATIONS, PASSWORD_KEYLEN, PASSWORD_DIGEST).toString("hex");
-    const candidateBuffer = Buffer.from(candidate, "hex");
-    const storedBuffer = Buffer.from(hash, "hex");
-    if (candidateBuffer.length !== storedBuffer.length) {
-      return false;
-    }
-    return timingSafeEqual(candidateBuffer, storedBuffer);
-  } catch (error) {
-    console.error("Failed to verify password", error);
-    return false;
-  }
-}
-
-function redirect(location: string, cookie?: string) {
-  const headers: HeadersInit = {
-    Location: location
-  };
-  if (cookie) {
-    headers["Set-Cookie"] = cookie;
+function redirect(location: string, cookie?: string | string[]) {
+  const headers = new Headers({ Location: location });
+  for (const value of typeof cookie === "string" ? [cookie] : cookie ?? []) {
+    headers.append("Set-Cookie", value);
   }
   return new Response(null, { status: 302, headers });
 }
@@ -226,12 +382,61 @@ function isSecureRequest(request: Request) {
   return isProduction();
 }
 
+/** The host the client asked for, trusting X-Forwarded-Host only behind a configured proxy. */
+function requestHost(request: Request) {
+  const forwardedHost = TRUSTED_PROXY_HOPS > 0 ? request.headers.get("x-forwarded-host")?.split(",")[0]?.trim() : null;
+  return (forwardedHost || request.headers.get("host") || new URL(request.url).host).toLowerCase();
+}
+
+function requestOrigin(request: Request) {
+  return `${isSecureRequest(request) ? "https" : "http"}://${requestHost(request)}`;
+}
+
+function isValidPublicBaseUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return (url.protocol === "https:" || url.protocol === "http:") && url.pathname === "/" && !url.search && !url.hash;
+  } catch {
+    return false;
+  }
+}
+
+/** Where absolute links (canonical URLs, sitemap, feeds) point: PUBLIC_BASE_URL, or the origin the client used. */
+function publicBaseUrl(request: Request) {
+  return PUBLIC_BASE_URL ?? requestOrigin(request);
+}
+
+function absoluteUrl(path: string, baseUrl: string) {
+  return new URL(path, baseUrl).toString();
+}
+
+/**
+ * The caller's address. Each trusted proxy appends the address it saw to X-Forwarded-For,
+ * so the entry TRUSTED_PROXY_HOPS from the right is the client; anything further left is
+ * whatever the client claimed and can't be trusted.
+ */
+function clientIp(request: Request): string | null {
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    if (forwarded.length > 0) {
+      return forwarded[Math.max(forwarded.length - TRUSTED_PROXY_HOPS, 0)];
+    }
+    const realIp = request.headers.get("x-real-ip")?.trim();
+    if (realIp) return realIp;
+  }
+  return server.requestIP(request)?.address ?? null;
+}
+
 function isUsingDefaultCredentials() {
   const admin = getAdminUser(ADMIN_USERNAME);
   if (!admin) {
-    return true;
+    // The default account is only created on an install with no admin users.
+    return listAdminUsers().length === 0;
   }
-  return passwordsMatch(DEFAULT_ADMIN_PASSWORD, admin.password_hash, admin.salt);
+  return !admin.disabled && passwordsMatch(DEFAULT_ADMIN_PASSWORD, admin.password_hash, admin.salt);
 }
 
 function ensureProductionConfig() {
@@ -245,11 +450,44 @@ function ensureProductionConfig() {
     process.exit(1);
   }
 
+  if (Number.isNaN(SESSION_IDLE_MINUTES) || SESSION_IDLE_MINUTES <= 0) {
+    console.error("SESSION_IDLE_MINUTES must be a positive number.");
+    process.exit(1);
+  }
+
   if (Number.isNaN(MIN_PASSWORD_LENGTH) || MIN_PASSWORD_LENGTH < 8) {
     console.error("MIN_PASSWORD_LENGTH must be at least 8 characters.");
     process.exit(1);
   }
 
+  if (Number.isNaN(MAX_UPLOAD_MB) || MAX_UPLOAD_MB <= 0) {
+    console.error("MAX_UPLOAD_MB must be a positive number.");
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(TRUSTED_PROXY_HOPS) || TRUSTED_PROXY_HOPS < 0) {
+    console.error("TRUSTED_PROXY_HOPS must be 0 or a positive integer.");
+    process.exit(1);
+  }
+
+  const { maxUserFailures, maxIpFailures, lockoutMinutes, maxLockoutMinutes } = loginLockoutPolicy;
+  if (![maxUserFailures, maxIpFailures].every((value) => Number.isInteger(value) && value > 0)) {
+    console.error("LOGIN_MAX_FAILURES and LOGIN_MAX_IP_FAILURES must be positive integers.");
+    process.exit(1);
+  }
+  if (!(lockoutMinutes > 0) || !(maxLockoutMinutes >= lockoutMinutes)) {
+    console.error("LOGIN_LOCKOUT_MINUTES must be positive and no larger than LOGIN_MAX_LOCKOUT_MINUTES.");
+    process.exit(1);
+  }
+
+  if (PUBLIC_BASE_URL && !isValidPublicBaseUrl(PUBLIC_BASE_URL)) {
+    console.error("PUBLIC_BASE_URL must be an http(s) origin such as https://hub.example.com, without a path.");
+    process.exit(1);
+  }
+  if (!PUBLIC_BASE_URL && isProduction()) {
+    console.warn("⚠️  PUBLIC_BASE_URL is not set; canonical, sitemap and feed links will use the Host header of each request.");
+  }
+
   if (isUsingDefaultCredentials()) {
     console.warn(
       `⚠️  Using default admin credentials (${ADMIN_USERNAME}/${DEFAULT_ADMIN_PASSWORD}). You will be required to change your password on first login.`
@@ -267,19 +505,19 @@ function clearAuthCookie(request: Request) {
   return `${SESSION_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax${secure}`;
 }
 
-function initializeAdminUser() {
-  // Clean up any admin users with different usernames (legacy env-based installs)
-  const allAdmins = listAdminUsers();
-  for (const oldAdmin of allAdmins) {
-    if (oldAdmin.username !== ADMIN_USERNAME) {
-      console.log(`Removing stale admin user "${oldAdmin.username}" (resetting to default "${ADMIN_USERNAME}")`);
-      deleteAdminUser(oldAdmin.username);
-    }
-  }
+function loginChallengeCookie(challengeId: string, maxAgeSeconds: number, request: Request) {
+  const secure = isSecureRequest(request) ? "; Secure" : "";
+  return `${LOGIN_CHALLENGE_COOKIE}=${challengeId}; HttpOnly; Path=/admin/login; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
 
+function initializeAdminUser() {
   const admin = getAdminUser(ADMIN_USERNAME);
 
   if (!admin) {
+    if (listAdminUsers().length > 0) {
+      // Only bootstrap the default owner on an empty install; existing accounts are managed in /admin/users.
+      return;
+    }
     const { hash, salt } = derivePasswordHash(DEFAULT_ADMIN_PASSWORD);
     console.log(`Creating admin user "${ADMIN_USERNAME}" with default credentials`);
     ensureAdminUser(ADMIN_USERNAME, hash, salt, true);
@@ -294,17 +532,59 @@ function initializeAdminUser() {
   }
 }
 
-function adminMustChangePassword() {
-  const admin = getAdminUser(ADMIN_USERNAME);
-  return Boolean(admin?.must_change_password);
-}
+/** The account behind a request's session, plus the session details admin pages need. */
+type SignedInUser = AdminUserRecord & { session_id: string; csrf_token: string };
 
-function isAuthenticated(request: Request) {
+function getCurrentUser(request: Request): SignedInUser | null {
   const cookies = parseCookies(request);
   const sessionId = cookies[SESSION_COOKIE];
-  if (!sessionId) return false;
+  if (!sessionId) return null;
   const session = findSessionSafe(sessionId);
-  return Boolean(session);
+  if (!session) return null;
+
+  const lastSeen = parseDbTimestamp(session.last_seen_at ?? session.created_at);
+  const now = Date.now();
+  if (now - lastSeen > SESSION_IDLE_MINUTES * 60_000) {
+    deleteSession(session.id);
+    return null;
+  }
+  if (now - lastSeen > SESSION_TOUCH_INTERVAL_MS) {
+    touchSession(session.id, new Date(now).toISOString());
+  }
+
+  // Sessions created before multi-user support belong to the original admin account.
+  const user = getAdminUser(session.username ?? ADMIN_USERNAME);
+  if (!user || user.disabled) return null;
+  const csrfToken = session.csrf_token ?? generateCsrfToken();
+  if (!session.csrf_token) {
+    setSessionCsrfToken(session.id, csrfToken);
+  }
+  return { ...user, session_id: session.id, csrf_token: csrfToken };
+}
+
+function timeAgo(timestamp: number, now = Date.now()) {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return "just now";
+  const units: [number, string][] = [
+    [60 * 60 * 24, "day"],
+    [60 * 60, "hour"],
+    [60, "minute"]
+  ];
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size);
+      return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+    }
+  }
+  return "just now";
+}
+
+function isTwoFactorRequired() {
+  return getSetting(REQUIRE_TWO_FACTOR_SETTING) === "1";
+}
+
+function needsTwoFactorSetup(user: AdminUserRecord) {
+  return isTwoFactorRequired() && !user.totp_enabled;
 }
 
 function findSessionSafe(id: string) {
@@ -325,28 +605,114 @@ async function handleLogin(request: Request) {
     return redirect("/admin?error=Missing+credentials");
   }
 
-  if (username !== ADMIN_USERNAME) {
-    await Bun.sleep(150);
-    return redirect("/admin?error=Invalid+credentials");
+  const ip = clientIp(request);
+  const retryAfter = loginRetryAfter(username, ip);
+  if (retryAfter > 0) {
+    return tooManyLoginAttempts(retryAfter);
   }
 
-  const admin = getAdminUser(ADMIN_USERNAME);
-  if (!admin || !passwordsMatch(password, admin.password_hash, admin.salt)) {
+  const admin = getAdminUser(username.toLowerCase());
+  if (!admin || admin.disabled || !passwordsMatch(password, admin.password_hash, admin.salt)) {
+    const reason = !admin ? "unknown_user" : admin.disabled ? "disabled" : "password";
+    registerLoginFailure(username, ip, reason);
     await Bun.sleep(150);
     return redirect("/admin?error=Invalid+credentials");
   }
 
+  if (admin.totp_enabled) {
+    // Password was right, but no session exists until the second factor checks out.
+    const challengeId = crypto.randomUUID();
+    createLoginChallenge({
+      id: challengeId,
+      username: admin.username,
+      expiresAt: new Date(Date.now() + LOGIN_CHALLENGE_TTL_SECONDS * 1000).toISOString()
+    });
+    return redirect("/admin/login/2fa", loginChallengeCookie(challengeId, LOGIN_CHALLENGE_TTL_SECONDS, request));
+  }
+
+  return startSession(request, admin);
+}
+
+function tooManyLoginAttempts(retryAfterSeconds: number) {
+  return redirect(
+    `/admin?error=${encodeURIComponent(`Too many failed sign-ins. Try again in ${describeRetryAfter(retryAfterSeconds)}.`)}`
+  );
+}
+
+function startSession(request: Request, admin: AdminUserRecord, extraCookies: string[] = []) {
+  const ip = clientIp(request);
+  registerLoginSuccess(admin.username);
   const sessionId = crypto.randomUUID();
   const expiresAt = new Date(Date.now() + SESSION_MAX_AGE * 1000).toISOString();
   createSession({
     id: sessionId,
+    username: admin.username,
+    csrfToken: generateCsrfToken(),
     expiresAt,
-    ip: request.headers.get("x-forwarded-for") ?? undefined,
+    ip: ip ?? undefined,
     userAgent: request.headers.get("user-agent") ?? undefined
   });
 
-  const destination = admin.must_change_password ? "/admin/password" : "/admin";
-  return redirect(destination, authCookie(sessionId, SESSION_MAX_AGE, request));
+  const destination = admin.must_change_password
+    ? "/admin/password"
+    : needsTwoFactorSetup(admin)
+      ? TWO_FACTOR_SETUP_PATH
+      : "/admin";
+  return redirect(destination, [authCookie(sessionId, SESSION_MAX_AGE, request), ...extraCookies]);
+}
+
+function findLoginChallengeFor(request: Request) {
+  const challengeId = parseCookies(request)[LOGIN_CHALLENGE_COOKIE];
+  if (!challengeId) return null;
+  const challenge = findLoginChallenge(challengeId);
+  if (!challenge) return null;
+  const admin = getAdminUser(challenge.username);
+  if (!admin || admin.disabled || !admin.totp_enabled || !admin.totp_secret) {
+    deleteLoginChallenge(challenge.id);
+    return null;
+  }
+  return { challenge, admin };
+}
+
+function serveLoginChallenge(request: Request, url: URL) {
+  if (!findLoginChallengeFor(request)) {
+    return redirect("/admin?error=Sign-in+expired.+Please+try+again");
+  }
+  const html = renderLoginChallenge(url.searchParams.get("error") ?? undefined);
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleLoginChallenge(request: Request) {
+  const form = await request.formData();
+  const code = form.get("code")?.toString().trim() ?? "";
+  const pending = findLoginChallengeFor(request);
+  if (!pending) {
+    return redirect("/admin?error=Sign-in+expired.+Please+try+again");
+  }
+  const { challenge, admin } = pending;
+  const ip = clientIp(request);
+  const retryAfter = loginRetryAfter(admin.username, ip);
+  if (retryAfter > 0) {
+    return tooManyLoginAttempts(retryAfter);
+  }
+
+  const counter = verifyTotp(admin.totp_secret as string, code, { lastUsedCounter: admin.totp_last_counter });
+  const verified = counter !== null || (code.length > 6 && consumeRecoveryCode(admin.username, hashRecoveryCode(code)));
+  if (!verified) {
+    registerLoginFailure(admin.username, ip, "totp");
+    await Bun.sleep(150);
+    if (recordLoginChallengeFailure(challenge.id) >= MAX_LOGIN_CHALLENGE_ATTEMPTS) {
+      deleteLoginChallenge(challenge.id);
+      return redirect("/admin?error=Too+many+incorrect+codes.+Please+sign+in+again");
+    }
+    return redirect("/admin/login/2fa?error=Invalid+code");
+  }
+
+  if (counter !== null) {
+    markTotpCounterUsed(admin.username, counter);
+  }
+  deleteLoginChallenge(challenge.id);
+  return startSession(request, admin, [loginChallengeCookie("", 0, request)]);
 }
 
 async function handleLogout(request: Request) {
@@ -362,16 +728,32 @@ function renderLayout({
   title,
   body,
   description,
-  includeAdminNav
+  includeAdminNav,
+  currentUser,
+  feeds = [],
+  seo = {}
 }: {
   title?: string;
   body: string;
   description?: string;
   includeAdminNav?: boolean;
+  currentUser?: SignedInUser;
+  feeds?: FeedLink[];
+  seo?: PageSeo;
 }) {
   const resolvedTitle = title ?? branding.siteName;
   const resolvedDescription = description ?? branding.metaDescription;
+  const shareTitle = seo.title ?? resolvedTitle;
   const navLabel = branding.admin.navLabel || branding.siteName;
+  const csrfToken = currentUser?.csrf_token;
+  // Every POST form on a signed-in page carries the session's CSRF token; scripts read it from the meta tag.
+  const withCsrf = (html: string) =>
+    csrfToken
+      ? html.replace(
+          /<form\b[^>]*\bmethod="post"[^>]*>/g,
+          (tag) => `${tag}<input type="hidden" name="${CSRF_FIELD}" value="${escapeHtml(csrfToken)}" />`
+        )
+      : html;
 
   return `<!doctype html>
 <html lang="en">
@@ -380,6 +762,23 @@ function renderLayout({
   <meta name="viewport" content="width=device-width, initial-scale=1" />
   <title>${escapeHtml(resolvedTitle)}</title>
   <meta name="description" content="${escapeHtml(resolvedDescription)}" />
+  ${includeAdminNav || currentUser || seo.noindex ? '<meta name="robots" content="noindex" />' : ""}
+  ${seo.canonicalUrl ? `<link rel="canonical" href="${escapeHtml(seo.canonicalUrl)}" />` : ""}
+  <meta property="og:site_name" content="${escapeHtml(branding.siteName)}" />
+  <meta property="og:type" content="${seo.type ?? "website"}" />
+  <meta property="og:title" content="${escapeHtml(shareTitle)}" />
+  <meta property="og:description" content="${escapeHtml(resolvedDescription)}" />
+  ${seo.canonicalUrl ? `<meta property="og:url" content="${escapeHtml(seo.canonicalUrl)}" />` : ""}
+  ${seo.imageUrl ? `<meta property="og:image" content="${escapeHtml(seo.imageUrl)}" />` : ""}
+  <meta name="twitter:card" content="${seo.imageUrl ? "summary_large_image" : "summary"}" />
+  <meta name="twitter:title" content="${escapeHtml(shareTitle)}" />
+  <meta name="twitter:description" content="${escapeHtml(resolvedDescription)}" />
+  ${seo.imageUrl ? `<meta name="twitter:image" content="${escapeHtml(seo.imageUrl)}" />` : ""}
+  ${seo.jsonLd ? `<script type="application/ld+json">${serializeJsonLd(seo.jsonLd)}</script>` : ""}
+  ${csrfToken ? `<meta name="csrf-token" content="${escapeHtml(csrfToken)}" />` : ""}
+  ${feeds
+    .map((feed) => `<link rel="alternate" type="${feed.type}" title="${escapeHtml(feed.title)}" href="${escapeHtml(feed.href)}" />`)
+    .join("\n  ")}
   <link rel="preconnect" href="https://fonts.googleapis.com">
   <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
   <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
@@ -418,20 +817,79 @@ function renderLayout({
     .card { background: var(--card); border: 1px solid var(--border); border-radius: 1.25rem; padding: 1.5rem; display: flex; flex-direction: column; gap: 1rem; box-shadow: 0 10px 35px rgba(0,0,0,0.45); }
     .card img { width: 100%; height: 180px; object-fit: cover; border-radius: 0.95rem; border: 1px solid var(--border); }
     .card h2 { margin: 0; font-size: 1.35rem; }
+    .card-link { color: var(--text); text-decoration: none; }
+    .card-link:hover { color: var(--accent-strong); }
+    .card mark { background: rgba(252,147,173,0.3); color: var(--text); border-radius: 0.2rem; padding: 0 0.1rem; }
+    .excerpt { color: var(--muted); white-space: pre-line; word-break: break-word; }
     .tags { display: flex; flex-wrap: wrap; gap: 0.45rem; }
-    .tag { padding: 0.2rem 0.65rem; border-radius: 999px; background: rgba(252,147,173,0.15); color: var(--accent); font-size: 0.8rem; }
+    .tag { padding: 0.2rem 0.65rem; border-radius: 999px; background: rgba(252,147,173,0.15); color: var(--accent); font-size: 0.8rem; text-decoration: none; }
+    .video-embed { position: relative; aspect-ratio: 16 / 9; border-radius: 1rem; overflow: hidden; border: 1px solid var(--border); margin-bottom: 1.5rem; }
+    .video-embed iframe { position: absolute; inset: 0; width: 100%; height: 100%; border: 0; }
+    .pack-thumbnail { width: 100%; max-height: 420px; object-fit: cover; border-radius: 1rem; border: 1px solid var(--border); margin-bottom: 1.5rem; }
     .downloads { display: flex; flex-direction: column; gap: 0.45rem; }
     .download-link { display: inline-flex; align-items: center; gap: 0.35rem; padding: 0.7rem 1rem; border-radius: 0.75rem; background: rgba(254,253,251,0.03); border: 1px solid transparent; text-decoration: none; color: var(--text); transition: border 0.2s, background 0.2s; }
     .download-link:hover { border-color: var(--accent); background: rgba(252,147,173,0.12); }
+    .bundle-link { display: inline-flex; align-items: center; gap: 0.35rem; padding: 0.6rem 1rem; border-radius: 0.75rem; border: 1px dashed var(--accent); color: var(--accent-strong); text-decoration: none; font-weight: 600; align-self: flex-start; }
+    .bundle-link:hover { background: rgba(252,147,173,0.12); }
     .cta { margin-top: 1rem; }
     .cta a { display: inline-flex; align-items: center; gap: 0.35rem; padding: 0.8rem 1.2rem; background: var(--accent-strong); color: var(--bg); border-radius: 0.75rem; font-weight: 600; text-decoration: none; }
     footer { padding: 2rem 1.5rem; text-align: center; color: var(--muted); border-top: 1px solid var(--border); }
     .admin-nav { border-bottom: 1px solid var(--border); padding: 0.85rem 1.5rem; display: flex; justify-content: space-between; align-items: center; }
+    .admin-nav-links { display: flex; align-items: center; gap: 1.1rem; flex-wrap: wrap; }
+    .admin-nav-links a { color: var(--muted); text-decoration: none; }
+    .admin-nav-links a:hover { color: var(--accent-strong); }
+    .stats-chart { display: flex; align-items: flex-end; gap: 2px; height: 160px; }
+    .stats-bar { flex: 1; background: var(--accent); border-radius: 2px 2px 0 0; min-width: 2px; opacity: 0.85; }
+    .diff-wrap { overflow-x: auto; border: 1px solid var(--border); border-radius: 0.75rem; }
+    .diff { width: 100%; border-collapse: collapse; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.82rem; table-layout: fixed; }
+    .diff td { padding: 0.1rem 0.5rem; vertical-align: top; white-space: pre-wrap; word-break: break-all; }
+    .diff .diff-num { width: 3rem; color: var(--muted); text-align: right; user-select: none; border-right: 1px solid var(--border); }
+    .diff .diff-del { background: rgba(255,122,149,0.16); }
+    .diff .diff-add { background: rgba(120,220,160,0.16); }
+    .diff .diff-empty { background: rgba(254,253,251,0.03); }
+    .compose-facts { display: grid; grid-template-columns: auto 1fr; gap: 0.35rem 0.8rem; margin: 0; font-size: 0.85rem; }
+    .compose-facts dt { color: var(--muted); }
+    .compose-facts dd { margin: 0; min-width: 0; overflow-wrap: anywhere; }
+    .compose-facts code { font-size: 0.8rem; background: rgba(254,253,251,0.06); border-radius: 0.3rem; padding: 0.05rem 0.3rem; }
+    .download-row { display: flex; gap: 0.4rem; }
+    .download-row .download-link:first-child { flex: 1; }
+    .preview-link { padding: 0.7rem 0.85rem; color: var(--muted); font-size: 0.85rem; }
+    .code-toolbar { display: flex; flex-wrap: wrap; align-items: center; gap: 0.5rem; margin-bottom: 0.75rem; }
+    .code-toolbar button, .code-toolbar a { background: rgba(254,253,251,0.03); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.4rem 0.8rem; color: var(--text); font-size: 0.85rem; text-decoration: none; cursor: pointer; }
+    .code-toolbar button:hover, .code-toolbar a:hover { border-color: var(--accent); }
+    .code-view { overflow-x: auto; border: 1px solid var(--border); border-radius: 0.75rem; background: rgba(0,0,0,0.25); }
+    .code-view pre { margin: 0; padding: 0.75rem 0; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.82rem; line-height: 1.5; }
+    .code-line { display: block; padding-right: 1rem; white-space: pre; }
+    .code-line:target { background: rgba(252,147,173,0.16); }
+    .line-no { display: inline-block; width: 3.5rem; padding-right: 1rem; text-align: right; color: var(--muted); text-decoration: none; user-select: none; opacity: 0.6; }
+    .line-no:hover { opacity: 1; color: var(--accent); }
+    .hl-comment { color: #8b8797; font-style: italic; }
+    .hl-key { color: #7dd3fc; }
+    .hl-string { color: #a7e3a1; }
+    .hl-number { color: #fbbf77; }
+    .hl-keyword { color: var(--accent); }
+    .hl-variable { color: #facc15; }
+    .hl-heading { color: var(--accent-strong); font-weight: 600; }
+    .hl-punct { color: #b8b3c4; }
+    .data-table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+    .data-table th, .data-table td { text-align: left; padding: 0.45rem 0.5rem; border-bottom: 1px solid var(--border); word-break: break-word; }
+    .data-table th { color: var(--muted); font-weight: 500; }
+    .tag-cloud { display: flex; flex-wrap: wrap; gap: 0.6rem; }
+    .tag-count { opacity: 0.7; margin-left: 0.3rem; }
+    .tag.status-draft, .tag.status-archived { background: rgba(254,253,251,0.08); color: var(--muted); }
+    .tag.status-scheduled { background: rgba(250,204,21,0.14); color: #facc15; }
+    .tag.link-broken { background: rgba(255,122,149,0.12); color: var(--error); margin-left: 0.4rem; }
+    .tag.link-ok { background: rgba(120,220,160,0.16); color: #78dca0; }
+    .tag.link-unchecked { background: rgba(254,253,251,0.08); color: var(--muted); }
+    .download-link.unavailable { opacity: 0.6; }
+    .link-unavailable { margin-left: auto; font-size: 0.75rem; color: var(--muted); }
+    select { background: rgba(254,253,251,0.03); border: 1px solid var(--border); border-radius: 0.65rem; padding: 0.55rem 0.7rem; color: var(--text); }
     button.primary { background: var(--accent-strong); color: var(--bg); border: none; border-radius: 0.65rem; padding: 0.75rem 1.25rem; font-weight: 600; cursor: pointer; }
+    button.secondary { background: rgba(254,253,251,0.03); color: var(--text); border: 1px solid var(--border); border-radius: 0.65rem; padding: 0.7rem 0.9rem; white-space: nowrap; cursor: pointer; }
     button.danger { background: rgba(255,122,149,0.12); color: var(--error); border: 1px solid rgba(255,122,149,0.4); border-radius: 0.5rem; padding: 0.45rem 0.8rem; cursor: pointer; }
     .form-card { background: var(--card); border: 1px solid var(--border); border-radius: 1rem; padding: 1.5rem; margin-bottom: 1.5rem; }
     label { display: block; font-size: 0.9rem; color: var(--muted); margin-bottom: 0.25rem; }
-    input[type="text"], input[type="url"], textarea, input[type="password"] {
+    input[type="text"], input[type="url"], textarea, input[type="password"], input[type="datetime-local"] {
       width: 100%;
       background: rgba(254,253,251,0.03);
       border: 1px solid var(--border);
@@ -445,18 +903,33 @@ function renderLayout({
     .flex > div { flex: 1; min-width: 200px; }
     .asset-list { list-style: none; padding: 0; margin: 0.5rem 0 0; display: flex; flex-direction: column; gap: 0.4rem; }
     .asset-list li { display: flex; justify-content: space-between; align-items: center; gap: 0.75rem; padding: 0.65rem 0.5rem; border-bottom: 1px solid rgba(254,253,251,0.08); }
+    .asset-list li.asset-item { flex-direction: column; align-items: stretch; }
+    .asset-list li.dragging { opacity: 0.5; }
+    .asset-row { display: flex; align-items: center; gap: 0.75rem; }
+    .asset-edit summary { cursor: pointer; color: var(--muted); font-size: 0.85rem; }
+    .drag-handle { cursor: grab; color: var(--muted); user-select: none; padding: 0 0.25rem; }
+    button.ghost { background: transparent; color: var(--text); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.35rem 0.6rem; cursor: pointer; }
+    button.ghost:disabled { opacity: 0.35; cursor: default; }
     .flash { background: rgba(252,147,173,0.12); border: 1px solid rgba(252,147,173,0.45); color: var(--accent); padding: 0.9rem 1rem; border-radius: 0.75rem; margin-bottom: 1rem; }
     .error { background: rgba(255,122,149,0.12); border: 1px solid rgba(255,122,149,0.4); color: var(--error); padding: 0.9rem 1rem; border-radius: 0.75rem; margin-bottom: 1rem; }
   </style>
 </head>
 <body>
-  ${includeAdminNav ? `<div class="admin-nav"><strong>${escapeHtml(
+  ${withCsrf(includeAdminNav ? `<div class="admin-nav"><div class="admin-nav-links"><strong>${escapeHtml(
       navLabel
-    )}</strong><form method="post" action="/admin/logout"><button class="danger" type="submit">Logout</button></form></div>` : ""}
-  ${body}
+    )}</strong><a href="/admin">Packs</a><a href="/admin/tags">Tags</a><a href="/admin/stats">Stats</a><a href="/admin/links">Links</a><a href="/admin/sessions">Sessions</a><a href="/admin/tokens">API tokens</a>${
+      currentUser && can(currentUser, "manage_users") ? `<a href="/admin/users">Users</a><a href="/admin/logins">Sign-ins</a>` : ""
+    }${
+      currentUser && can(currentUser, "manage_settings") ? `<a href="/admin/webhooks">Webhooks</a><a href="/admin/backup">Backup</a>` : ""
+    }</div><div class="admin-nav-links">${
+      currentUser
+        ? `<a href="/admin/password" title="Change password">${escapeHtml(currentUser.username)} (${currentUser.role})</a>`
+        : ""
+    }<form method="post" action="/admin/logout"><button class="danger" type="submit">Logout</button></form></div></div>` : "")}
+  ${withCsrf(body)}
   <script>
     const searchInput = document.getElementById('search');
-    if (searchInput) {
+    if (searchInput && !document.querySelector('[data-search-results]')) {
       searchInput.addEventListener('input', event => {
         const query = event.target.value.toLowerCase();
         document.querySelectorAll('[data-filterable]')?.forEach(card => {
@@ -471,37 +944,88 @@ function renderLayout({
 </html>`;
 }
 
-function renderPublic(videos = listVideosWithAssets()) {
-  const footerCopy = formatBrandingText(branding.public.footerText);
+function packComposeSummaries(video: VideoWithAssets) {
+  return video.assets
+    .map((asset) => readComposeSummary(asset.compose_summary))
+    .filter((summary): summary is ComposeSummary => summary !== null);
+}
 
-  const cards = videos
-    .map((video) => {
-      const tags = video.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join("");
-      const downloads = video.assets
-        .map(
-          (asset) => `<a class="download-link" href="${escapeHtml(asset.url)}" target="_blank" rel="noopener">
-            <span>⬇</span>
-            <span>${escapeHtml(asset.label)}</span>
-          </a>`
-        )
-        .join("");
+function packComposeImages(video: VideoWithAssets) {
+  return packComposeSummaries(video).flatMap((summary) => summary.images);
+}
 
-      return `<article class="card" data-filterable="${escapeHtml(
-        `${video.title} ${video.description ?? ""} ${video.tags.join(" ")}`.toLowerCase()
-      )}">
-        ${video.thumbnail_url ? `<img src="${escapeHtml(video.thumbnail_url)}" alt="${escapeHtml(video.title)} thumbnail">` : ""}
-        <div>
-          <h2>${escapeHtml(video.title)}</h2>
-          <p>${escapeHtml(video.description ?? "")}</p>
-        </div>
-        <div class="tags">${tags}</div>
-        <div class="downloads">${downloads}</div>
-        ${video.video_url ? `<div class="cta"><a href="${escapeHtml(video.video_url)}" target="_blank" rel="noopener">${escapeHtml(
-          branding.public.cardCtaLabel
-        )}</a></div>` : ""}
-      </article>`;
+/** What the pack's compose files will run: services and images, published ports, volumes and the env vars to set. */
+function renderComposeFacts(video: VideoWithAssets) {
+  const summaries = packComposeSummaries(video);
+  const services = summaries.flatMap((summary) => summary.services);
+  if (services.length === 0) return "";
+  const unique = (values: string[]) => [...new Set(values)];
+  const codes = (values: string[]) => values.map((value) => `<code>${escapeHtml(value)}</code>`).join(" ");
+  const rows: [string, string][] = [
+    [
+      "Services",
+      services
+        .map((service) => `${escapeHtml(service.name)} ${service.image ? codes([service.image]) : '<span style="color:var(--muted);">(built locally)</span>'}`)
+        .join("<br>")
+    ],
+    ["Ports", codes(unique(services.flatMap((service) => service.ports)))],
+    ["Volumes", codes(unique(services.flatMap((service) => service.volumes)))],
+    ["Env vars", codes(unique(summaries.flatMap((summary) => summary.env)))]
+  ];
+  return `<dl class="compose-facts">${rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${value}</dd>`)
+    .join("")}</dl>`;
+}
+
+function renderVideoCard(video: VideoWithAssets, options: { titleHtml?: string; excerptHtml?: string } = {}) {
+  const tags = video.tags
+    .map((tag) => `<a class="tag" href="${tagPageUrl(tag)}">${escapeHtml(tag)}</a>`)
+    .join("");
+  const downloads = video.assets
+    .map((asset) => {
+      const unavailable = isLinkUnavailable(asset);
+      const link = `<a class="download-link${unavailable ? " unavailable" : ""}" href="${escapeHtml(publicAssetUrl(asset))}" target="_blank" rel="noopener">
+        <span>⬇</span>
+        <span>${escapeHtml(asset.label)}</span>
+        ${unavailable ? '<span class="link-unavailable">Temporarily unavailable</span>' : ""}
+      </a>`;
+      return hasAssetPreview(asset)
+        ? `<div class="download-row">${link}<a class="download-link preview-link" href="${assetPreviewUrl(asset.id)}">Preview</a></div>`
+        : link;
     })
     .join("");
+
+  return `<article class="card" data-filterable="${escapeHtml(
+    `${video.title} ${video.description ?? ""} ${video.tags.join(" ")}`.toLowerCase()
+  )}">
+    ${video.thumbnail_url ? `<img src="${escapeHtml(video.thumbnail_url)}" alt="${escapeHtml(video.title)} thumbnail">` : ""}
+    <div>
+      <h2><a class="card-link" href="${videoPageUrl(video.slug)}">${options.titleHtml ?? escapeHtml(video.title)}</a></h2>
+      ${options.excerptHtml ? `<p class="excerpt">${options.excerptHtml}</p>` : `<p>${escapeHtml(video.description ?? "")}</p>`}
+    </div>
+    <div class="tags">${tags}</div>
+    ${renderComposeFacts(video)}
+    <div class="downloads">${downloads}</div>
+    ${hasBundleableAssets(video) ? `<a class="bundle-link" href="${packBundleUrl(video.slug)}">Download all (.zip)</a>` : ""}
+    ${video.video_url ? `<div class="cta"><a href="${escapeHtml(video.video_url)}" target="_blank" rel="noopener">${escapeHtml(
+      branding.public.cardCtaLabel
+    )}</a></div>` : ""}
+  </article>`;
+}
+
+function renderSearchForm(query = "") {
+  return `<form class="search-form" method="get" action="/" role="search">
+        <input class="search-bar" id="search" name="q" type="search" value="${escapeHtml(query)}" placeholder="${escapeHtml(
+          branding.public.searchPlaceholder
+        )}" />
+      </form>`;
+}
+
+function renderPublic(baseUrl: string, videos = listPublicVideos()) {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+
+  const cards = videos.map((video) => renderVideoCard(video)).join("");
   const gridContent =
     cards ||
     `<div class="card" style="grid-column: 1 / -1; text-align:center;">
@@ -514,7 +1038,8 @@ function renderPublic(videos = listVideosWithAssets()) {
       <p class="hero-desc">${escapeHtml(branding.public.heroDescription)}</p>
     </header>
     <main>
-      <input class="search-bar" id="search" type="text" placeholder="${escapeHtml(branding.public.searchPlaceholder)}" />
+      ${renderSearchForm()}
+      <p style="margin:-0.75rem 0 1.5rem;"><a href="/tags">Browse by tag →</a> • <a href="/feed.xml">RSS feed</a></p>
       <section class="grid">
         ${gridContent}
       </section>
@@ -526,454 +1051,3860 @@ function renderPublic(videos = listVideosWithAssets()) {
     title: branding.siteName,
     description: branding.metaDescription,
     body,
-    includeAdminNav: false
+    includeAdminNav: false,
+    feeds: siteFeedLinks(),
+    seo: { title: branding.siteName, canonicalUrl: absoluteUrl("/", baseUrl) }
   });
 }
 
-function renderLogin(message?: string) {
-  const isDefaultCreds = isUsingDefaultCredentials();
-  const defaultCredsHint = isDefaultCreds
-    ? `<div class="flash" style="text-align:left;">
-        <strong>${escapeHtml(branding.login.defaultCredentialsHeading)}:</strong> ${escapeHtml(
-          branding.login.defaultCredentialsHelper
-        )}<br>
-        <span style="font-size:0.9rem;">Username: <code style="background:rgba(254,253,251,0.08);padding:0.1rem 0.35rem;border-radius:0.25rem;">${escapeHtml(
-          ADMIN_USERNAME
-        )}</code> &nbsp; Password: <code style="background:rgba(254,253,251,0.08);padding:0.1rem 0.35rem;border-radius:0.25rem;">${escapeHtml(
-          DEFAULT_ADMIN_PASSWORD
-        )}</code></span>
-      </div>`
-    : "";
+function renderTagIndex(tags: TagWithCount[], baseUrl: string) {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+  const cloud = tags
+    .filter((tag) => tag.video_count > 0)
+    .map(
+      (tag) => `<a class="tag" href="${tagPageUrl(tag.name)}">${escapeHtml(tag.name)}<span class="tag-count">${tag.video_count}</span></a>`
+    )
+    .join("");
 
   const body = `
-    <header>
-      <h1 class="hero-title">${escapeHtml(branding.login.heroTitle)}</h1>
-      <p class="hero-desc">${escapeHtml(branding.login.heroDescription)}</p>
+    <header class="hero">
+      <p style="margin:0 0 0.5rem;"><a href="/">← All packs</a></p>
+      <h1 class="hero-title">Tags</h1>
+      <p class="hero-desc">Browse download packs by topic.</p>
     </header>
-    <main style="max-width:420px;">
-      ${message ? `<div class="error">${escapeHtml(message)}</div>` : ""}
-      ${defaultCredsHint}
-      <form class="form-card" method="post" action="/admin/login">
-        <label for="username">Username</label>
-        <input id="username" name="username" type="text" placeholder="${isDefaultCreds ? ADMIN_USERNAME : "username"}" required />
-        <label for="password">Password</label>
-        <input id="password" name="password" type="password" placeholder="••••••••" required />
-        <button class="primary" style="width:100%;" type="submit">Sign in</button>
-      </form>
+    <main style="max-width:860px;">
+      <section class="form-card">
+        <div class="tag-cloud">${cloud || '<span style="color:var(--muted);">No tags yet.</span>'}</div>
+      </section>
     </main>
+    <footer>${escapeHtml(footerCopy)}</footer>
   `;
 
   return renderLayout({
-    title: branding.siteName,
+    title: `Tags • ${branding.siteName}`,
     description: branding.metaDescription,
     body,
-    includeAdminNav: false
+    includeAdminNav: false,
+    seo: { canonicalUrl: absoluteUrl("/tags", baseUrl) }
   });
 }
 
-function renderPasswordChange({
-  error,
-  flash,
-  requireChange
-}: {
-  error?: string;
-  flash?: string;
-  requireChange: boolean;
-}) {
-  const isDefaultCreds = isUsingDefaultCredentials();
-  const currentPasswordHint = requireChange && isDefaultCreds
-    ? `<p style="margin:0 0 0.5rem;color:var(--muted);font-size:0.85rem;">Current password is: <code style="background:rgba(254,253,251,0.08);padding:0.15rem 0.4rem;border-radius:0.25rem;">${
-        escapeHtml(DEFAULT_ADMIN_PASSWORD)
-      }</code></p>`
-    : "";
-  const heading = requireChange ? branding.password.setupTitle : branding.password.changeTitle;
-  const description = requireChange ? branding.password.setupDescription : branding.password.changeDescription;
+function renderTagPage(tag: string, videos: VideoWithAssets[], baseUrl: string) {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+  const cards = videos.map((video) => renderVideoCard(video)).join("");
+  const countLabel = `${videos.length} ${videos.length === 1 ? "pack" : "packs"}`;
 
   const body = `
-    <header>
-      <h1 class="hero-title">${escapeHtml(heading)}</h1>
-      <p class="hero-desc">${escapeHtml(description)}</p>
+    <header class="hero">
+      <p style="margin:0 0 0.5rem;"><a href="/tags">← All tags</a></p>
+      <h1 class="hero-title">#${escapeHtml(tag)}</h1>
+      <p class="hero-desc">${countLabel} tagged “${escapeHtml(tag)}”. <a href="${escapeHtml(tagFeedUrl(tag))}">RSS feed</a></p>
     </header>
-    <main style="max-width:480px;">
-      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
-      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
-      <form class="form-card" method="post" action="/admin/password">
-        <label for="current_password">Current password</label>
-        ${currentPasswordHint}
-        <input id="current_password" name="current_password" type="password" placeholder="••••••••" required />
-        <label for="new_password">New password</label>
-        <input id="new_password" name="new_password" type="password" placeholder="Use at least ${MIN_PASSWORD_LENGTH} characters" required />
-        <label for="confirm_password">Confirm new password</label>
-        <input id="confirm_password" name="confirm_password" type="password" placeholder="Repeat new password" required />
-        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.85rem;">Minimum ${MIN_PASSWORD_LENGTH} characters. ${escapeHtml(
-          branding.password.helperText
-        )}</p>
-        <button class="primary" style="width:100%;" type="submit">Save new password</button>
-      </form>
+    <main>
+      <section class="grid">
+        ${
+          cards ||
+          `<div class="card" style="grid-column: 1 / -1; text-align:center;">
+            <p style="margin:0;">No packs use this tag yet.</p>
+          </div>`
+        }
+      </section>
     </main>
+    <footer>${escapeHtml(footerCopy)}</footer>
   `;
 
   return renderLayout({
-    title: branding.siteName,
-    description: branding.metaDescription,
+    title: `#${tag} • ${branding.siteName}`,
+    description: `${countLabel} tagged ${tag} on ${branding.siteName}.`,
     body,
-    includeAdminNav: false
+    includeAdminNav: false,
+    feeds: [{ title: `#${tag} • ${branding.siteName}`, href: tagFeedUrl(tag), type: "application/rss+xml" }, ...siteFeedLinks()],
+    seo: { canonicalUrl: absoluteUrl(tagPageUrl(tag), baseUrl) }
   });
 }
 
-function renderAdmin(videos = listVideosWithAssets(), flash?: string) {
-  const videoForms = videos
-    .map((video) => {
-      const assets = video.assets
-        .map(
-          (asset) => `<li>
-            <div style="display:flex;flex-direction:column;gap:0.15rem;">
-              <span>${escapeHtml(asset.label)}</span>
-              <span style="color:var(--muted);font-size:0.8rem;">
-                ${
-                  asset.content
-                    ? `Generated file • ${escapeHtml(asset.filename ?? "download.txt")}`
-                    : "External URL"
-                }
-              </span>
-            </div>
-            <form method="post" action="/admin/assets/${asset.id}/delete">
-              <button class="danger" type="submit">Remove</button>
-            </form>
-          </li>`
-        )
-        .join("");
+function renderSearchResults(query: string, results: SearchResult[]) {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+  const cards = results
+    .map(({ video, hit }) =>
+      renderVideoCard(video, {
+        titleHtml: highlightMatches(hit.title),
+        excerptHtml: highlightMatches(hit.excerpt)
+      })
+    )
+    .join("");
+  const summary = `${results.length} ${results.length === 1 ? "pack matches" : "packs match"} <strong>${escapeHtml(query)}</strong> • <a href="/">Clear search</a>`;
 
-      return `<section class="form-card">
-        <header style="display:flex;align-items:center;justify-content:space-between;gap:1rem;flex-wrap:wrap;">
-          <div>
-            <h2 style="margin:0;">${escapeHtml(video.title)}</h2>
-            <p style="margin:0;color:var(--muted);">Slug: ${escapeHtml(video.slug)}</p>
-          </div>
-          <form method="post" action="/admin/videos/${video.id}/delete" onsubmit="return confirm('Delete ${escapeHtml(video.title)}?');">
-            <button class="danger" type="submit">Delete</button>
-          </form>
-        </header>
-        <form method="post" action="/admin/videos/${video.id}" style="margin-top:1rem;">
-          <label>Title</label>
-          <input type="text" name="title" value="${escapeHtml(video.title)}" required />
-          <label>Description</label>
-          <textarea name="description">${escapeHtml(video.description ?? "")}</textarea>
-          <div class="flex">
-            <div>
-              <label>Video URL</label>
-              <input type="url" name="video_url" value="${escapeHtml(video.video_url ?? "" )}" />
-            </div>
-            <div>
-              <label>Thumbnail URL (leave blank to auto-fill)</label>
-              <input type="url" name="thumbnail_url" value="${escapeHtml(video.thumbnail_url ?? "" )}" />
-            </div>
-          </div>
-          <label>Tags (comma separated)</label>
-          <input type="text" name="tags" value="${escapeHtml(tagsToString(video.tags))}" />
-          <button class="primary" type="submit">Save changes</button>
-        </form>
-        <div style="margin-top:1.5rem;">
-          <h3 style="margin-top:0.25rem;">Assets</h3>
-          <ul class="asset-list">${assets || '<li style="justify-content:flex-start;color:var(--muted);">No assets yet</li>'}</ul>
-          <form method="post" action="/admin/videos/${video.id}/assets" style="margin-top:1rem;">
-            <label>Label</label>
-            <input type="text" name="label" placeholder="docker-compose.yml" required />
-            <label>Filename (used when generating a file)</label>
-            <input type="text" name="filename" placeholder="docker-compose.yml" />
-            <label>Code or text snippet</label>
-            <textarea name="content" placeholder="Paste the file content here"></textarea>
-            <label>External URL (optional)</label>
-            <input type="url" name="url" placeholder="https://..." />
-            <p style="margin:0 0 1rem;color:var(--muted);font-size:0.85rem;">
-              Paste a snippet to generate a downloadable file automatically, or leave it blank and provide a URL.
-            </p>
-            <button class="primary" type="submit">Add asset</button>
-          </form>
+  const body = `
+    <header class="hero">
+      <h1 class="hero-title">${escapeHtml(branding.public.heroTitle)}</h1>
+      <p class="hero-desc">${escapeHtml(branding.public.heroDescription)}</p>
+    </header>
+    <main>
+      ${renderSearchForm(query)}
+      <div class="flash">${summary}</div>
+      <section class="grid" data-search-results>
+        ${
+          cards ||
+          `<div class="card" style="grid-column: 1 / -1; text-align:center;">
+            <p style="margin:0;">Nothing matched that search. Try fewer or different words.</p>
+          </div>`
+        }
+      </section>
+    </main>
+    <footer>${escapeHtml(footerCopy)}</footer>
+  `;
+
+  return renderLayout({
+    title: `Search: ${query} • ${branding.siteName}`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    seo: { noindex: true }
+  });
+}
+
+function packImageUrl(video: VideoWithAssets, baseUrl: string) {
+  const thumbnail = video.thumbnail_url || defaultThumbnailUrl(video.video_url);
+  return thumbnail ? absoluteUrl(thumbnail, baseUrl) : null;
+}
+
+/**
+ * schema.org description of a pack: the files as SoftwareSourceCode and, when the pack
+ * has a tutorial, the VideoObject they belong to.
+ */
+function packJsonLd(video: VideoWithAssets, baseUrl: string): Record<string, unknown> {
+  const pageUrl = absoluteUrl(videoPageUrl(video.slug), baseUrl);
+  const imageUrl = packImageUrl(video, baseUrl);
+  const youtubeId = extractYouTubeVideoId(video.video_url);
+  const created = new Date(packPublishedAt(video)).toISOString();
+  const modified = new Date(parseDbTimestamp(video.updated_at)).toISOString();
+
+  const code: Record<string, unknown> = {
+    "@type": "SoftwareSourceCode",
+    "@id": `${pageUrl}#files`,
+    name: video.title,
+    url: pageUrl,
+    dateCreated: created,
+    dateModified: modified,
+    hasPart: video.assets.map((asset) => ({
+      "@type": "SoftwareSourceCode",
+      name: asset.label,
+      ...(isHostedAsset(asset) && asset.filename ? { alternateName: asset.filename } : {}),
+      url: absoluteUrl(publicAssetUrl(asset), baseUrl)
+    }))
+  };
+  if (video.description) code.description = video.description;
+  if (video.tags.length > 0) code.keywords = video.tags.join(", ");
+  if (imageUrl) code.image = imageUrl;
+  if (!video.video_url) {
+    return { "@context": "https://schema.org", ...code };
+  }
+
+  const tutorial: Record<string, unknown> = {
+    "@type": "VideoObject",
+    "@id": `${pageUrl}#video`,
+    name: video.title,
+    description: video.description || branding.metaDescription,
+    uploadDate: created,
+    url: video.video_url,
+    ...(imageUrl ? { thumbnailUrl: imageUrl } : {}),
+    ...(youtubeId ? { embedUrl: youtubeEmbedUrl(youtubeId) } : {})
+  };
+  code.subjectOf = { "@id": tutorial["@id"] };
+  return { "@context": "https://schema.org", "@graph": [tutorial, code] };
+}
+
+const TEMPLATE_FORM_SCRIPT = `
+  document.querySelectorAll('[data-generate-secret]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(24));
+      const value = btoa(String.fromCharCode(...bytes)).replace(/\\+/g, '-').replace(/\\//g, '_').replace(/=+$/, '');
+      document.getElementById(button.dataset.generateSecret).value = value;
+    });
+  });
+`;
+
+function renderTemplateField(variable: TemplateVariable, submitted: string | null) {
+  const id = `tpl-${variable.name}`;
+  // Secrets are filled in here rather than per download, so every file fetched from this page shares one.
+  const initial = submitted || (isGeneratedSecret(variable) ? generateSecret() : submitted);
+  const value = initial !== null ? ` value="${escapeHtml(initial)}"` : "";
+  const placeholder =
+    variable.defaultValue !== null
+      ? variable.defaultValue
+      : variable.type === "secret"
+        ? "Leave blank for a random value"
+        : "";
+  const attributes = `id="${id}" name="${variable.name}"${value} placeholder="${escapeHtml(placeholder)}"${
+    variable.defaultValue === null && variable.type !== "secret" ? " required" : ""
+  }`;
+  const input =
+    variable.type === "port"
+      ? `<input type="text" inputmode="numeric" pattern="\\d{1,5}" ${attributes} />`
+      : variable.type === "timezone"
+        ? `<input type="text" list="time-zones" autocomplete="off" ${attributes} />`
+        : variable.type === "secret"
+          ? `<div style="display:flex;gap:0.5rem;align-items:flex-start;">
+              <input type="text" autocomplete="off" spellcheck="false" style="font-family:ui-monospace,monospace;" ${attributes} />
+              <button type="button" class="secondary" data-generate-secret="${id}">Generate random</button>
+            </div>`
+          : `<input type="text" ${attributes} />`;
+  return `<div>
+      <label for="${id}"><code>${variable.name}</code>${variable.description ? ` — ${escapeHtml(variable.description)}` : ""}</label>
+      ${input}
+    </div>`;
+}
+
+/**
+ * The "fill in your settings" form. Each button posts the same fields to a different download,
+ * so the values travel with the request and are never stored.
+ */
+function renderTemplateForm(
+  video: VideoWithAssets,
+  variables: TemplateVariable[],
+  submitted: { errors: string[]; form: FormData } | null,
+  previewToken: string | null
+) {
+  const fields = variables
+    .map((variable) => {
+      const value = submitted?.form.get(variable.name);
+      return renderTemplateField(variable, typeof value === "string" ? value : null);
+    })
+    .join("");
+  const buttons = video.assets
+    .filter((asset) => hasTemplateVariables(asset.content))
+    .map((asset) => `<button type="submit" class="primary" formaction="${escapeHtml(withPreviewToken(asset.url, previewToken))}">⬇ ${escapeHtml(asset.label)}</button>`);
+  const timeZones = variables.some((variable) => variable.type === "timezone")
+    ? `<datalist id="time-zones">${timeZoneNames()
+        .map((zone) => `<option value="${escapeHtml(zone)}"></option>`)
+        .join("")}</datalist>`
+    : "";
+
+  return `<section class="form-card" id="settings">
+      <h2 style="margin:0 0 0.5rem;">Fill in your settings</h2>
+      <p style="color:var(--muted);margin:0 0 1rem;">These files have placeholders. Values entered here are filled in when you download with the buttons below. They're only used for that download and aren't saved. Blank fields use the default shown.${
+        variables.some(isGeneratedSecret)
+          ? " Secrets start with a random value made for this page, so every file you download here gets the same one."
+          : ""
+      }</p>
+      ${submitted ? submitted.errors.map((error) => `<div class="error">${escapeHtml(error)}</div>`).join("") : ""}
+      <form method="post" action="${escapeHtml(withPreviewToken(packBundleUrl(video.slug), previewToken))}">
+        ${fields}
+        ${timeZones}
+        <div style="display:flex;flex-wrap:wrap;gap:0.6rem;">
+          ${buttons.join("")}
+          <button type="submit" class="primary">⬇ Download all (.zip)</button>
         </div>
-      </section>`;
+      </form>
+      <script>${TEMPLATE_FORM_SCRIPT}</script>
+    </section>`;
+}
+
+function renderVideoPage(
+  video: VideoWithAssets,
+  baseUrl: string,
+  templateErrors: { errors: string[]; form: FormData } | null = null,
+  previewToken: string | null = null
+) {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+  const youtubeId = extractYouTubeVideoId(video.video_url);
+
+  const media = youtubeId
+    ? `<div class="video-embed">
+        <iframe src="${youtubeEmbedUrl(youtubeId)}" title="${escapeHtml(video.title)}" allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe>
+      </div>`
+    : video.thumbnail_url
+      ? `<img class="pack-thumbnail" src="${escapeHtml(video.thumbnail_url)}" alt="${escapeHtml(video.title)} thumbnail">`
+      : "";
+
+  const tags = video.tags
+    .map((tag) => `<a class="tag" href="${tagPageUrl(tag)}">${escapeHtml(tag)}</a>`)
+    .join("");
+  const templateVariables = packTemplateVariables(video);
+  const composeFacts = renderComposeFacts(video);
+
+  const assets = video.assets
+    .map((asset) => {
+      const { type, size } = describeAsset(asset);
+      const unavailable = isLinkUnavailable(asset);
+      const details = [type, size, isHostedAsset(asset) ? asset.filename : null, unavailable ? "Temporarily unavailable" : null].filter(
+        Boolean
+      ) as string[];
+      return `<li>
+          <div style="display:flex;flex-direction:column;gap:0.15rem;">
+            <span>${escapeHtml(asset.label)}</span>
+            <span style="color:var(--muted);font-size:0.8rem;">${escapeHtml(details.join(" • "))}</span>
+          </div>
+          <div class="download-row">
+            ${hasAssetPreview(asset) ? `<a class="download-link preview-link" href="${escapeHtml(withPreviewToken(assetPreviewUrl(asset.id), previewToken))}">Preview</a>` : ""}
+            <a class="download-link${unavailable ? " unavailable" : ""}" href="${escapeHtml(withPreviewToken(publicAssetUrl(asset), previewToken))}" target="_blank" rel="noopener">
+              <span>⬇</span>
+              <span>Download</span>
+            </a>
+          </div>
+        </li>`;
     })
     .join("");
 
-  const body = `
-    <header>
-      <h1 class="hero-title">${escapeHtml(branding.admin.heroTitle)}</h1>
-      <p class="hero-desc">${escapeHtml(branding.admin.heroDescription)}</p>
-    </header>
-    <main>
-      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
-      <section class="form-card">
-        <h2 style="margin-top:0;">${escapeHtml(branding.admin.newPackTitle)}</h2>
-        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.95rem;">${escapeHtml(
-          branding.admin.newPackDescription
-        )}</p>
-        <form method="post" action="/admin/videos">
-          <label>Title</label>
-          <input type="text" name="title" placeholder="Immich photo server" required />
-          <label>Slug (optional)</label>
-          <input type="text" name="slug" placeholder="immich" />
-          <label>Description</label>
-          <textarea name="description" placeholder="Short blurb that shows up on the public page"></textarea>
-          <div class="flex">
-            <div>
-              <label>Video URL</label>
-              <input type="url" name="video_url" placeholder="https://youtube.com/watch?v=..." />
-            </div>
-            <div>
-              <label>Thumbnail URL (leave blank to auto-fill)</label>
-              <input type="url" name="thumbnail_url" placeholder="https://...jpg" />
-            </div>
-          </div>
-          <label>Tags (comma separated)</label>
-          <input type="text" name="tags" placeholder="docker, media, cloud" />
-          <button class="primary" type="submit">Create pack</button>
-        </form>
-      </section>
-      ${videoForms}
-    </main>
-  `;
+  const body = `
+    <header class="hero">
+      <p style="margin:0 0 0.5rem;"><a href="/">← All packs</a></p>
+      <h1 class="hero-title">${escapeHtml(video.title)}</h1>
+      ${video.description ? `<p class="hero-desc">${escapeHtml(video.description)}</p>` : ""}
+    </header>
+    <main style="max-width:860px;">
+      ${media}
+      ${tags ? `<div class="tags" style="margin:1.25rem 0;">${tags}</div>` : ""}
+      ${composeFacts ? `<section class="form-card"><h2 style="margin:0 0 0.75rem;">What this sets up</h2>${composeFacts}</section>` : ""}
+      ${templateVariables.length > 0 ? renderTemplateForm(video, templateVariables, templateErrors, previewToken) : ""}
+      <section class="form-card">
+        <div style="display:flex;justify-content:space-between;align-items:center;gap:1rem;flex-wrap:wrap;">
+          <h2 style="margin:0;">Downloads</h2>
+          ${hasBundleableAssets(video) ? `<a class="bundle-link" href="${escapeHtml(withPreviewToken(packBundleUrl(video.slug), previewToken))}">Download all (.zip)</a>` : ""}
+        </div>
+        <ul class="asset-list">${assets || '<li style="justify-content:flex-start;color:var(--muted);">No files in this pack yet</li>'}</ul>
+      </section>
+      ${video.video_url ? `<div class="cta"><a href="${escapeHtml(video.video_url)}" target="_blank" rel="noopener">${escapeHtml(
+        branding.public.cardCtaLabel
+      )}</a></div>` : ""}
+    </main>
+    <footer>${escapeHtml(footerCopy)}</footer>
+  `;
+
+  return renderLayout({
+    title: `${video.title} • ${branding.siteName}`,
+    description: video.description ?? branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    seo: {
+      title: video.title,
+      canonicalUrl: absoluteUrl(videoPageUrl(video.slug), baseUrl),
+      imageUrl: packImageUrl(video, baseUrl),
+      type: video.video_url ? "video.other" : "website",
+      jsonLd: packJsonLd(video, baseUrl),
+      noindex: !isPackListed(video)
+    }
+  });
+}
+
+const COPY_CONTENT_SCRIPT = `
+  document.querySelectorAll('[data-copy-target]').forEach((button) => {
+    const source = document.getElementById(button.dataset.copyTarget);
+    const label = button.textContent;
+    const done = (text) => {
+      button.textContent = text;
+      setTimeout(() => { button.textContent = label; }, 1500);
+    };
+    button.addEventListener('click', async () => {
+      try {
+        await navigator.clipboard.writeText(source.value);
+        done('Copied');
+      } catch {
+        source.hidden = false;
+        source.select();
+        done(document.execCommand('copy') ? 'Copied' : 'Copy failed');
+        source.hidden = true;
+      }
+    });
+  });
+`;
+
+function renderAssetPreviewPage(video: VideoWithAssets, asset: AssetRecord, previewToken: string | null) {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+  const filename = asset.filename && asset.filename.trim().length > 0 ? asset.filename : `asset-${asset.id}.txt`;
+  const language = detectHighlightLanguage(filename);
+  const { size } = describeAsset(asset);
+  const lines = highlightLines(asset.content ?? "", language)
+    .map((html, index) => `<span class="code-line" id="L${index + 1}"><a class="line-no" href="#L${index + 1}">${index + 1}</a>${html}</span>`)
+    .join("");
+
+  const body = `
+    <header class="hero">
+      <p style="margin:0 0 0.5rem;"><a href="${escapeHtml(withPreviewToken(videoPageUrl(video.slug), previewToken))}">← ${escapeHtml(video.title)}</a></p>
+      <h1 class="hero-title">${escapeHtml(asset.label)}</h1>
+      <p class="hero-desc">${escapeHtml([filename, highlightLanguageName(language), size].filter(Boolean).join(" • "))}</p>
+    </header>
+    <main style="max-width:1000px;">
+      <div class="code-toolbar">
+        <button type="button" data-copy-target="asset-source">Copy</button>
+        <a href="${escapeHtml(withPreviewToken(assetRawUrl(asset.id), previewToken))}">Raw</a>
+        <a href="${escapeHtml(withPreviewToken(asset.url, previewToken))}">⬇ Download</a>
+      </div>
+      <textarea id="asset-source" readonly hidden>${escapeHtml(asset.content ?? "")}</textarea>
+      <div class="code-view"><pre><code>${lines}</code></pre></div>
+    </main>
+    <footer>${escapeHtml(footerCopy)}</footer>
+    <script>${COPY_CONTENT_SCRIPT}</script>
+  `;
+
+  return renderLayout({
+    title: `${asset.label} • ${video.title} • ${branding.siteName}`,
+    description: video.description ?? branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    seo: { noindex: true }
+  });
+}
+
+function renderNotFoundPage(message = "We couldn't find the page you were looking for.") {
+  const footerCopy = formatBrandingText(branding.public.footerText);
+  const body = `
+    <header class="hero">
+      <h1 class="hero-title">Not found</h1>
+      <p class="hero-desc">${escapeHtml(message)}</p>
+    </header>
+    <main style="max-width:480px;text-align:center;">
+      <div class="cta"><a href="/">Browse all packs</a></div>
+    </main>
+    <footer>${escapeHtml(footerCopy)}</footer>
+  `;
+
+  return renderLayout({
+    title: `Not found • ${branding.siteName}`,
+    body,
+    includeAdminNav: false
+  });
+}
+
+function renderForbiddenPage(message: string) {
+  const body = `
+    <header class="hero">
+      <h1 class="hero-title">Request blocked</h1>
+      <p class="hero-desc">${escapeHtml(message)}</p>
+    </header>
+    <main style="max-width:480px;text-align:center;">
+      <p style="color:var(--muted);">Nothing was changed. This check protects your account from forms submitted by other websites.</p>
+      <div class="cta"><a href="/admin">Back to the dashboard</a></div>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `Request blocked • ${branding.siteName}`,
+    body,
+    includeAdminNav: false
+  });
+}
+
+function renderLogin(message?: string) {
+  const isDefaultCreds = isUsingDefaultCredentials();
+  const defaultCredsHint = isDefaultCreds
+    ? `<div class="flash" style="text-align:left;">
+        <strong>${escapeHtml(branding.login.defaultCredentialsHeading)}:</strong> ${escapeHtml(
+          branding.login.defaultCredentialsHelper
+        )}<br>
+        <span style="font-size:0.9rem;">Username: <code style="background:rgba(254,253,251,0.08);padding:0.1rem 0.35rem;border-radius:0.25rem;">${escapeHtml(
+          ADMIN_USERNAME
+        )}</code> &nbsp; Password: <code style="background:rgba(254,253,251,0.08);padding:0.1rem 0.35rem;border-radius:0.25rem;">${escapeHtml(
+          DEFAULT_ADMIN_PASSWORD
+        )}</code></span>
+      </div>`
+    : "";
+
+  const body = `
+    <header>
+      <h1 class="hero-title">${escapeHtml(branding.login.heroTitle)}</h1>
+      <p class="hero-desc">${escapeHtml(branding.login.heroDescription)}</p>
+    </header>
+    <main style="max-width:420px;">
+      ${message ? `<div class="error">${escapeHtml(message)}</div>` : ""}
+      ${defaultCredsHint}
+      <form class="form-card" method="post" action="/admin/login">
+        <label for="username">Username</label>
+        <input id="username" name="username" type="text" placeholder="${isDefaultCreds ? ADMIN_USERNAME : "username"}" required />
+        <label for="password">Password</label>
+        <input id="password" name="password" type="password" placeholder="••••••••" required />
+        <button class="primary" style="width:100%;" type="submit">Sign in</button>
+      </form>
+    </main>
+  `;
+
+  return renderLayout({
+    title: branding.siteName,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    seo: { noindex: true }
+  });
+}
+
+function renderPasswordChange({
+  error,
+  flash,
+  requireChange,
+  showDefaultPassword,
+  twoFactor,
+  currentUser
+}: {
+  error?: string;
+  flash?: string;
+  requireChange: boolean;
+  showDefaultPassword: boolean;
+  currentUser: SignedInUser;
+  twoFactor?: { enabled: boolean; required: boolean; recoveryCodesLeft: number };
+}) {
+  const currentPasswordHint = requireChange && showDefaultPassword
+    ? `<p style="margin:0 0 0.5rem;color:var(--muted);font-size:0.85rem;">Current password is: <code style="background:rgba(254,253,251,0.08);padding:0.15rem 0.4rem;border-radius:0.25rem;">${
+        escapeHtml(DEFAULT_ADMIN_PASSWORD)
+      }</code></p>`
+    : "";
+  const heading = requireChange ? branding.password.setupTitle : branding.password.changeTitle;
+  const description = requireChange ? branding.password.setupDescription : branding.password.changeDescription;
+
+  const body = `
+    <header>
+      <h1 class="hero-title">${escapeHtml(heading)}</h1>
+      <p class="hero-desc">${escapeHtml(description)}</p>
+    </header>
+    <main style="max-width:480px;">
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <form class="form-card" method="post" action="/admin/password">
+        <label for="current_password">Current password</label>
+        ${currentPasswordHint}
+        <input id="current_password" name="current_password" type="password" placeholder="••••••••" required />
+        <label for="new_password">New password</label>
+        <input id="new_password" name="new_password" type="password" placeholder="Use at least ${MIN_PASSWORD_LENGTH} characters" required />
+        <label for="confirm_password">Confirm new password</label>
+        <input id="confirm_password" name="confirm_password" type="password" placeholder="Repeat new password" required />
+        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.85rem;">Minimum ${MIN_PASSWORD_LENGTH} characters. ${escapeHtml(
+          branding.password.helperText
+        )}</p>
+        <button class="primary" style="width:100%;" type="submit">Save new password</button>
+      </form>
+      ${twoFactor ? renderTwoFactorSettings(twoFactor) : ""}
+    </main>
+  `;
+
+  return renderLayout({
+    title: branding.siteName,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    currentUser
+  });
+}
+
+function renderTwoFactorSettings({
+  enabled,
+  required,
+  recoveryCodesLeft
+}: {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}) {
+  if (!enabled) {
+    return `<section class="form-card">
+        <h2 style="margin-top:0;">Two-factor authentication</h2>
+        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.9rem;">${
+          required ? "Your owner requires two-factor authentication. " : ""
+        }Protect this account with a 6-digit code from an authenticator app (1Password, Google Authenticator, Aegis…) on every sign-in.</p>
+        <a class="download-link" href="${TWO_FACTOR_SETUP_PATH}">Set up two-factor authentication</a>
+      </section>`;
+  }
+
+  return `<section class="form-card">
+        <h2 style="margin-top:0;">Two-factor authentication</h2>
+        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.9rem;">Enabled • ${recoveryCodesLeft} unused recovery ${
+          recoveryCodesLeft === 1 ? "code" : "codes"
+        }</p>
+        <form method="post" action="${TWO_FACTOR_SETUP_PATH}/recovery-codes">
+          <label for="regenerate_code">Authenticator code</label>
+          <input id="regenerate_code" name="code" type="text" inputmode="numeric" autocomplete="one-time-code" placeholder="123456" required />
+          <button class="primary" type="submit">Generate new recovery codes</button>
+        </form>
+        ${
+          required
+            ? `<p style="margin:1rem 0 0;color:var(--muted);font-size:0.85rem;">Two-factor authentication is required for every admin, so it can't be turned off.</p>`
+            : `<form method="post" action="${TWO_FACTOR_SETUP_PATH}/disable" style="margin-top:1.5rem;">
+          <label for="disable_password">Password</label>
+          <input id="disable_password" name="password" type="password" required />
+          <label for="disable_code">Authenticator or recovery code</label>
+          <input id="disable_code" name="code" type="text" autocomplete="one-time-code" required />
+          <button class="danger" type="submit">Turn off two-factor authentication</button>
+        </form>`
+        }
+      </section>`;
+}
+
+function renderTwoFactorSetup({
+  secret,
+  uri,
+  error,
+  currentUser
+}: {
+  secret: string;
+  uri: string;
+  error?: string;
+  currentUser: SignedInUser;
+}) {
+  const body = `
+    <header>
+      <h1 class="hero-title">Set up two-factor authentication</h1>
+      <p class="hero-desc">Scan the code with your authenticator app, then enter the 6-digit code it shows to finish.</p>
+    </header>
+    <main style="max-width:480px;">
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <section class="form-card" style="text-align:center;">
+        <div style="display:inline-block;border-radius:0.75rem;overflow:hidden;">${renderQrSvg(uri, { moduleSize: 5 })}</div>
+        <p style="color:var(--muted);font-size:0.85rem;">Can't scan? Enter this key manually:</p>
+        <code style="background:rgba(254,253,251,0.08);padding:0.3rem 0.5rem;border-radius:0.25rem;word-break:break-all;">${escapeHtml(
+          secret.replace(/(.{4})(?=.)/g, "$1 ")
+        )}</code>
+      </section>
+      <form class="form-card" method="post" action="${TWO_FACTOR_SETUP_PATH}/enable">
+        <label for="code">Authenticator code</label>
+        <input id="code" name="code" type="text" inputmode="numeric" autocomplete="one-time-code" placeholder="123456" required autofocus />
+        <button class="primary" style="width:100%;" type="submit">Turn on two-factor authentication</button>
+      </form>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Two-factor authentication`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    currentUser
+  });
+}
+
+function renderRecoveryCodes(codes: string[]) {
+  const body = `
+    <header>
+      <h1 class="hero-title">Save your recovery codes</h1>
+      <p class="hero-desc">Each code signs you in once if you lose your authenticator. They won't be shown again.</p>
+    </header>
+    <main style="max-width:480px;">
+      <section class="form-card">
+        <pre style="font-size:1.1rem;line-height:1.8;margin:0;text-align:center;">${codes.map(escapeHtml).join("\n")}</pre>
+      </section>
+      <div class="cta" style="text-align:center;"><a href="/admin">I've saved them — continue</a></div>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Recovery codes`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: false
+  });
+}
+
+function renderLoginChallenge(message?: string) {
+  const body = `
+    <header>
+      <h1 class="hero-title">${escapeHtml(branding.login.heroTitle)}</h1>
+      <p class="hero-desc">Enter the 6-digit code from your authenticator app.</p>
+    </header>
+    <main style="max-width:420px;">
+      ${message ? `<div class="error">${escapeHtml(message)}</div>` : ""}
+      <form class="form-card" method="post" action="/admin/login/2fa">
+        <label for="code">Authentication code</label>
+        <input id="code" name="code" type="text" inputmode="numeric" autocomplete="one-time-code" placeholder="123456" required autofocus />
+        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.85rem;">Lost your device? Enter one of your recovery codes instead.</p>
+        <button class="primary" style="width:100%;" type="submit">Verify</button>
+      </form>
+    </main>
+  `;
+
+  return renderLayout({
+    title: branding.siteName,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: false,
+    seo: { noindex: true }
+  });
+}
+
+function renderAdminAssetItem(asset: AssetRecord, index: number, count: number, canEdit: boolean) {
+  const kind = asset.storage_key ? "upload" : asset.content !== null ? "inline" : "external";
+  const summary =
+    kind === "upload"
+      ? `Uploaded file • ${escapeHtml(asset.filename ?? "download")} • ${formatBytes(asset.size_bytes ?? 0)}`
+      : kind === "inline"
+        ? `Generated file • ${escapeHtml(asset.filename ?? "download.txt")}`
+        : `External URL${renderLinkHealthBadge(asset)}`;
+  const kindOption = (value: string, label: string) =>
+    `<label style="display:inline-flex;gap:0.35rem;align-items:center;margin-right:1rem;"><input type="radio" name="kind" value="${value}"${
+      kind === value ? " checked" : ""
+    } /> ${label}</label>`;
+
+  if (!canEdit) {
+    return `<li class="asset-item">
+      <div class="asset-row">
+        <div style="display:flex;flex-direction:column;gap:0.15rem;flex:1;">
+          <span>${escapeHtml(asset.label)}</span>
+          <span style="color:var(--muted);font-size:0.8rem;">${summary}</span>
+        </div>
+        ${kind === "inline" ? `<a href="/admin/assets/${asset.id}/revisions">History</a>` : ""}
+      </div>
+    </li>`;
+  }
+
+  return `<li class="asset-item" data-asset-id="${asset.id}">
+      <div class="asset-row">
+        <span class="drag-handle" draggable="true" title="Drag to reorder">⠿</span>
+        <div style="display:flex;flex-direction:column;gap:0.15rem;flex:1;">
+          <span>${escapeHtml(asset.label)}</span>
+          <span style="color:var(--muted);font-size:0.8rem;">${summary}</span>
+        </div>
+        <div style="display:flex;gap:0.5rem;align-items:center;">
+          <form method="post" action="/admin/assets/${asset.id}/move">
+            <input type="hidden" name="direction" value="up" />
+            <button class="ghost" type="submit" title="Move up"${index === 0 ? " disabled" : ""}>↑</button>
+          </form>
+          <form method="post" action="/admin/assets/${asset.id}/move">
+            <input type="hidden" name="direction" value="down" />
+            <button class="ghost" type="submit" title="Move down"${index === count - 1 ? " disabled" : ""}>↓</button>
+          </form>
+          ${kind === "inline" ? `<a href="/admin/assets/${asset.id}/revisions">History</a>` : ""}
+          <form method="post" action="/admin/assets/${asset.id}/delete">
+            <button class="danger" type="submit">Remove</button>
+          </form>
+        </div>
+      </div>
+      <details class="asset-edit">
+        <summary>Edit</summary>
+        <form method="post" action="/admin/assets/${asset.id}" style="margin-top:0.75rem;">
+          <label>Label</label>
+          <input type="text" name="label" value="${escapeHtml(asset.label)}" required />
+          <div style="margin-bottom:1rem;">
+            ${kindOption("inline", "Inline snippet")}
+            ${kindOption("external", "External URL")}
+            ${kind === "upload" ? kindOption("upload", "Keep uploaded file") : ""}
+          </div>
+          <label>Filename</label>
+          <input type="text" name="filename" value="${escapeHtml(asset.filename ?? "")}" placeholder="docker-compose.yml" />
+          <label>Code or text snippet (inline only)</label>
+          <textarea name="content" style="font-family:ui-monospace,monospace;">${escapeHtml(asset.content ?? "")}</textarea>
+          <label>External URL (external only)</label>
+          <input type="url" name="url" value="${kind === "external" ? escapeHtml(asset.url) : ""}" placeholder="https://..." />
+          <button class="primary" type="submit">Save asset</button>
+        </form>
+      </details>
+    </li>`;
+}
+
+const ASSET_REORDER_SCRIPT = `
+  document.querySelectorAll('[data-asset-order]').forEach((list) => {
+    let dragged = null;
+    list.addEventListener('dragstart', (event) => {
+      dragged = event.target.closest('[data-asset-id]');
+      if (!dragged) return;
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setDragImage(dragged, 20, 20);
+      dragged.classList.add('dragging');
+    });
+    list.addEventListener('dragover', (event) => {
+      const over = event.target.closest('[data-asset-id]');
+      if (!dragged || !over || over === dragged) return;
+      event.preventDefault();
+      const rect = over.getBoundingClientRect();
+      const after = event.clientY > rect.top + rect.height / 2;
+      list.insertBefore(dragged, after ? over.nextSibling : over);
+    });
+    list.addEventListener('dragend', async () => {
+      if (!dragged) return;
+      dragged.classList.remove('dragging');
+      dragged = null;
+      const order = [...list.querySelectorAll('[data-asset-id]')].map((item) => item.dataset.assetId);
+      const response = await fetch(list.dataset.assetOrder, {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'x-csrf-token': document.querySelector('meta[name="csrf-token"]')?.content ?? ''
+        },
+        body: new URLSearchParams({ order: order.join(',') })
+      });
+      if (!response.ok) window.location.reload();
+    });
+  });
+`;
+
+const PACK_STATUS_LABELS: Record<PackStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+  archived: "Archived"
+};
+
+function formatUtcTimestamp(value: string) {
+  return `${new Date(parseDbTimestamp(value)).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function renderPackStatusBadge(video: VideoWithAssets) {
+  const status = effectivePackStatus(video);
+  const detail = status === "scheduled" && video.publish_at ? ` · ${formatUtcTimestamp(video.publish_at)}` : "";
+  return `<span class="tag status-${status}">${PACK_STATUS_LABELS[status]}${escapeHtml(detail)}</span>`;
+}
+
+function renderLinkHealthBadge(asset: AssetRecord) {
+  if (!isLinkBroken(asset)) return "";
+  const streak = asset.link_failures > 1 ? ` · ${asset.link_failures} checks in a row` : "";
+  return ` <span class="tag link-broken" title="Last checked ${escapeHtml(formatUtcTimestamp(asset.link_checked_at!))}">Broken · ${escapeHtml(
+    asset.link_error!
+  )}${streak}</span>`;
+}
+
+/** Public packs link to their page; everything else gets the shareable preview link. */
+function renderPackViewLink(video: VideoWithAssets) {
+  return isPackViewable(video)
+    ? `<a href="${videoPageUrl(video.slug)}" target="_blank" rel="noopener">View</a>`
+    : `<a href="${escapeHtml(packPreviewUrl(video))}" target="_blank" rel="noopener" title="Anyone with this link can see the pack before it goes live">Preview link</a>`;
+}
+
+function renderPublicationFields(video?: VideoWithAssets) {
+  const status = video?.status ?? "published";
+  const publishAt = video?.publish_at ? new Date(parseDbTimestamp(video.publish_at)).toISOString().slice(0, 16) : "";
+  return `<div class="flex">
+            <div>
+              <label>Status</label>
+              <select name="status" style="width:100%;margin-bottom:1rem;">${PACK_STATUSES.map(
+                (value) => `<option value="${value}"${value === status ? " selected" : ""}>${PACK_STATUS_LABELS[value]}</option>`
+              ).join("")}</select>
+            </div>
+            <div>
+              <label>Publish at (UTC, required when scheduled)</label>
+              <input type="datetime-local" name="publish_at" value="${publishAt}" />
+            </div>
+          </div>`;
+}
+
+function renderAdminStatusFilter(videos: VideoWithAssets[], current: PackStatus | null) {
+  const counts = new Map<PackStatus, number>();
+  videos.forEach((video) => {
+    const status = effectivePackStatus(video);
+    counts.set(status, (counts.get(status) ?? 0) + 1);
+  });
+  const link = (href: string, label: string, active: boolean) =>
+    active ? `<strong>${label}</strong>` : `<a href="${href}">${label}</a>`;
+  return `<p style="margin:0 0 1.5rem;color:var(--muted);">${[
+    link("/admin", `All (${videos.length})`, current === null),
+    ...PACK_STATUSES.map((status) =>
+      link(`/admin?status=${status}`, `${PACK_STATUS_LABELS[status]} (${counts.get(status) ?? 0})`, current === status)
+    )
+  ].join(" • ")}</p>`;
+}
+
+function renderAdmin(
+  currentUser: SignedInUser,
+  allVideos = listVideosWithAssets(),
+  flash?: string,
+  error?: string,
+  statusFilter: PackStatus | null = null
+) {
+  const canEdit = can(currentUser, "edit");
+  const canDelete = can(currentUser, "delete");
+  const videos = statusFilter ? allVideos.filter((video) => effectivePackStatus(video) === statusFilter) : allVideos;
+  const brokenLinks = allVideos.reduce((count, video) => count + video.assets.filter(isLinkBroken).length, 0);
+  const videoForms = videos
+    .map((video) => {
+      const assets = video.assets
+        .map((asset, index) => renderAdminAssetItem(asset, index, video.assets.length, canEdit))
+        .join("");
+      if (!canEdit) {
+        return `<section class="form-card">
+        <h2 style="margin:0;">${escapeHtml(video.title)} ${renderPackStatusBadge(video)}</h2>
+        <p style="margin:0;color:var(--muted);">Slug: ${escapeHtml(video.slug)}${
+          video.tags.length ? ` • ${escapeHtml(tagsToString(video.tags))}` : ""
+        } • ${renderPackViewLink(video)}</p>
+        <ul class="asset-list">${assets || '<li style="justify-content:flex-start;color:var(--muted);">No assets yet</li>'}</ul>
+      </section>`;
+      }
+
+      return `<section class="form-card">
+        <header style="display:flex;align-items:center;justify-content:space-between;gap:1rem;flex-wrap:wrap;">
+          <div>
+            <h2 style="margin:0;">${escapeHtml(video.title)} ${renderPackStatusBadge(video)}</h2>
+            <p style="margin:0;color:var(--muted);">Slug: ${escapeHtml(video.slug)} • ${renderPackViewLink(video)}</p>
+          </div>
+          ${
+            canDelete
+              ? `<form method="post" action="/admin/videos/${video.id}/delete" onsubmit="return confirm('Delete ${escapeHtml(video.title)}?');">
+            <button class="danger" type="submit">Delete</button>
+          </form>`
+              : ""
+          }
+        </header>
+        <form method="post" action="/admin/videos/${video.id}" style="margin-top:1rem;">
+          <label>Title</label>
+          <input type="text" name="title" value="${escapeHtml(video.title)}" required />
+          <label>Description</label>
+          <textarea name="description">${escapeHtml(video.description ?? "")}</textarea>
+          <div class="flex">
+            <div>
+              <label>Video URL</label>
+              <input type="url" name="video_url" value="${escapeHtml(video.video_url ?? "" )}" />
+            </div>
+            <div>
+              <label>Thumbnail URL (leave blank to auto-fill)</label>
+              <input type="url" name="thumbnail_url" value="${escapeHtml(video.thumbnail_url ?? "" )}" />
+            </div>
+          </div>
+          <label>Tags (comma separated)</label>
+          <input type="text" name="tags" value="${escapeHtml(tagsToString(video.tags))}" />
+          ${renderPublicationFields(video)}
+          <button class="primary" type="submit">Save changes</button>
+        </form>
+        <div style="margin-top:1.5rem;">
+          <h3 style="margin-top:0.25rem;">Assets</h3>
+          <ul class="asset-list" data-asset-order="/admin/videos/${video.id}/assets/order">${
+            assets || '<li style="justify-content:flex-start;color:var(--muted);">No assets yet</li>'
+          }</ul>
+          <form method="post" action="/admin/videos/${video.id}/assets" enctype="multipart/form-data" style="margin-top:1rem;">
+            <label>Label</label>
+            <input type="text" name="label" placeholder="docker-compose.yml" required />
+            <label>Filename (used when generating or uploading a file)</label>
+            <input type="text" name="filename" placeholder="docker-compose.yml" />
+            <label>Code or text snippet</label>
+            <textarea name="content" placeholder="Paste the file content here"></textarea>
+            <label>Upload a file (max ${MAX_UPLOAD_MB} MB)</label>
+            <input type="file" name="file" />
+            <label>External URL (optional)</label>
+            <input type="url" name="url" placeholder="https://..." />
+            <p style="margin:0 0 1rem;color:var(--muted);font-size:0.85rem;">
+              Upload a file (zip, images, archives…), paste a snippet to generate a downloadable file automatically, or leave both blank and provide a URL.
+              Snippets can ask viewers for values with placeholders such as <code>{{DOMAIN|example.com}}</code> or <code>{{DB_PASSWORD:secret||Database password}}</code>.
+            </p>
+            <button class="primary" type="submit">Add asset</button>
+          </form>
+        </div>
+      </section>`;
+    })
+    .join("");
+
+  const body = `
+    <header>
+      <h1 class="hero-title">${escapeHtml(branding.admin.heroTitle)}</h1>
+      <p class="hero-desc">${escapeHtml(branding.admin.heroDescription)}</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${
+        brokenLinks > 0
+          ? `<div class="error">${brokenLinks} external ${brokenLinks === 1 ? "link" : "links"} failed the last check. <a href="/admin/links">See the link report</a></div>`
+          : ""
+      }
+      ${canEdit ? renderNewPackForm() : ""}
+      ${renderAdminStatusFilter(allVideos, statusFilter)}
+      ${videoForms || `<p style="margin:0;color:var(--muted);">No ${statusFilter ? PACK_STATUS_LABELS[statusFilter].toLowerCase() : ""} packs.</p>`}
+    </main>
+    ${canEdit ? `<script>${ASSET_REORDER_SCRIPT}</script>` : ""}
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Admin`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function renderNewPackForm() {
+  return `<section class="form-card">
+        <h2 style="margin-top:0;">${escapeHtml(branding.admin.newPackTitle)}</h2>
+        <p style="margin:0 0 1rem;color:var(--muted);font-size:0.95rem;">${escapeHtml(
+          branding.admin.newPackDescription
+        )}</p>
+        <form method="post" action="/admin/videos">
+          <label>Title</label>
+          <input type="text" name="title" placeholder="Immich photo server" required />
+          <label>Slug (optional)</label>
+          <input type="text" name="slug" placeholder="immich" />
+          <label>Description</label>
+          <textarea name="description" placeholder="Short blurb that shows up on the public page"></textarea>
+          <div class="flex">
+            <div>
+              <label>Video URL</label>
+              <input type="url" name="video_url" placeholder="https://youtube.com/watch?v=..." />
+            </div>
+            <div>
+              <label>Thumbnail URL (leave blank to auto-fill)</label>
+              <input type="url" name="thumbnail_url" placeholder="https://...jpg" />
+            </div>
+          </div>
+          <label>Tags (comma separated)</label>
+          <input type="text" name="tags" placeholder="docker, media, cloud" />
+          ${renderPublicationFields()}
+          <button class="primary" type="submit">Create pack</button>
+        </form>
+      </section>`;
+}
+
+function renderAdminTags(
+  currentUser: SignedInUser,
+  tags: TagWithCount[],
+  { flash, error }: { flash?: string; error?: string } = {}
+) {
+  const canEdit = can(currentUser, "edit");
+  const rows = tags
+    .map((tag) => {
+      if (!canEdit) {
+        return `<li>
+          <a href="${tagPageUrl(tag.name)}" target="_blank" rel="noopener">${escapeHtml(tag.name)}</a>
+          <span style="color:var(--muted);font-size:0.8rem;">${tag.video_count} ${tag.video_count === 1 ? "pack" : "packs"}</span>
+        </li>`;
+      }
+      const mergeOptions = tags
+        .filter((other) => other.id !== tag.id)
+        .map((other) => `<option value="${other.id}">${escapeHtml(other.name)}</option>`)
+        .join("");
+      return `<li>
+          <div style="display:flex;flex-direction:column;gap:0.15rem;min-width:160px;">
+            <a href="${tagPageUrl(tag.name)}" target="_blank" rel="noopener">${escapeHtml(tag.name)}</a>
+            <span style="color:var(--muted);font-size:0.8rem;">${tag.video_count} ${tag.video_count === 1 ? "pack" : "packs"}</span>
+          </div>
+          <div class="flex" style="align-items:center;justify-content:flex-end;">
+            <form method="post" action="/admin/tags/${tag.id}/rename" style="display:flex;gap:0.5rem;align-items:center;">
+              <input type="text" name="name" value="${escapeHtml(tag.name)}" style="margin:0;max-width:180px;" required />
+              <button class="primary" type="submit">Rename</button>
+            </form>
+            ${
+              mergeOptions
+                ? `<form method="post" action="/admin/tags/${tag.id}/merge" style="display:flex;gap:0.5rem;align-items:center;">
+              <select name="target_id" aria-label="Merge into">${mergeOptions}</select>
+              <button class="primary" type="submit">Merge into</button>
+            </form>`
+                : ""
+            }
+            <form method="post" action="/admin/tags/${tag.id}/delete" onsubmit="return confirm('Remove the ${escapeHtml(tag.name)} tag from every pack?');">
+              <button class="danger" type="submit">Delete</button>
+            </form>
+          </div>
+        </li>`;
+    })
+    .join("");
+
+  const body = `
+    <header>
+      <h1 class="hero-title">Tags</h1>
+      <p class="hero-desc">Rename, merge or delete tags across every pack. Renaming to an existing tag merges the two.</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <section class="form-card">
+        <ul class="asset-list">${rows || '<li style="justify-content:flex-start;color:var(--muted);">No tags yet</li>'}</ul>
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Tags`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+const STATS_PERIODS = [7, 30, 90];
+
+function renderAdminStats(currentUser: SignedInUser, stats: DownloadStats) {
+  const peak = Math.max(1, ...stats.daily.map((row) => row.downloads));
+  const bars = stats.daily
+    .map(
+      (row) => `<div class="stats-bar" title="${row.day}: ${row.downloads}" style="height:${Math.max(
+        2,
+        Math.round((row.downloads / peak) * 100)
+      )}%;"></div>`
+    )
+    .join("");
+  const periodLinks = STATS_PERIODS.map((days) =>
+    days === stats.days
+      ? `<strong>${days} days</strong>`
+      : `<a href="/admin/stats?days=${days}">${days} days</a>`
+  ).join(" • ");
+
+  const topVideos = stats.topVideos
+    .map(
+      (row) => `<li>
+          <a href="${videoPageUrl(row.slug)}" target="_blank" rel="noopener">${escapeHtml(row.title)}</a>
+          <span>${row.downloads}</span>
+        </li>`
+    )
+    .join("");
+  const topAssets = stats.topAssets
+    .map(
+      (row) => `<li>
+          <div style="display:flex;flex-direction:column;gap:0.15rem;">
+            <span>${escapeHtml(row.label ?? `Deleted asset #${row.asset_id}`)}</span>
+            <span style="color:var(--muted);font-size:0.8rem;">${escapeHtml(row.video_title)}</span>
+          </div>
+          <span>${row.downloads}</span>
+        </li>`
+    )
+    .join("");
+  const empty = '<li style="justify-content:flex-start;color:var(--muted);">No downloads in this period</li>';
+
+  const body = `
+    <header>
+      <h1 class="hero-title">Downloads</h1>
+      <p class="hero-desc">${stats.total} downloads in the last ${stats.days} days. ${periodLinks}</p>
+    </header>
+    <main>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Daily trend</h2>
+        <div class="stats-chart">${bars}</div>
+        <p style="margin:0.5rem 0 0;color:var(--muted);font-size:0.85rem;display:flex;justify-content:space-between;">
+          <span>${stats.since}</span><span>${stats.daily[stats.daily.length - 1]?.day ?? ""}</span>
+        </p>
+      </section>
+      <div class="flex">
+        <section class="form-card">
+          <h2 style="margin-top:0;">Top packs</h2>
+          <ul class="asset-list">${topVideos || empty}</ul>
+        </section>
+        <section class="form-card">
+          <h2 style="margin-top:0;">Top assets</h2>
+          <ul class="asset-list">${topAssets || empty}</ul>
+        </section>
+      </div>
+      <p style="color:var(--muted);font-size:0.85rem;">Raw numbers: <a href="/admin/stats.json?days=${stats.days}">/admin/stats.json?days=${stats.days}</a></p>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Stats`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function parseStatsPeriod(url: URL) {
+  const days = Number(url.searchParams.get("days") ?? 30);
+  return STATS_PERIODS.includes(days) ? days : 30;
+}
+
+function serveAdminStats(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminStats(currentUser, getDownloadStats(parseStatsPeriod(url)));
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+function serveAdminStatsJson(url: URL) {
+  return jsonResponse(getDownloadStats(parseStatsPeriod(url)));
+}
+
+function describeLinkCheckPolicy() {
+  const { intervalMinutes, unavailableAfter } = linkCheckPolicy;
+  const every =
+    intervalMinutes % 60 === 0
+      ? `${intervalMinutes / 60} ${intervalMinutes === 60 ? "hour" : "hours"}`
+      : describeRetryAfter(intervalMinutes * 60);
+  const schedule =
+    intervalMinutes > 0
+      ? `External links are checked every ${every} in the background.`
+      : "The background checker is off (LINK_CHECK_INTERVAL_MINUTES=0); use Check all now or the CLI.";
+  const publicState =
+    unavailableAfter > 0
+      ? ` After ${unavailableAfter} failed ${unavailableAfter === 1 ? "check" : "checks"} in a row, public pages mark a link as temporarily unavailable.`
+      : "";
+  return schedule + publicState;
+}
+
+function renderAdminLinks(currentUser: SignedInUser, videos: VideoWithAssets[], { flash, error }: { flash?: string; error?: string } = {}) {
+  const links = videos.flatMap((video) =>
+    video.assets.filter((asset) => !isHostedAsset(asset)).map((asset) => ({ video, asset }))
+  );
+  // Broken links first (longest streak on top), then ones not checked yet, then working ones.
+  const rank = ({ asset }: (typeof links)[number]) => (isLinkBroken(asset) ? 0 : asset.link_checked_at ? 2 : 1);
+  links.sort((a, b) => rank(a) - rank(b) || b.asset.link_failures - a.asset.link_failures);
+
+  const rows = links
+    .map(({ video, asset }) => {
+      const state = isLinkBroken(asset)
+        ? `<span class="tag link-broken">${escapeHtml(asset.link_error!)}</span>`
+        : asset.link_checked_at
+          ? `<span class="tag link-ok">${asset.link_status ?? "OK"}</span>`
+          : '<span class="tag link-unchecked">Not checked</span>';
+      return `<tr>
+          <td>${state}</td>
+          <td>${escapeHtml(asset.label)}<br><a href="${videoPageUrl(video.slug)}" target="_blank" rel="noopener" style="font-size:0.8rem;">${escapeHtml(video.title)}</a></td>
+          <td><a href="${escapeHtml(asset.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(asset.url)}</a></td>
+          <td>${asset.link_checked_at ? escapeHtml(formatUtcTimestamp(asset.link_checked_at)) : "—"}</td>
+          <td>${asset.link_failures || "—"}</td>
+        </tr>`;
+    })
+    .join("");
+  const broken = links.filter(({ asset }) => isLinkBroken(asset)).length;
+
+  const body = `
+    <header>
+      <h1 class="hero-title">Link health</h1>
+      <p class="hero-desc">${escapeHtml(describeLinkCheckPolicy())}</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <section class="form-card">
+        <header style="display:flex;align-items:center;justify-content:space-between;gap:1rem;flex-wrap:wrap;">
+          <h2 style="margin:0;">${links.length} external ${links.length === 1 ? "link" : "links"}, ${broken} broken</h2>
+          ${
+            can(currentUser, "edit")
+              ? `<form method="post" action="/admin/links/check"><button class="primary" type="submit">Check all now</button></form>`
+              : ""
+          }
+        </header>
+        ${
+          rows
+            ? `<table class="data-table" style="margin-top:1rem;">
+          <thead><tr><th>Status</th><th>Asset</th><th>URL</th><th>Last checked</th><th>Failures in a row</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>`
+            : '<p style="color:var(--muted);margin:1rem 0 0;">No pack links to an external URL.</p>'
+        }
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Links`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function serveAdminLinks(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminLinks(currentUser, listVideosWithAssets(), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleCheckLinks() {
+  const results = await checkExternalLinks({ all: true });
+  const failing = results.filter((result) => result.error !== null).length;
+  const message = `Checked ${results.length} ${results.length === 1 ? "link" : "links"}: ${
+    failing === 0 ? "all working" : `${failing} failing`
+  }`;
+  return redirect(`/admin/links?flash=${encodeURIComponent(message)}`);
+}
+
+function revisionDownloadUrl(assetId: number, revision: number) {
+  return `/downloads/assets/${assetId}/rev/${revision}`;
+}
+
+function renderDiffCell(line: DiffLine | undefined, side: "left" | "right", type: DiffRow["type"]) {
+  if (!line) {
+    return `<td class="diff-num"></td><td class="diff-empty"></td>`;
+  }
+  const marker = type === "same" ? "" : side === "left" ? " diff-del" : " diff-add";
+  return `<td class="diff-num">${line.number}</td><td class="diff-code${marker}">${escapeHtml(line.text) || "&nbsp;"}</td>`;
+}
+
+function renderDiffTable(rows: DiffRow[]) {
+  if (rows.every((row) => row.type === "same")) {
+    return '<p style="color:var(--muted);margin:0;">These revisions are identical.</p>';
+  }
+  const body = rows
+    .map((row) => {
+      const left = row.type === "added" ? undefined : row.left;
+      const right = row.type === "removed" ? undefined : row.right;
+      return `<tr>${renderDiffCell(left, "left", row.type)}${renderDiffCell(right, "right", row.type)}</tr>`;
+    })
+    .join("");
+  return `<div class="diff-wrap"><table class="diff">${body}</table></div>`;
+}
+
+function renderAssetRevisions({
+  asset,
+  video,
+  revisions,
+  compare,
+  flash,
+  error,
+  currentUser
+}: {
+  asset: AssetRecord;
+  video: VideoWithAssets | null;
+  revisions: AssetRevisionRecord[];
+  compare: { from: AssetRevisionRecord; to: AssetRevisionRecord } | null;
+  flash?: string;
+  error?: string;
+  currentUser: SignedInUser;
+}) {
+  const canEdit = can(currentUser, "edit");
+  const latest = revisions[0]?.revision ?? 0;
+  const rows = revisions
+    .map((revision) => {
+      const isLatest = revision.revision === latest;
+      return `<li>
+          <div style="display:flex;flex-direction:column;gap:0.15rem;">
+            <span><strong>Revision ${revision.revision}</strong>${isLatest ? " • current" : ""}</span>
+            <span style="color:var(--muted);font-size:0.8rem;">${escapeHtml(
+              [revision.created_at, revision.filename, revision.note].filter(Boolean).join(" • ")
+            )}</span>
+          </div>
+          <div style="display:flex;gap:0.75rem;align-items:center;flex-wrap:wrap;justify-content:flex-end;">
+            <a href="${revisionDownloadUrl(asset.id, revision.revision)}">Download</a>
+            ${isLatest ? "" : `<a href="/admin/assets/${asset.id}/revisions?from=${revision.revision}&to=${latest}">Compare with current</a>`}
+            ${
+              isLatest || !canEdit
+                ? ""
+                : `<form method="post" action="/admin/assets/${asset.id}/revisions/${revision.revision}/rollback" onsubmit="return confirm('Restore revision ${revision.revision}?');">
+              <button class="primary" type="submit">Roll back</button>
+            </form>`
+            }
+          </div>
+        </li>`;
+    })
+    .join("");
+
+  const diffSection = compare
+    ? `<section class="form-card">
+        <h2 style="margin-top:0;">Revision ${compare.from.revision} → ${compare.to.revision}</h2>
+        ${
+          compare.from.filename !== compare.to.filename
+            ? `<p style="color:var(--muted);">Filename: ${escapeHtml(compare.from.filename ?? "")} → ${escapeHtml(compare.to.filename ?? "")}</p>`
+            : ""
+        }
+        ${renderDiffTable(diffLines(compare.from.content, compare.to.content))}
+      </section>`
+    : "";
+
+  const body = `
+    <header>
+      <h1 class="hero-title">${escapeHtml(asset.label)}</h1>
+      <p class="hero-desc">${video ? `${escapeHtml(video.title)} • ` : ""}${revisions.length} ${
+        revisions.length === 1 ? "revision" : "revisions"
+      }</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${
+        canEdit
+          ? `<section class="form-card">
+        <h2 style="margin-top:0;">Edit content</h2>
+        <form method="post" action="/admin/assets/${asset.id}/content">
+          <label>Filename</label>
+          <input type="text" name="filename" value="${escapeHtml(asset.filename ?? "")}" required />
+          <label>Content</label>
+          <textarea name="content" style="min-height:280px;font-family:ui-monospace,monospace;">${escapeHtml(asset.content ?? "")}</textarea>
+          <label>Change note (optional)</label>
+          <input type="text" name="note" placeholder="Fix volume path" />
+          <button class="primary" type="submit">Save as new revision</button>
+        </form>
+      </section>`
+          : ""
+      }
+      ${diffSection}
+      <section class="form-card">
+        <h2 style="margin-top:0;">History</h2>
+        <ul class="asset-list">${rows}</ul>
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • ${asset.label} history`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function renderRoleOptions(selected: AdminRole) {
+  return ADMIN_ROLES.map(
+    (role) => `<option value="${role}"${role === selected ? " selected" : ""}>${role}</option>`
+  ).join("");
+}
+
+function renderAdminUsers(
+  currentUser: SignedInUser,
+  users: AdminUserRecord[],
+  {
+    flash,
+    error,
+    issuedPassword
+  }: { flash?: string; error?: string; issuedPassword?: { username: string; password: string } } = {}
+) {
+  const rows = users
+    .map((user) => {
+      const isSelf = user.username === currentUser.username;
+      const status = [
+        user.disabled ? "disabled" : "active",
+        user.must_change_password ? "must change password" : "",
+        user.totp_enabled ? "2FA on" : "no 2FA",
+        isSelf ? "you" : ""
+      ]
+        .filter(Boolean)
+        .join(" • ");
+      return `<li>
+          <div style="display:flex;flex-direction:column;gap:0.15rem;min-width:160px;">
+            <strong>${escapeHtml(user.username)}</strong>
+            <span style="color:var(--muted);font-size:0.8rem;">${user.role} • ${status}</span>
+          </div>
+          ${
+            isSelf
+              ? ""
+              : `<div class="flex" style="align-items:center;justify-content:flex-end;">
+            <form method="post" action="/admin/users/${user.username}/role" style="display:flex;gap:0.5rem;align-items:center;">
+              <select name="role" aria-label="Role">${renderRoleOptions(user.role)}</select>
+              <button class="primary" type="submit">Set role</button>
+            </form>
+            <form method="post" action="/admin/users/${user.username}/reset-password" onsubmit="return confirm('Issue a new temporary password for ${user.username}?');">
+              <button class="ghost" type="submit">Reset password</button>
+            </form>
+            ${
+              user.totp_enabled
+                ? `<form method="post" action="/admin/users/${user.username}/reset-2fa" onsubmit="return confirm('Remove two-factor authentication from ${user.username}? They will need to enroll again.');">
+              <button class="ghost" type="submit">Reset 2FA</button>
+            </form>`
+                : ""
+            }
+            <form method="post" action="/admin/users/${user.username}/${user.disabled ? "enable" : "disable"}">
+              <button class="${user.disabled ? "ghost" : "danger"}" type="submit">${user.disabled ? "Enable" : "Disable"}</button>
+            </form>
+          </div>`
+          }
+        </li>`;
+    })
+    .join("");
+
+  const roleHelp = ADMIN_ROLES.map(
+    (role) => `<li style="border:none;padding:0.2rem 0;justify-content:flex-start;"><strong>${role}</strong>&nbsp;— ${escapeHtml(
+      ROLE_DESCRIPTIONS[role]
+    )}</li>`
+  ).join("");
+
+  const body = `
+    <header>
+      <h1 class="hero-title">Users</h1>
+      <p class="hero-desc">Give each teammate their own login. New accounts must pick their own password on first sign-in.</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${
+        issuedPassword
+          ? `<div class="flash">Temporary password for <strong>${escapeHtml(issuedPassword.username)}</strong>:
+        <code style="background:rgba(254,253,251,0.08);padding:0.15rem 0.4rem;border-radius:0.25rem;">${escapeHtml(
+          issuedPassword.password
+        )}</code><br><span style="font-size:0.85rem;">Share it privately — it won't be shown again.</span></div>`
+          : ""
+      }
+      <section class="form-card">
+        <ul class="asset-list">${rows}</ul>
+      </section>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Add a user</h2>
+        <form method="post" action="/admin/users">
+          <div class="flex">
+            <div>
+              <label>Username</label>
+              <input type="text" name="username" placeholder="jamie" pattern="[a-zA-Z0-9._\\-]{3,32}" required />
+            </div>
+            <div>
+              <label>Role</label>
+              <select name="role" style="width:100%;margin-bottom:1rem;">${renderRoleOptions("editor")}</select>
+            </div>
+          </div>
+          <label>Temporary password (leave blank to generate one)</label>
+          <input type="password" name="password" placeholder="At least ${MIN_PASSWORD_LENGTH} characters" autocomplete="new-password" />
+          <button class="primary" type="submit">Create user</button>
+        </form>
+        <ul class="asset-list" style="margin-top:1rem;">${roleHelp}</ul>
+      </section>
+      ${
+        can(currentUser, "manage_settings")
+          ? `<section class="form-card">
+        <h2 style="margin-top:0;">Security</h2>
+        <form method="post" action="/admin/settings/security">
+          <label style="display:flex;gap:0.5rem;align-items:center;color:var(--text);">
+            <input type="checkbox" name="require_two_factor" value="1"${isTwoFactorRequired() ? " checked" : ""} />
+            Require two-factor authentication for every admin
+          </label>
+          <p style="margin:0.5rem 0 1rem;color:var(--muted);font-size:0.85rem;">Admins without it are sent to the setup page on their next request and can't do anything else until they enroll.</p>
+          <button class="primary" type="submit">Save security settings</button>
+        </form>
+      </section>`
+          : ""
+      }
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Users`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function renderAdminSessions(
+  currentUser: SignedInUser,
+  sessions: SessionRecord[],
+  { flash, error }: { flash?: string; error?: string } = {}
+) {
+  const showOwners = can(currentUser, "manage_users");
+  const otherCount = sessions.filter(
+    (session) => session.id !== currentUser.session_id && (session.username ?? ADMIN_USERNAME) === currentUser.username
+  ).length;
+  const rows = sessions
+    .map((session) => {
+      const isCurrent = session.id === currentUser.session_id;
+      const { browser, os } = parseUserAgent(session.user_agent);
+      const created = parseDbTimestamp(session.created_at);
+      const lastSeen = parseDbTimestamp(session.last_seen_at ?? session.created_at);
+      return `<tr>
+          ${showOwners ? `<td>${escapeHtml(session.username ?? ADMIN_USERNAME)}</td>` : ""}
+          <td>${escapeHtml(browser)} on ${escapeHtml(os)}${isCurrent ? ' <span class="tag">This device</span>' : ""}</td>
+          <td>${escapeHtml(session.ip_address ?? "—")}</td>
+          <td title="${escapeHtml(new Date(created).toISOString())}">${timeAgo(created)}</td>
+          <td title="${escapeHtml(new Date(lastSeen).toISOString())}">${timeAgo(lastSeen)}</td>
+          <td>${
+            isCurrent
+              ? ""
+              : `<form method="post" action="/admin/sessions/${sessionHandle(session.id)}/revoke">
+              <button class="danger" type="submit">Revoke</button>
+            </form>`
+          }</td>
+        </tr>`;
+    })
+    .join("");
+
+  const body = `
+    <header>
+      <h1 class="hero-title">Sessions</h1>
+      <p class="hero-desc">${
+        showOwners ? "Every signed-in browser across all accounts." : "Browsers currently signed in to your account."
+      } Sessions end after ${SESSION_IDLE_MINUTES} minutes of inactivity or ${SESSION_TTL_DAYS} days at most.</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <section class="form-card">
+        <div style="overflow-x:auto;">
+          <table class="data-table">
+            <thead><tr>${showOwners ? "<th>User</th>" : ""}<th>Device</th><th>IP address</th><th>Signed in</th><th>Last active</th><th></th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+        ${
+          otherCount > 0
+            ? `<form method="post" action="/admin/sessions/revoke-others" style="margin-top:1rem;" onsubmit="return confirm('Sign out all your other sessions?');">
+          <button class="danger" type="submit">Sign out everywhere else</button>
+        </form>`
+            : ""
+        }
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Sessions`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function renderAdminTokens(
+  currentUser: SignedInUser,
+  tokens: ApiTokenRecord[],
+  { flash, error, issuedToken }: { flash?: string; error?: string; issuedToken?: { name: string; token: string } } = {}
+) {
+  const showOwners = can(currentUser, "manage_users");
+  const rows = tokens
+    .map((token) => {
+      const created = parseDbTimestamp(token.created_at);
+      const lastUsed = token.last_used_at ? parseDbTimestamp(token.last_used_at) : null;
+      return `<tr>
+          <td>${escapeHtml(token.name)}</td>
+          ${showOwners ? `<td>${escapeHtml(token.username)}</td>` : ""}
+          <td><span class="tag">${token.scope}</span></td>
+          <td><code>${escapeHtml(token.token_prefix)}…</code></td>
+          <td title="${escapeHtml(new Date(created).toISOString())}">${timeAgo(created)}</td>
+          <td${lastUsed ? ` title="${escapeHtml(new Date(lastUsed).toISOString())}"` : ""}>${lastUsed ? timeAgo(lastUsed) : "Never"}</td>
+          <td>
+            <form method="post" action="/admin/tokens/${token.id}/revoke" onsubmit="return confirm('Revoke this token? Scripts using it will stop working.');">
+              <button class="danger" type="submit">Revoke</button>
+            </form>
+          </td>
+        </tr>`;
+    })
+    .join("");
+
+  const body = `
+    <header>
+      <h1 class="hero-title">API tokens</h1>
+      <p class="hero-desc">Personal access tokens for <code>/api/v1</code>. A token acts as you, limited to its scope: read tokens can only fetch, write tokens can also create, edit and delete what your role allows.</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${
+        issuedToken
+          ? `<div class="flash">New token <strong>${escapeHtml(issuedToken.name)}</strong>:
+        <code style="background:rgba(254,253,251,0.08);padding:0.15rem 0.4rem;border-radius:0.25rem;word-break:break-all;">${escapeHtml(
+          issuedToken.token
+        )}</code><br><span style="font-size:0.85rem;">Copy it now — it won't be shown again. Send it as <code>Authorization: Bearer &lt;token&gt;</code>.</span></div>`
+          : ""
+      }
+      <section class="form-card">
+        ${
+          rows
+            ? `<div style="overflow-x:auto;">
+          <table class="data-table">
+            <thead><tr><th>Name</th>${showOwners ? "<th>User</th>" : ""}<th>Scope</th><th>Token</th><th>Created</th><th>Last used</th><th></th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>`
+            : `<p style="margin:0;color:var(--muted);">No tokens yet.</p>`
+        }
+      </section>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Create a token</h2>
+        <form method="post" action="/admin/tokens">
+          <div class="flex">
+            <div>
+              <label>Name</label>
+              <input type="text" name="name" placeholder="Release script" maxlength="80" required />
+            </div>
+            <div>
+              <label>Scope</label>
+              <select name="scope" style="width:100%;margin-bottom:1rem;">
+                <option value="read">read</option>
+                ${can(currentUser, "edit") ? '<option value="write">write</option>' : ""}
+              </select>
+            </div>
+          </div>
+          <button class="primary" type="submit">Create token</button>
+        </form>
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • API tokens`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "pack.created": "Pack created",
+  "pack.published": "Pack published",
+  "pack.updated": "Pack updated",
+  "pack.deleted": "Pack deleted",
+  "asset.created": "Asset added"
+};
+
+const WEBHOOK_DELIVERY_STATUS_CLASSES: Record<WebhookDeliveryStatus, string> = {
+  pending: "status-scheduled",
+  delivered: "link-ok",
+  failed: "link-broken"
+};
+
+function renderAdminWebhooks(
+  currentUser: SignedInUser,
+  webhooks: WebhookRecord[],
+  deliveries: (WebhookDeliveryRecord & { webhook_url: string })[],
+  { flash, error }: { flash?: string; error?: string } = {}
+) {
+  const endpointRows = webhooks
+    .map((webhook) => {
+      const events = webhook.events
+        .split(",")
+        .map((event) => `<span class="tag">${escapeHtml(event)}</span>`)
+        .join(" ");
+      return `<li style="align-items:flex-start;">
+          <div style="display:flex;flex-direction:column;gap:0.35rem;min-width:0;">
+            <strong style="word-break:break-all;">${escapeHtml(webhook.url)}</strong>
+            <span style="color:var(--muted);font-size:0.8rem;">${webhook.description ? `${escapeHtml(webhook.description)} • ` : ""}${
+              webhook.format === "discord" ? "Discord message" : "JSON"
+            }${webhook.active ? "" : " • <strong>Paused</strong>"}</span>
+            <div class="tags">${events}</div>
+            <details><summary style="font-size:0.85rem;">Signing secret</summary><code style="word-break:break-all;">${escapeHtml(
+              webhook.secret
+            )}</code></details>
+          </div>
+          <div style="display:flex;gap:0.5rem;align-items:center;">
+            <form method="post" action="/admin/webhooks/${webhook.id}/${webhook.active ? "pause" : "resume"}">
+              <button class="ghost" type="submit">${webhook.active ? "Pause" : "Resume"}</button>
+            </form>
+            <form method="post" action="/admin/webhooks/${webhook.id}/delete" onsubmit="return confirm('Delete this webhook and its delivery log?');">
+              <button class="danger" type="submit">Delete</button>
+            </form>
+          </div>
+        </li>`;
+    })
+    .join("");
+
+  const deliveryRows = deliveries
+    .map((delivery) => {
+      const created = parseDbTimestamp(delivery.created_at);
+      const response = delivery.error ?? (delivery.response_status ? String(delivery.response_status) : "—");
+      const retry =
+        delivery.status === "pending" && delivery.next_attempt_at
+          ? `<br><span style="color:var(--muted);font-size:0.8rem;">next try ${escapeHtml(formatUtcTimestamp(delivery.next_attempt_at))}</span>`
+          : "";
+      return `<tr>
+          <td title="${escapeHtml(new Date(created).toISOString())}">${timeAgo(created)}</td>
+          <td style="max-width:16rem;">${escapeHtml(delivery.webhook_url)}</td>
+          <td><details><summary>${escapeHtml(delivery.event)}</summary><pre style="white-space:pre-wrap;font-size:0.75rem;">${escapeHtml(
+            JSON.stringify(JSON.parse(delivery.payload), null, 2)
+          )}</pre></details></td>
+          <td><span class="tag ${WEBHOOK_DELIVERY_STATUS_CLASSES[delivery.status]}">${delivery.status}</span>${retry}</td>
+          <td>${delivery.attempts}</td>
+          <td>${
+            delivery.response_body
+              ? `<details><summary>${escapeHtml(response)}</summary><pre style="white-space:pre-wrap;font-size:0.75rem;">${escapeHtml(
+                  delivery.response_body
+                )}</pre></details>`
+              : escapeHtml(response)
+          }</td>
+          <td>
+            <form method="post" action="/admin/webhooks/deliveries/${delivery.id}/redeliver">
+              <button class="ghost" type="submit">Redeliver</button>
+            </form>
+          </td>
+        </tr>`;
+    })
+    .join("");
+
+  const body = `
+    <header>
+      <h1 class="hero-title">Webhooks</h1>
+      <p class="hero-desc">POST a signed JSON event to other services when packs change. Failed deliveries are retried ${
+        webhookPolicy.maxAttempts - 1
+      } times with growing delays (1 minute, then 4, 16, 64…).</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <section class="form-card">
+        <h2 style="margin-top:0;">Endpoints</h2>
+        <ul class="asset-list">${endpointRows || '<li style="justify-content:flex-start;color:var(--muted);">No webhooks yet</li>'}</ul>
+      </section>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Add a webhook</h2>
+        <form method="post" action="/admin/webhooks">
+          <div class="flex">
+            <div>
+              <label>Payload URL</label>
+              <input type="url" name="url" placeholder="https://example.com/hooks/resource-hub" required />
+            </div>
+            <div>
+              <label>Format</label>
+              <select name="format" style="width:100%;margin-bottom:1rem;">
+                <option value="json">JSON event (signed)</option>
+                <option value="discord">Discord message</option>
+              </select>
+            </div>
+          </div>
+          <label>Description (optional)</label>
+          <input type="text" name="description" maxlength="120" placeholder="Announce new packs on Discord" />
+          <label>Events</label>
+          <div style="margin-bottom:1rem;">${WEBHOOK_EVENTS.map(
+            (event) =>
+              `<label style="display:inline-flex;gap:0.35rem;align-items:center;margin-right:1rem;"><input type="checkbox" name="events" value="${event}" checked /> ${WEBHOOK_EVENT_LABELS[event]}</label>`
+          ).join("")}</div>
+          <button class="primary" type="submit">Add webhook</button>
+        </form>
+      </section>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Recent deliveries</h2>
+        ${
+          deliveryRows
+            ? `<div style="overflow-x:auto;">
+          <table class="data-table">
+            <thead><tr><th>Queued</th><th>Endpoint</th><th>Event</th><th>Status</th><th>Attempts</th><th>Response</th><th></th></tr></thead>
+            <tbody>${deliveryRows}</tbody>
+          </table>
+        </div>`
+            : '<p style="margin:0;color:var(--muted);">Nothing delivered yet.</p>'
+        }
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Webhooks`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function renderImportChanges(title: string, changes: ImportChange[]) {
+  if (changes.length === 0) return "";
+  const items = changes
+    .map(
+      (change) => `<li style="justify-content:flex-start;gap:0.5rem;">
+          <span class="tag">${change.type}</span>
+          <strong>${escapeHtml(change.name)}</strong>
+          ${change.detail ? `<span style="color:var(--muted);font-size:0.85rem;">${escapeHtml(change.detail)}</span>` : ""}
+        </li>`
+    )
+    .join("");
+  return `<h3>${title} (${changes.length})</h3><ul class="asset-list">${items}</ul>`;
+}
+
+function renderImportReport(report: ImportReport) {
+  const sections = [
+    renderImportChanges(report.dryRun ? "Would create" : "Created", report.created),
+    renderImportChanges(report.dryRun ? "Would update" : "Updated", report.updated),
+    renderImportChanges(report.dryRun ? "Would delete" : "Deleted", report.deleted),
+    renderImportChanges(report.dryRun ? "Would skip" : "Skipped", report.skipped)
+  ].join("");
+  const warnings = report.warnings.length
+    ? `<div class="error">${report.warnings.map((warning) => escapeHtml(warning)).join("<br>")}</div>`
+    : "";
+  return `<section class="form-card">
+        <h2 style="margin-top:0;">${report.dryRun ? "Dry run" : "Import finished"} — ${report.mode}</h2>
+        ${
+          report.dryRun
+            ? '<p style="color:var(--muted);">Nothing was changed. Upload the archive again without “Dry run” to apply it.</p>'
+            : ""
+        }
+        ${warnings}
+        ${sections || '<p style="margin:0;color:var(--muted);">The archive is empty.</p>'}
+      </section>`;
+}
+
+function renderAdminBackup(
+  currentUser: SignedInUser,
+  { flash, error, report }: { flash?: string; error?: string; report?: ImportReport } = {}
+) {
+  const body = `
+    <header>
+      <h1 class="hero-title">Backup &amp; restore</h1>
+      <p class="hero-desc">Export every pack, tag, asset (including uploaded files) and branding override as one JSON archive, or import an archive from another hub.</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${report ? renderImportReport(report) : ""}
+      <section class="form-card">
+        <h2 style="margin-top:0;">Export</h2>
+        <p style="color:var(--muted);">Admin accounts, sessions, tokens, revision history and download stats are not included.</p>
+        <form method="get" action="/admin/backup/export.json">
+          <button class="primary" type="submit">Download archive</button>
+        </form>
+      </section>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Import</h2>
+        <form method="post" action="/admin/backup/import" enctype="multipart/form-data">
+          <label>Archive file</label>
+          <input type="file" name="archive" accept="application/json,.json" required />
+          <label style="display:flex;gap:0.5rem;align-items:center;color:var(--text);">
+            <input type="radio" name="mode" value="merge" checked />
+            Merge — create or update packs by slug and leave the rest alone
+          </label>
+          <label style="display:flex;gap:0.5rem;align-items:center;color:var(--text);">
+            <input type="radio" name="mode" value="replace" />
+            Replace — also delete packs and tags that aren't in the archive
+          </label>
+          <label style="display:flex;gap:0.5rem;align-items:center;color:var(--text);">
+            <input type="checkbox" name="branding" value="1" checked />
+            Apply branding overrides (takes effect after a restart)
+          </label>
+          <label style="display:flex;gap:0.5rem;align-items:center;color:var(--text);margin-bottom:1rem;">
+            <input type="checkbox" name="dry_run" value="1" checked />
+            Dry run — only report what would change
+          </label>
+          <button class="primary" type="submit">Import</button>
+        </form>
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Backup`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+const LOGIN_FAILURE_REASONS: Record<string, string> = {
+  password: "Wrong password",
+  unknown_user: "Unknown username",
+  disabled: "Disabled account",
+  totp: "Wrong two-factor code"
+};
+
+function renderAdminLogins(
+  currentUser: SignedInUser,
+  throttles: LoginThrottleRecord[],
+  failures: LoginFailureRecord[],
+  { flash, error }: { flash?: string; error?: string } = {}
+) {
+  const now = Date.now();
+  const throttleRows = throttles
+    .map((throttle) => {
+      const lockedUntil = throttle.locked_until ? new Date(throttle.locked_until).getTime() : 0;
+      const status =
+        lockedUntil > now
+          ? `blocked for ${describeRetryAfter(Math.ceil((lockedUntil - now) / 1000))}`
+          : `${throttle.failures} recent ${throttle.failures === 1 ? "failure" : "failures"}`;
+      return `<li>
+          <div style="display:flex;flex-direction:column;gap:0.15rem;">
+            <strong>${escapeHtml(throttle.key)}</strong>
+            <span style="color:var(--muted);font-size:0.8rem;">${throttle.scope === "ip" ? "IP address" : "Username"} • ${status}${
+              throttle.lockouts > 0 ? ` • ${throttle.lockouts} ${throttle.lockouts === 1 ? "lockout" : "lockouts"}` : ""
+            }</span>
+          </div>
+          <form method="post" action="/admin/logins/unlock">
+            <input type="hidden" name="scope" value="${throttle.scope}" />
+            <input type="hidden" name="key" value="${escapeHtml(throttle.key)}" />
+            <button class="primary" type="submit">Unlock</button>
+          </form>
+        </li>`;
+    })
+    .join("");
+
+  const failureRows = failures
+    .map(
+      (failure) => `<tr>
+          <td>${escapeHtml(failure.created_at)}</td>
+          <td>${escapeHtml(failure.username ?? "—")}</td>
+          <td>${escapeHtml(failure.ip_address ?? "—")}</td>
+          <td>${escapeHtml(LOGIN_FAILURE_REASONS[failure.reason] ?? failure.reason)}</td>
+        </tr>`
+    )
+    .join("");
+
+  const { maxUserFailures, maxIpFailures, lockoutMinutes } = loginLockoutPolicy;
+  const body = `
+    <header>
+      <h1 class="hero-title">Sign-in protection</h1>
+      <p class="hero-desc">After ${maxUserFailures} failures for a username (or ${maxIpFailures} from one IP address), sign-in is blocked for ${describeRetryAfter(lockoutMinutes * 60)}, doubling on each repeat.</p>
+    </header>
+    <main>
+      ${flash ? `<div class="flash">${escapeHtml(flash)}</div>` : ""}
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <section class="form-card">
+        <h2 style="margin-top:0;">Throttled usernames and addresses</h2>
+        <ul class="asset-list">${
+          throttleRows || '<li style="justify-content:flex-start;color:var(--muted);">Nothing is throttled right now</li>'
+        }</ul>
+      </section>
+      <section class="form-card">
+        <h2 style="margin-top:0;">Recent failed sign-ins</h2>
+        ${
+          failureRows
+            ? `<table class="data-table">
+          <thead><tr><th>When (UTC)</th><th>Username</th><th>IP address</th><th>Reason</th></tr></thead>
+          <tbody>${failureRows}</tbody>
+        </table>`
+            : '<p style="color:var(--muted);margin:0;">No failed sign-ins recorded.</p>'
+        }
+      </section>
+    </main>
+  `;
+
+  return renderLayout({
+    title: `${branding.siteName} • Sign-ins`,
+    description: branding.metaDescription,
+    body,
+    includeAdminNav: true,
+    currentUser
+  });
+}
+
+function servePasswordChange(url: URL, currentUser: SignedInUser) {
+  const error = url.searchParams.get("error") ?? undefined;
+  const flash = url.searchParams.get("flash") ?? undefined;
+  const html = renderPasswordChange({
+    error,
+    flash,
+    requireChange: Boolean(currentUser.must_change_password),
+    showDefaultPassword: currentUser.username === ADMIN_USERNAME && isUsingDefaultCredentials(),
+    twoFactor: currentUser.must_change_password
+      ? undefined
+      : {
+          enabled: Boolean(currentUser.totp_enabled),
+          required: isTwoFactorRequired(),
+          recoveryCodesLeft: countUnusedRecoveryCodes(currentUser.username)
+        },
+    currentUser
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handlePasswordChange(request: Request, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const current = form.get("current_password")?.toString() ?? "";
+  const next = form.get("new_password")?.toString() ?? "";
+  const confirm = form.get("confirm_password")?.toString() ?? "";
+
+  if (!current || !next || !confirm) {
+    return redirect("/admin/password?error=All+fields+are+required");
+  }
+
+  if (next !== confirm) {
+    return redirect("/admin/password?error=Passwords+do+not+match");
+  }
+
+  if (next.length < MIN_PASSWORD_LENGTH) {
+    return redirect(`/admin/password?error=Password+must+be+at+least+${MIN_PASSWORD_LENGTH}+characters`);
+  }
+
+  if (!passwordsMatch(current, currentUser.password_hash, currentUser.salt)) {
+    await Bun.sleep(150);
+    return redirect("/admin/password?error=Current+password+is+incorrect");
+  }
+
+  const { hash, salt } = derivePasswordHash(next);
+  updateAdminPassword(currentUser.username, hash, salt);
+  deleteOtherSessions(currentUser.username, currentUser.session_id);
+
+  return redirect("/admin?flash=Password+updated.+Your+other+sessions+were+signed+out");
+}
+
+function issueRecoveryCodes() {
+  const codes = generateRecoveryCodes();
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+function serveTwoFactorSetup(url: URL, currentUser: SignedInUser) {
+  if (currentUser.must_change_password) {
+    return redirect("/admin/password");
+  }
+  if (currentUser.totp_enabled) {
+    return redirect("/admin/password?flash=Two-factor+authentication+is+already+on");
+  }
+  let secret = currentUser.totp_secret;
+  if (!secret) {
+    secret = generateTotpSecret();
+    setPendingTotpSecret(currentUser.username, secret);
+  }
+  const html = renderTwoFactorSetup({
+    secret,
+    uri: totpUri({ issuer: branding.siteName, account: currentUser.username, secret }),
+    error: url.searchParams.get("error") ?? undefined,
+    currentUser
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleEnableTwoFactor(request: Request, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const code = form.get("code")?.toString() ?? "";
+  if (currentUser.totp_enabled || !currentUser.totp_secret) {
+    return redirect(TWO_FACTOR_SETUP_PATH);
+  }
+  const counter = verifyTotp(currentUser.totp_secret, code);
+  if (counter === null) {
+    return redirect(`${TWO_FACTOR_SETUP_PATH}?error=That+code+didn't+match.+Check+your+device's+clock+and+try+again`);
+  }
+  const { codes, hashes } = issueRecoveryCodes();
+  enableTotp(currentUser.username, counter, hashes);
+  return new Response(renderRecoveryCodes(codes), { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleRegenerateRecoveryCodes(request: Request, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const code = form.get("code")?.toString() ?? "";
+  if (!currentUser.totp_enabled || !currentUser.totp_secret) {
+    return redirect("/admin/password");
+  }
+  const counter = verifyTotp(currentUser.totp_secret, code, { lastUsedCounter: currentUser.totp_last_counter });
+  if (counter === null) {
+    return redirect("/admin/password?error=Invalid+authenticator+code");
+  }
+  markTotpCounterUsed(currentUser.username, counter);
+  const { codes, hashes } = issueRecoveryCodes();
+  replaceRecoveryCodes(currentUser.username, hashes);
+  return new Response(renderRecoveryCodes(codes), { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleDisableTwoFactor(request: Request, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const password = form.get("password")?.toString() ?? "";
+  const code = form.get("code")?.toString().trim() ?? "";
+  if (!currentUser.totp_enabled || !currentUser.totp_secret) {
+    return redirect("/admin/password");
+  }
+  if (isTwoFactorRequired()) {
+    return redirect("/admin/password?error=Two-factor+authentication+is+required+for+every+admin");
+  }
+  const codeMatches =
+    verifyTotp(currentUser.totp_secret, code, { lastUsedCounter: currentUser.totp_last_counter }) !== null ||
+    (code.length > 6 && consumeRecoveryCode(currentUser.username, hashRecoveryCode(code)));
+  if (!passwordsMatch(password, currentUser.password_hash, currentUser.salt) || !codeMatches) {
+    await Bun.sleep(150);
+    return redirect("/admin/password?error=Password+or+code+is+incorrect");
+  }
+  disableTotp(currentUser.username);
+  return redirect("/admin/password?flash=Two-factor+authentication+turned+off");
+}
+
+function jsonResponse(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    status: init?.status ?? 200,
+    headers: {
+      "content-type": "application/json",
+      ...(init?.headers ?? {})
+    }
+  });
+}
+
+function readPublicationForm(form: FormData, existing?: VideoWithAssets) {
+  const statusInput = form.get("status")?.toString() ?? existing?.status ?? "published";
+  const status = PACK_STATUSES.find((value) => value === statusInput);
+  if (!status) {
+    return { error: "Unknown status" };
+  }
+  return resolvePublication(status, form.get("publish_at")?.toString() ?? "", existing);
+}
+
+async function handleCreateVideo(request: Request) {
+  const form = await request.formData();
+  const title = form.get("title")?.toString().trim();
+  if (!title) {
+    return redirect("/admin?error=Title+is+required");
+  }
+  const slugInput = form.get("slug")?.toString().trim();
+  const slug = slugInput || slugify(title);
+  const videoUrl = form.get("video_url")?.toString().trim() || undefined;
+  const thumbnailUrl = form.get("thumbnail_url")?.toString().trim() || defaultThumbnailUrl(videoUrl);
+  const publication = readPublicationForm(form);
+  if ("error" in publication) {
+    return redirect(`/admin?error=${encodeURIComponent(publication.error)}`);
+  }
+  try {
+    const videoId = createVideo({
+      title,
+      slug,
+      description: form.get("description")?.toString().trim() || undefined,
+      video_url: videoUrl,
+      thumbnail_url: thumbnailUrl,
+      tags: parseTagInput(form.get("tags")?.toString()),
+      ...publication
+    });
+    queueWebhookEvent("pack.created", getVideoById(videoId)!);
+    return redirect("/admin?flash=Video+pack+created");
+  } catch (error) {
+    console.error("Create video failed", error);
+    return redirect("/admin?error=Failed+to+create+video");
+  }
+}
+
+async function handleUpdateVideo(request: Request, videoId: number) {
+  const form = await request.formData();
+  const title = form.get("title")?.toString().trim();
+  if (!title) {
+    return redirect("/admin?error=Title+is+required");
+  }
+  const videoUrl = form.get("video_url")?.toString().trim() || undefined;
+  const thumbnailUrl = form.get("thumbnail_url")?.toString().trim() || defaultThumbnailUrl(videoUrl);
+  const existing = getVideoById(videoId);
+  if (!existing) {
+    return redirect("/admin?error=Pack+not+found");
+  }
+  const publication = readPublicationForm(form, existing);
+  if ("error" in publication) {
+    return redirect(`/admin?error=${encodeURIComponent(publication.error)}`);
+  }
+  try {
+    updateVideo(videoId, {
+      title,
+      description: form.get("description")?.toString().trim() || undefined,
+      video_url: videoUrl,
+      thumbnail_url: thumbnailUrl,
+      tags: parseTagInput(form.get("tags")?.toString())
+    });
+    setVideoPublication(videoId, publication);
+    queueWebhookEvent("pack.updated", getVideoById(videoId)!, { previous: existing });
+    return redirect("/admin?flash=Changes+saved");
+  } catch (error) {
+    console.error("Update video failed", error);
+    return redirect("/admin?error=Update+failed");
+  }
+}
+
+async function handleDeleteVideo(videoId: number) {
+  const video = getVideoById(videoId);
+  try {
+    deleteVideo(videoId);
+    removePackBundles(videoId);
+    if (video) queueWebhookEvent("pack.deleted", video);
+    return redirect("/admin?flash=Video+deleted");
+  } catch (error) {
+    console.error("Delete video failed", error);
+    return redirect("/admin?error=Delete+failed");
+  }
+}
+
+async function handleCreateAsset(request: Request, videoId: number) {
+  const form = await request.formData();
+  const label = form.get("label")?.toString().trim();
+  const urlInput = form.get("url")?.toString().trim();
+  const filenameInput = form.get("filename")?.toString();
+  const contentEntry = form.get("content");
+  const rawContent = typeof contentEntry === "string" ? contentEntry : contentEntry?.toString() ?? "";
+  const normalizedContent = rawContent ? normalizeSnippetContent(rawContent) : "";
+  const hasContent = normalizedContent.trim().length > 0;
+  const normalizedUrl = urlInput && urlInput.length > 0 ? urlInput : undefined;
+  const fileEntry = form.get("file");
+  const uploadFile = fileEntry instanceof File && fileEntry.size > 0 ? fileEntry : null;
+
+  if (!label) {
+    return redirect("/admin?error=Asset+label+is+required");
+  }
+
+  if (!uploadFile && !hasContent && !normalizedUrl) {
+    return redirect("/admin?error=Provide+a+file%2C+content+or+a+URL");
+  }
+
+  if (!uploadFile && !hasContent && normalizedUrl && !isHttpUrl(normalizedUrl)) {
+    return redirect("/admin?error=Enter+an+http(s)+URL");
+  }
+
+  if (uploadFile && uploadFile.size > MAX_UPLOAD_BYTES) {
+    return redirect(`/admin?error=File+exceeds+the+${MAX_UPLOAD_MB}+MB+upload+limit`);
+  }
+
+  try {
+    if (uploadFile) {
+      const filename = sanitizeFilename(filenameInput?.trim() || uploadFile.name || label);
+      const stored = await storeUpload(uploadFile);
+      const assetId = createAsset(videoId, {
+        label,
+        filename,
+        upload: {
+          storage_key: stored.key,
+          mime_type: detectUploadMimeType(filename, uploadFile.type),
+          size_bytes: stored.size
+        }
+      });
+      queueAssetCreated(assetId);
+      return redirect("/admin?flash=File+uploaded");
+    }
+
+    const filename = hasContent ? resolveFilename(label, filenameInput) : undefined;
+    const composeError = hasContent ? composeValidationError(filename, normalizedContent) : null;
+    if (composeError) {
+      return redirect(`/admin?error=${encodeURIComponent(composeError)}`);
+    }
+    const assetId = createAsset(videoId, {
+      label,
+      url: hasContent ? undefined : normalizedUrl,
+      filename,
+      content: hasContent ? normalizedContent : undefined
+    });
+    queueAssetCreated(assetId);
+    return redirect("/admin?flash=Asset+added");
+  } catch (error) {
+    console.error("Asset creation failed", error);
+    return redirect("/admin?error=Could+not+add+asset");
+  }
+}
+
+function queueAssetCreated(assetId: number) {
+  const asset = getAssetById(assetId)!;
+  queueWebhookEvent("asset.created", getVideoById(asset.video_id)!, { asset });
+}
+
+/**
+ * Compose files are checked whenever their text or name changes. Saving other edits (a new
+ * label) to a file that predates the check still works.
+ */
+function inlineUpdateComposeError(asset: AssetRecord, update: AssetUpdate) {
+  if (update.kind !== "inline" || (update.content === asset.content && update.filename === asset.filename)) {
+    return null;
+  }
+  return composeValidationError(update.filename, update.content);
+}
+
+async function handleUpdateAsset(request: Request, assetId: number) {
+  const form = await request.formData();
+  const asset = getAssetById(assetId);
+  if (!asset) {
+    return redirect("/admin?error=Asset+not+found");
+  }
+  const label = form.get("label")?.toString().trim();
+  const kind = form.get("kind")?.toString();
+  const filenameInput = form.get("filename")?.toString();
+  const content = normalizeSnippetContent(form.get("content")?.toString() ?? "");
+  const url = form.get("url")?.toString().trim();
+
+  if (!label) {
+    return redirect("/admin?error=Asset+label+is+required");
+  }
+
+  let update: AssetUpdate;
+  if (kind === "inline") {
+    if (!content.trim()) {
+      return redirect("/admin?error=Inline+assets+need+content");
+    }
+    update = { kind, label, filename: resolveFilename(label, filenameInput), content };
+  } else if (kind === "external") {
+    if (!url) {
+      return redirect("/admin?error=External+assets+need+a+URL");
+    }
+    if (!isHttpUrl(url)) {
+      return redirect("/admin?error=Enter+an+http(s)+URL");
+    }
+    update = { kind, label, url };
+  } else if (kind === "upload" && asset.storage_key) {
+    update = { kind, label, filename: sanitizeFilename(filenameInput?.trim() || asset.filename || label) };
+  } else {
+    return redirect("/admin?error=Choose+an+asset+type");
+  }
+
+  const composeError = inlineUpdateComposeError(asset, update);
+  if (composeError) {
+    return redirect(`/admin?error=${encodeURIComponent(composeError)}`);
+  }
+
+  try {
+    updateAsset(assetId, update);
+    return redirect("/admin?flash=Asset+updated");
+  } catch (error) {
+    console.error("Asset update failed", error);
+    return redirect("/admin?error=Could+not+update+asset");
+  }
+}
+
+async function handleReorderAssets(request: Request, videoId: number) {
+  const form = await request.formData();
+  const wantsJson = (request.headers.get("accept") ?? "").includes("application/json");
+  const order = (form.get("order")?.toString() ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  try {
+    reorderAssets(videoId, order);
+    return wantsJson ? jsonResponse({ ok: true }) : redirect("/admin?flash=Assets+reordered");
+  } catch (error) {
+    console.error("Asset reorder failed", error);
+    return wantsJson
+      ? jsonResponse({ ok: false, error: "Invalid asset order" }, { status: 400 })
+      : redirect("/admin?error=Could+not+reorder+assets");
+  }
+}
+
+async function handleMoveAsset(request: Request, assetId: number) {
+  const form = await request.formData();
+  const direction = form.get("direction")?.toString();
+  if (direction !== "up" && direction !== "down") {
+    return redirect("/admin?error=Invalid+direction");
+  }
+  try {
+    moveAsset(assetId, direction);
+    return redirect("/admin?flash=Assets+reordered");
+  } catch (error) {
+    console.error("Asset move failed", error);
+    return redirect("/admin?error=Could+not+move+asset");
+  }
+}
+
+async function handleDeleteAsset(assetId: number) {
+  try {
+    deleteAsset(assetId);
+    return redirect("/admin?flash=Asset+removed");
+  } catch (error) {
+    console.error("Asset deletion failed", error);
+    return redirect("/admin?error=Could+not+remove+asset");
+  }
+}
+
+function serveAssetRevisions(url: URL, assetId: number, currentUser: SignedInUser) {
+  const asset = getAssetById(assetId);
+  if (!asset || asset.content === null) {
+    return redirect("/admin?error=Asset+not+found");
+  }
+  const revisions = listAssetRevisions(assetId);
+  const byNumber = new Map(revisions.map((revision) => [revision.revision, revision]));
+  const latest = revisions[0];
+  const to = byNumber.get(Number(url.searchParams.get("to"))) ?? latest;
+  const from =
+    byNumber.get(Number(url.searchParams.get("from"))) ??
+    revisions.find((revision) => to && revision.revision < to.revision);
+
+  const html = renderAssetRevisions({
+    asset,
+    video: getVideoById(asset.video_id),
+    revisions,
+    compare: from && to ? { from, to } : null,
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined,
+    currentUser
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleUpdateAssetContent(request: Request, assetId: number) {
+  const form = await request.formData();
+  const base = `/admin/assets/${assetId}/revisions`;
+  const asset = getAssetById(assetId);
+  if (!asset || asset.content === null) {
+    return redirect("/admin?error=Asset+not+found");
+  }
+  const rawContent = form.get("content")?.toString() ?? "";
+  const content = normalizeSnippetContent(rawContent);
+  if (!content.trim()) {
+    return redirect(`${base}?error=Content+cannot+be+empty`);
+  }
+  const filename = resolveFilename(asset.label, form.get("filename")?.toString());
+  const note = form.get("note")?.toString().trim() || undefined;
+  const composeError = inlineUpdateComposeError(asset, { kind: "inline", label: asset.label, filename, content });
+  if (composeError) {
+    return redirect(`${base}?error=${encodeURIComponent(composeError)}`);
+  }
+
+  try {
+    const revision = updateAssetContent(assetId, { filename, content, note });
+    return redirect(revision ? `${base}?flash=Saved+revision+${revision}` : `${base}?flash=No+changes+to+save`);
+  } catch (error) {
+    console.error("Asset content update failed", error);
+    return redirect(`${base}?error=Could+not+save+changes`);
+  }
+}
+
+async function handleRollbackAsset(assetId: number, revision: number) {
+  const base = `/admin/assets/${assetId}/revisions`;
+  if (!getAssetRevision(assetId, revision)) {
+    return redirect(`${base}?error=Revision+not+found`);
+  }
+  try {
+    const created = rollbackAssetContent(assetId, revision);
+    return redirect(
+      created ? `${base}?flash=Restored+revision+${revision}+as+revision+${created}` : `${base}?flash=Already+at+that+version`
+    );
+  } catch (error) {
+    console.error("Asset rollback failed", error);
+    return redirect(`${base}?error=Rollback+failed`);
+  }
+}
+
+function serveAdminTags(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminTags(currentUser, listTagsWithCounts(), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleRenameTag(request: Request, tagId: number) {
+  const form = await request.formData();
+  const name = form.get("name")?.toString() ?? "";
+  if (!getTagById(tagId)) {
+    return redirect("/admin/tags?error=Tag+not+found");
+  }
+  if (!name.trim()) {
+    return redirect("/admin/tags?error=Tag+name+is+required");
+  }
+  try {
+    const survivingId = renameTag(tagId, name);
+    return redirect(survivingId === tagId ? "/admin/tags?flash=Tag+renamed" : "/admin/tags?flash=Tags+merged");
+  } catch (error) {
+    console.error("Rename tag failed", error);
+    return redirect("/admin/tags?error=Could+not+rename+tag");
+  }
+}
+
+async function handleMergeTag(request: Request, tagId: number) {
+  const form = await request.formData();
+  const targetId = Number(form.get("target_id"));
+  if (!getTagById(tagId) || !Number.isInteger(targetId) || !getTagById(targetId)) {
+    return redirect("/admin/tags?error=Tag+not+found");
+  }
+  try {
+    mergeTags(tagId, targetId);
+    return redirect("/admin/tags?flash=Tags+merged");
+  } catch (error) {
+    console.error("Merge tags failed", error);
+    return redirect("/admin/tags?error=Could+not+merge+tags");
+  }
+}
+
+async function handleDeleteTag(tagId: number) {
+  try {
+    deleteTag(tagId);
+    return redirect("/admin/tags?flash=Tag+deleted");
+  } catch (error) {
+    console.error("Delete tag failed", error);
+    return redirect("/admin/tags?error=Could+not+delete+tag");
+  }
+}
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+
+function serveAdminUsers(
+  url: URL,
+  currentUser: SignedInUser,
+  issuedPassword?: { username: string; password: string }
+) {
+  const html = renderAdminUsers(currentUser, listAdminUsers(), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined,
+    issuedPassword
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+/** Demoting or disabling the last active owner would lock everyone out of user management. */
+function isLastActiveOwner(user: AdminUserRecord) {
+  return user.role === "owner" && !user.disabled && countActiveOwners() <= 1;
+}
+
+async function handleCreateUser(request: Request, url: URL, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const username = form.get("username")?.toString().trim().toLowerCase() ?? "";
+  const role = form.get("role")?.toString();
+  const providedPassword = form.get("password")?.toString() ?? "";
+
+  if (!USERNAME_PATTERN.test(username)) {
+    return redirect("/admin/users?error=Usernames+need+3-32+letters,+digits,+dots,+dashes+or+underscores");
+  }
+  if (!isAdminRole(role)) {
+    return redirect("/admin/users?error=Unknown+role");
+  }
+  if (getAdminUser(username)) {
+    return redirect("/admin/users?error=That+username+is+taken");
+  }
+  if (providedPassword && providedPassword.length < MIN_PASSWORD_LENGTH) {
+    return redirect(`/admin/users?error=Password+must+be+at+least+${MIN_PASSWORD_LENGTH}+characters`);
+  }
+
+  const password = providedPassword || generateTemporaryPassword();
+  const { hash, salt } = derivePasswordHash(password);
+  try {
+    createAdminUser({ username, passwordHash: hash, salt, role });
+  } catch (error) {
+    console.error("Create admin user failed", error);
+    return redirect("/admin/users?error=Could+not+create+user");
+  }
+
+  if (providedPassword) {
+    return redirect(`/admin/users?flash=${encodeURIComponent(`Created ${username}`)}`);
+  }
+  // Render instead of redirecting so the generated password never lands in a URL or history entry.
+  return serveAdminUsers(url, currentUser, { username, password });
+}
+
+async function handleUpdateUserRole(request: Request, currentUser: SignedInUser, username: string) {
+  const form = await request.formData();
+  const role = form.get("role")?.toString();
+  const user = getAdminUser(username);
+  if (!user) {
+    return redirect("/admin/users?error=User+not+found");
+  }
+  if (!isAdminRole(role)) {
+    return redirect("/admin/users?error=Unknown+role");
+  }
+  if (user.username === currentUser.username) {
+    return redirect("/admin/users?error=You+can't+change+your+own+role");
+  }
+  if (role !== "owner" && isLastActiveOwner(user)) {
+    return redirect("/admin/users?error=At+least+one+active+owner+is+required");
+  }
+  updateAdminRole(user.username, role);
+  return redirect(`/admin/users?flash=${encodeURIComponent(`${user.username}'s role set to ${role}`)}`);
+}
+
+function handleSetUserDisabled(currentUser: SignedInUser, username: string, disabled: boolean) {
+  const user = getAdminUser(username);
+  if (!user) {
+    return redirect("/admin/users?error=User+not+found");
+  }
+  if (user.username === currentUser.username) {
+    return redirect("/admin/users?error=You+can't+disable+your+own+account");
+  }
+  if (disabled && isLastActiveOwner(user)) {
+    return redirect("/admin/users?error=At+least+one+active+owner+is+required");
+  }
+  setAdminDisabled(user.username, disabled);
+  return redirect(`/admin/users?flash=${encodeURIComponent(`${user.username} ${disabled ? "disabled" : "enabled"}`)}`);
+}
+
+function sessionsVisibleTo(currentUser: SignedInUser) {
+  return listActiveSessions(sessionIdleSince(), can(currentUser, "manage_users") ? undefined : currentUser.username);
+}
+
+function serveAdminSessions(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminSessions(currentUser, sessionsVisibleTo(currentUser), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+function handleRevokeSession(currentUser: SignedInUser, handle: string) {
+  const session = sessionsVisibleTo(currentUser).find((candidate) => sessionHandle(candidate.id) === handle);
+  if (!session) {
+    return redirect("/admin/sessions?error=Session+not+found");
+  }
+  if (session.id === currentUser.session_id) {
+    return redirect("/admin/sessions?error=Use+Logout+to+end+this+session");
+  }
+  deleteSession(session.id);
+  return redirect("/admin/sessions?flash=Session+revoked");
+}
+
+function handleRevokeOtherSessions(currentUser: SignedInUser) {
+  deleteOtherSessions(currentUser.username, currentUser.session_id);
+  return redirect("/admin/sessions?flash=Signed+out+everywhere+else");
+}
+
+function tokensVisibleTo(currentUser: SignedInUser) {
+  return listApiTokens(can(currentUser, "manage_users") ? undefined : currentUser.username);
+}
+
+function serveAdminTokens(url: URL, currentUser: SignedInUser, issuedToken?: { name: string; token: string }) {
+  const html = renderAdminTokens(currentUser, tokensVisibleTo(currentUser), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined,
+    issuedToken
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleCreateApiToken(request: Request, url: URL, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const name = form.get("name")?.toString().trim().slice(0, 80) ?? "";
+  const scope = form.get("scope")?.toString();
+  if (!name) {
+    return redirect("/admin/tokens?error=Token+name+is+required");
+  }
+  if (scope !== "read" && scope !== "write") {
+    return redirect("/admin/tokens?error=Unknown+scope");
+  }
+  if (scope === "write" && !can(currentUser, "edit")) {
+    return redirect("/admin/tokens?error=Your+role+can+only+create+read+tokens");
+  }
+
+  const token = generateApiToken();
+  try {
+    createApiToken({
+      username: currentUser.username,
+      name,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: apiTokenDisplayPrefix(token),
+      scope
+    });
+  } catch (error) {
+    console.error("Create API token failed", error);
+    return redirect("/admin/tokens?error=Could+not+create+token");
+  }
+  // Same as temporary passwords: render rather than redirect so the secret never hits a URL.
+  return serveAdminTokens(url, currentUser, { name, token });
+}
+
+function handleRevokeApiToken(currentUser: SignedInUser, tokenId: number) {
+  const token = getApiTokenById(tokenId);
+  if (!token || (token.username !== currentUser.username && !can(currentUser, "manage_users"))) {
+    return redirect("/admin/tokens?error=Token+not+found");
+  }
+  deleteApiToken(token.id);
+  return redirect(`/admin/tokens?flash=${encodeURIComponent(`Revoked ${token.name}`)}`);
+}
+
+function serveAdminWebhooks(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminWebhooks(currentUser, listWebhooks(), listWebhookDeliveries(), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleCreateWebhook(request: Request) {
+  const form = await request.formData();
+  const url = form.get("url")?.toString().trim() ?? "";
+  const description = form.get("description")?.toString().trim().slice(0, 120) || null;
+  const format = form.get("format")?.toString() === "discord" ? "discord" : "json";
+  const events = form
+    .getAll("events")
+    .map((value) => value.toString())
+    .filter((value): value is WebhookEvent => (WEBHOOK_EVENTS as string[]).includes(value));
+  if (!isHttpUrl(url)) {
+    return redirect("/admin/webhooks?error=Enter+an+http(s)+payload+URL");
+  }
+  if (events.length === 0) {
+    return redirect("/admin/webhooks?error=Pick+at+least+one+event");
+  }
+  try {
+    createWebhook({ url, description, secret: generateWebhookSecret(), events, format });
+  } catch (error) {
+    console.error("Create webhook failed", error);
+    return redirect("/admin/webhooks?error=Could+not+add+webhook");
+  }
+  return redirect("/admin/webhooks?flash=Webhook+added");
+}
+
+function handleWebhookAction(webhookId: number, action: "pause" | "resume" | "delete") {
+  const webhook = getWebhookById(webhookId);
+  if (!webhook) {
+    return redirect("/admin/webhooks?error=Webhook+not+found");
+  }
+  if (action === "delete") {
+    deleteWebhook(webhook.id);
+    return redirect("/admin/webhooks?flash=Webhook+deleted");
+  }
+  setWebhookActive(webhook.id, action === "resume");
+  return redirect(`/admin/webhooks?flash=${action === "resume" ? "Webhook+resumed" : "Webhook+paused"}`);
+}
+
+function handleRedeliverWebhook(deliveryId: number) {
+  const newId = redeliverWebhookDelivery(deliveryId, formatDbTimestamp(Date.now()));
+  if (newId === null) {
+    return redirect("/admin/webhooks?error=Delivery+not+found");
+  }
+  return redirect(`/admin/webhooks?flash=${encodeURIComponent(`Queued delivery #${newId}`)}`);
+}
+
+function serveAdminBackup(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminBackup(currentUser, {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+function serveHubExport() {
+  const stamp = new Date().toISOString().slice(0, 10);
+  return new Response(JSON.stringify(buildHubArchive(), null, 2), {
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "content-disposition": `attachment; filename="resource-hub-${stamp}.json"`,
+      "cache-control": "no-store"
+    }
+  });
+}
+
+async function handleHubImport(request: Request, currentUser: SignedInUser) {
+  const form = await request.formData();
+  const file = form.get("archive");
+  const mode = form.get("mode")?.toString() === "replace" ? "replace" : "merge";
+  if (!(file instanceof File) || file.size === 0) {
+    return redirect("/admin/backup?error=Choose+an+archive+file");
+  }
+
+  let archive: unknown;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    return redirect("/admin/backup?error=That+file+isn't+valid+JSON");
+  }
+
+  try {
+    const report = await importHubArchive(archive, {
+      mode,
+      dryRun: form.get("dry_run") === "1",
+      applyBranding: form.get("branding") === "1"
+    });
+    const html = renderAdminBackup(currentUser, { report });
+    return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+  } catch (error) {
+    console.error("Hub import failed", error);
+    const message = error instanceof Error ? error.message : "Import failed";
+    return redirect(`/admin/backup?error=${encodeURIComponent(message)}`);
+  }
+}
+
+function serveAdminLogins(url: URL, currentUser: SignedInUser) {
+  const html = renderAdminLogins(currentUser, listLoginThrottles(), listRecentLoginFailures(), {
+    flash: url.searchParams.get("flash") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined
+  });
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+async function handleUnlockLogin(request: Request) {
+  const form = await request.formData();
+  const scope = form.get("scope")?.toString();
+  const key = form.get("key")?.toString() ?? "";
+  if ((scope !== "username" && scope !== "ip") || !key) {
+    return redirect("/admin/logins?error=Nothing+to+unlock");
+  }
+  clearLoginThrottle(scope, key);
+  return redirect(`/admin/logins?flash=${encodeURIComponent(`Unlocked ${key}`)}`);
+}
+
+function handleResetUserTwoFactor(currentUser: SignedInUser, username: string) {
+  const user = getAdminUser(username);
+  if (!user) {
+    return redirect("/admin/users?error=User+not+found");
+  }
+  if (user.username === currentUser.username) {
+    return redirect("/admin/password");
+  }
+  disableTotp(user.username);
+  return redirect(`/admin/users?flash=${encodeURIComponent(`Two-factor authentication reset for ${user.username}`)}`);
+}
+
+async function handleSecuritySettings(request: Request) {
+  const form = await request.formData();
+  const required = form.get("require_two_factor") === "1";
+  setSetting(REQUIRE_TWO_FACTOR_SETTING, required ? "1" : "0");
+  return redirect(
+    required
+      ? "/admin/users?flash=Two-factor+authentication+is+now+required"
+      : "/admin/users?flash=Two-factor+authentication+is+now+optional"
+  );
+}
+
+function handleResetUserPassword(url: URL, currentUser: SignedInUser, username: string) {
+  const user = getAdminUser(username);
+  if (!user) {
+    return redirect("/admin/users?error=User+not+found");
+  }
+  if (user.username === currentUser.username) {
+    return redirect("/admin/password");
+  }
+  const password = generateTemporaryPassword();
+  const { hash, salt } = derivePasswordHash(password);
+  updateAdminPassword(user.username, hash, salt, true);
+  deleteSessionsForUser(user.username);
+  return serveAdminUsers(url, currentUser, { username: user.username, password });
+}
+
+/** HEAD (link checkers, download managers) gets the same headers as GET but is never a download. */
+function countsAsDownload(request: Request, access: PackFileAccess) {
+  return access === "public" && request.method !== "HEAD";
+}
+
+function isDownloadMethod(request: Request, { allowPost = false } = {}) {
+  return request.method === "GET" || request.method === "HEAD" || (allowPost && request.method === "POST");
+}
+
+function recordDownloadSafely(asset: AssetRecord) {
+  try {
+    recordAssetDownload(asset);
+  } catch (error) {
+    console.error("Failed to record download", error);
+  }
+}
+
+/**
+ * A ZIP counts as one download of every file inside it, so per-asset and per-pack stats
+ * agree whichever way a viewer downloads. External links aren't in the archive and aren't counted.
+ */
+function recordBundleDownload(video: VideoWithAssets) {
+  video.assets.filter((asset) => asset.content || asset.storage_key).forEach(recordDownloadSafely);
+}
+
+type ByteRange = { start: number; end: number };
+
+/**
+ * Parses a single `bytes=` range. Returns null when the header should be ignored
+ * (absent, malformed or multi-range) and "unsatisfiable" when it falls outside the file.
+ */
+function parseRangeHeader(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) return "unsatisfiable";
+  return { start, end };
+}
+
+async function serveUploadedAsset(request: Request, asset: AssetRecord, filename: string, countDownload: boolean) {
+  const file = Bun.file(uploadPath(asset.storage_key!));
+  if (!(await file.exists())) {
+    console.error(`Upload ${asset.storage_key} for asset ${asset.id} is missing on disk`);
+    return notFound();
+  }
+
+  const size = file.size;
+  const headers: Record<string, string> = {
+    "content-type": asset.mime_type ?? "application/octet-stream",
+    "content-disposition": contentDispositionFilename(filename),
+    "accept-ranges": "bytes",
+    etag: `"${asset.storage_key}"`
+  };
+
+  const ifRange = request.headers.get("if-range");
+  const range = ifRange && ifRange !== headers.etag ? null : parseRangeHeader(request.headers.get("range"), size);
+
+  if (range === "unsatisfiable") {
+    return new Response(null, { status: 416, headers: { ...headers, "content-range": `bytes */${size}` } });
+  }
+
+  if (countDownload && (!range || range.start === 0)) {
+    recordDownloadSafely(asset);
+  }
+
+  if (range) {
+    return new Response(file.slice(range.start, range.end + 1), {
+      status: 206,
+      headers: {
+        ...headers,
+        "content-range": `bytes ${range.start}-${range.end}/${size}`,
+        "content-length": String(range.end - range.start + 1)
+      }
+    });
+  }
+
+  return new Response(file, { headers: { ...headers, "content-length": String(size) } });
+}
+
+type PackFileAccess = "public" | "admin" | "preview";
+
+/**
+ * Files follow their pack's visibility. Until a pack is out, only signed-in admins and holders
+ * of its preview link can fetch its files, and those downloads aren't counted.
+ */
+function packFileAccess(request: Request, videoId: number): PackFileAccess | null {
+  const video = getVideoById(videoId);
+  if (!video) return null;
+  if (isPackViewable(video)) return "public";
+  if (getCurrentUser(request)) return "admin";
+  return requestPreviewToken(request, video) ? "preview" : null;
+}
+
+function packTemplateVariables(video: VideoWithAssets) {
+  return findTemplateVariables(video.assets.map((asset) => asset.content));
+}
+
+type SubmittedTemplate = { values: Map<string, string> } | { errors: string[]; form: FormData };
 
-  return renderLayout({
-    title: `${branding.siteName} • Admin`,
-    description: branding.metaDescription,
-    body,
-    includeAdminNav: true
+/**
+ * Values come from the pack page's form (a POST) and only live for this request. A plain
+ * GET download gets the defaults instead.
+ */
+async function resolveSubmittedTemplate(request: Request, variables: TemplateVariable[]): Promise<SubmittedTemplate> {
+  const form = request.method === "POST" ? await request.formData().catch(() => new FormData()) : null;
+  const result = resolveTemplateValues(
+    variables,
+    (name) => {
+      const value = form?.get(name);
+      return typeof value === "string" ? value : null;
+    },
+    { requireAll: form !== null }
+  );
+  return "errors" in result ? { errors: result.errors, form: form ?? new FormData() } : result;
+}
+
+function templateErrorPage(request: Request, videoId: number, template: { errors: string[]; form: FormData }) {
+  const video = getVideoById(videoId)!;
+  return new Response(renderVideoPage(video, publicBaseUrl(request), template, requestPreviewToken(request, video)), {
+    status: 400,
+    headers: { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" }
+  });
+}
+
+async function handleAssetDownload(request: Request, assetId: number) {
+  const asset = getAssetById(assetId);
+  if (!asset || !isHostedAsset(asset)) {
+    return notFound();
+  }
+  const access = packFileAccess(request, asset.video_id);
+  if (!access) {
+    return notFound();
+  }
+  const filename = asset.filename && asset.filename.trim().length > 0 ? asset.filename : `asset-${assetId}.txt`;
+  if (asset.storage_key) {
+    return serveUploadedAsset(request, asset, filename, countsAsDownload(request, access));
+  }
+  let content = asset.content!;
+  const templated = hasTemplateVariables(content);
+  if (templated) {
+    // Types and defaults may be spelled out in another file of the same pack.
+    const template = await resolveSubmittedTemplate(request, packTemplateVariables(getVideoById(asset.video_id)!));
+    if ("errors" in template) {
+      return templateErrorPage(request, asset.video_id, template);
+    }
+    content = renderTemplate(content, template.values);
+  }
+  if (countsAsDownload(request, access)) {
+    recordDownloadSafely(asset);
+  }
+  return new Response(content, {
+    headers: {
+      "content-type": detectMimeTypeFromFilename(filename),
+      "content-disposition": contentDispositionFilename(filename),
+      ...(templated ? { "cache-control": "no-store" } : {})
+    }
+  });
+}
+
+async function handlePackBundle(request: Request, slug: string) {
+  const video = getVideoBySlug(slug);
+  const access = video ? packFileAccess(request, video.id) : null;
+  if (!video || !access) {
+    return notFoundPage("That download pack doesn't exist (or has been removed).");
+  }
+  const variables = packTemplateVariables(video);
+  if (variables.length > 0) {
+    // Filled-in bundles hold the viewer's values (and fresh random secrets), so they are built per request.
+    const template = await resolveSubmittedTemplate(request, variables);
+    if ("errors" in template) {
+      return templateErrorPage(request, video.id, template);
+    }
+    if (countsAsDownload(request, access)) recordBundleDownload(video);
+    return new Response(buildPackArchive(video, template.values), {
+      headers: {
+        "content-type": "application/zip",
+        "content-disposition": contentDispositionFilename(`${video.slug}.zip`),
+        "cache-control": "no-store"
+      }
+    });
+  }
+  const bundle = await getPackBundle(video);
+  const headers = {
+    "content-type": "application/zip",
+    "content-disposition": contentDispositionFilename(bundle.filename),
+    etag: bundle.etag
+  };
+  if (request.headers.get("if-none-match") === bundle.etag) {
+    return new Response(null, { status: 304, headers });
+  }
+  if (countsAsDownload(request, access)) recordBundleDownload(video);
+  return new Response(Bun.file(bundle.path), { headers });
+}
+
+function handleRevisionDownload(request: Request, assetId: number, revisionNumber: number) {
+  const asset = getAssetById(assetId);
+  const revision = asset ? getAssetRevision(assetId, revisionNumber) : null;
+  const access = asset ? packFileAccess(request, asset.video_id) : null;
+  if (!asset || !revision || !access) {
+    return notFound();
+  }
+  if (countsAsDownload(request, access)) {
+    recordDownloadSafely(asset);
+  }
+  const filename = revision.filename && revision.filename.trim().length > 0 ? revision.filename : `asset-${assetId}.txt`;
+  return new Response(revision.content, {
+    headers: {
+      "content-type": detectMimeTypeFromFilename(filename),
+      "content-disposition": contentDispositionFilename(filename)
+    }
+  });
+}
+
+/** Previews and raw views are for reading, so neither counts as a download. */
+function inlineAssetForViewing(request: Request, assetId: number) {
+  const asset = getAssetById(assetId);
+  if (!asset || !hasAssetPreview(asset) || !packFileAccess(request, asset.video_id)) {
+    return null;
+  }
+  const video = getVideoById(asset.video_id);
+  return video ? { asset, video, previewToken: requestPreviewToken(request, video) } : null;
+}
+
+function handleAssetPreview(request: Request, assetId: number) {
+  const found = inlineAssetForViewing(request, assetId);
+  if (!found) {
+    return notFoundPage("That file doesn't exist (or has been removed).");
+  }
+  return new Response(renderAssetPreviewPage(found.video, found.asset, found.previewToken), {
+    headers: { "content-type": "text/html; charset=utf-8" }
+  });
+}
+
+function handleAssetRaw(request: Request, assetId: number) {
+  const found = inlineAssetForViewing(request, assetId);
+  if (!found) {
+    return notFound();
+  }
+  return new Response(found.asset.content, {
+    headers: {
+      "content-type": "text/plain; charset=utf-8",
+      "x-content-type-options": "nosniff"
+    }
   });
 }
 
-function servePasswordChange(url: URL) {
+function handleAssetRedirect(request: Request, assetId: number) {
+  const asset = getAssetById(assetId);
+  const access = asset ? packFileAccess(request, asset.video_id) : null;
+  if (!asset || !access) {
+    return notFoundPage("That download no longer exists.");
+  }
+  if (countsAsDownload(request, access)) {
+    recordDownloadSafely(asset);
+  }
+  return redirect(asset.url);
+}
+
+async function withAuth(
+  request: Request,
+  handler: (user: SignedInUser) => Promise<Response> | Response,
+  options?: { allowDuringAccountSetup?: boolean; permission?: Permission }
+) {
+  const user = getCurrentUser(request);
+  if (!user) {
+    return redirect("/admin?error=Please+login");
+  }
+  if (isMutatingRequest(request)) {
+    const submitted = request.headers.get(CSRF_HEADER) ?? (await readFormCsrfToken(request));
+    if (!submitted || !tokensMatch(submitted, user.csrf_token)) {
+      return csrfFailure(request, "This form has expired or didn't come from this site. Reload the page and try again.");
+    }
+  }
+  if (!options?.allowDuringAccountSetup) {
+    if (user.must_change_password) {
+      return redirect("/admin/password");
+    }
+    if (needsTwoFactorSetup(user)) {
+      return redirect(TWO_FACTOR_SETUP_PATH);
+    }
+  }
+  if (!can(user, options?.permission ?? "view")) {
+    return redirect("/admin?error=Your+role+does+not+allow+that+action");
+  }
+  return handler(user);
+}
+
+function serveAdmin(request: Request, url: URL) {
   const error = url.searchParams.get("error") ?? undefined;
   const flash = url.searchParams.get("flash") ?? undefined;
-  const html = renderPasswordChange({
-    error,
-    flash,
-    requireChange: adminMustChangePassword()
+  const user = getCurrentUser(request);
+  if (!user) {
+    return new Response(renderLogin(error ?? undefined), {
+      headers: { "content-type": "text/html; charset=utf-8" }
+    });
+  }
+  if (user.must_change_password) {
+    return redirect("/admin/password");
+  }
+  if (needsTwoFactorSetup(user)) {
+    return redirect(TWO_FACTOR_SETUP_PATH);
+  }
+  const statusParam = url.searchParams.get("status");
+  const statusFilter = PACK_STATUSES.find((status) => status === statusParam) ?? null;
+  const html = renderAdmin(user, listVideosWithAssets(), flash ?? undefined, error ?? undefined, statusFilter);
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+/** Packs that are live right now, most recently published first. */
+function listPublicVideos() {
+  const now = Date.now();
+  return listVideosWithAssets()
+    .filter((video) => isPackListed(video, now))
+    .sort((a, b) => packPublishedAt(b) - packPublishedAt(a));
+}
+
+/** Tag counts as the public sees them, ignoring drafts, scheduled and archived packs. */
+function listPublicTagCounts(videos = listPublicVideos()): TagWithCount[] {
+  const counts = new Map<string, number>();
+  videos.forEach((video) => video.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return listTagsWithCounts().map((tag) => ({ ...tag, video_count: counts.get(tag.name) ?? 0 }));
+}
+
+type SearchResult = { video: VideoWithAssets; hit: SearchHit };
+
+function runPublicSearch(query: string, limit?: number): SearchResult[] {
+  const videos = new Map(listPublicVideos().map((video) => [video.id, video]));
+  return searchVideos(query, limit).flatMap((hit) => {
+    const video = videos.get(hit.video_id);
+    return video ? [{ video, hit }] : [];
   });
+}
+
+function servePublic(request: Request, url: URL) {
+  const query = url.searchParams.get("q")?.trim();
+  if (query) {
+    const html = renderSearchResults(query, runPublicSearch(query));
+    return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+  }
+  const legacyTag = url.searchParams.get("tag")?.trim();
+  if (legacyTag) {
+    return redirect(tagPageUrl(legacyTag));
+  }
+  const html = renderPublic(publicBaseUrl(request));
   return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
 }
 
-async function handlePasswordChange(request: Request) {
-  const form = await request.formData();
-  const current = form.get("current_password")?.toString() ?? "";
-  const next = form.get("new_password")?.toString() ?? "";
-  const confirm = form.get("confirm_password")?.toString() ?? "";
+function serveTagIndex(request: Request) {
+  return new Response(renderTagIndex(listPublicTagCounts(), publicBaseUrl(request)), {
+    headers: { "content-type": "text/html; charset=utf-8" }
+  });
+}
 
-  if (!current || !next || !confirm) {
-    return redirect("/admin/password?error=All+fields+are+required");
+function serveTagPage(request: Request, name: string) {
+  const tag = getTagByName(name);
+  if (!tag) {
+    return notFoundPage("No packs use that tag.");
   }
+  const videos = listPublicVideos().filter((video) => video.tags.includes(tag.name));
+  return new Response(renderTagPage(tag.name, videos, publicBaseUrl(request)), {
+    headers: { "content-type": "text/html; charset=utf-8" }
+  });
+}
 
-  if (next !== confirm) {
-    return redirect("/admin/password?error=Passwords+do+not+match");
+/**
+ * Preview links carry the pack's own token, so they can be shared with people who can't sign in.
+ * Returns the token when the request has a valid one for a pack that isn't out yet.
+ */
+function requestPreviewToken(request: Request, video: VideoWithAssets) {
+  if (isPackViewable(video)) return null;
+  const token = new URL(request.url).searchParams.get("preview");
+  return token !== null && tokensMatch(token, video.preview_token) ? video.preview_token : null;
+}
+
+function packPreviewUrl(video: VideoWithAssets) {
+  return `${videoPageUrl(video.slug)}?preview=${video.preview_token}`;
+}
+
+function serveVideoPage(request: Request, slug: string) {
+  const video = getVideoBySlug(slug);
+  const previewToken = video ? requestPreviewToken(request, video) : null;
+  if (!video || (!isPackViewable(video) && !previewToken && !getCurrentUser(request))) {
+    return notFoundPage("That download pack doesn't exist (or has been removed).");
   }
+  return new Response(renderVideoPage(video, publicBaseUrl(request), null, previewToken), {
+    headers: {
+      "content-type": "text/html; charset=utf-8",
+      // The settings form carries freshly generated secrets that no cache should hand to someone else.
+      ...(packTemplateVariables(video).some(isGeneratedSecret) ? { "cache-control": "no-store" } : {})
+    }
+  });
+}
 
-  if (next.length < MIN_PASSWORD_LENGTH) {
-    return redirect(`/admin/password?error=Password+must+be+at+least+${MIN_PASSWORD_LENGTH}+characters`);
+function serveApi(url: URL) {
+  return jsonResponse({ videos: serializeVideosForApi(url) });
+}
+
+function serveSearchApi(url: URL) {
+  const query = url.searchParams.get("q")?.trim() ?? "";
+  if (!query) {
+    return jsonResponse({ error: "Missing q parameter" }, { status: 400 });
+  }
+  const limitParam = Number(url.searchParams.get("limit") ?? 20);
+  const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 50) : 20;
+  const results = runPublicSearch(query, limit).map(({ video, hit }) => ({
+    score: hit.score,
+    highlights: {
+      title: highlightMatches(hit.title),
+      excerpt: highlightMatches(hit.excerpt)
+    },
+    video: serializeVideoForApi(video)
+  }));
+  return jsonResponse({ query, results });
+}
+
+const FEED_ITEM_LIMIT = 50;
+
+function feedAttachmentType(asset: AssetRecord) {
+  if (asset.mime_type) return asset.mime_type;
+  if (asset.content !== null) return detectMimeTypeFromFilename(asset.filename ?? "");
+  // External links are usually either a file (guessable from its name) or a web page.
+  try {
+    return detectUploadMimeType(new URL(asset.url).pathname.split("/").pop() ?? "", "text/html");
+  } catch {
+    return "text/html";
   }
+}
 
-  const admin = getAdminUser(ADMIN_USERNAME);
-  if (!admin || !passwordsMatch(current, admin.password_hash, admin.salt)) {
-    await Bun.sleep(150);
-    return redirect("/admin/password?error=Current+password+is+incorrect");
+function buildFeedItem(video: VideoWithAssets, origin: string): FeedItem {
+  const absolute = (path: string) => absoluteUrl(path, origin);
+  // Enclosure sizes describe what a plain download returns, so placeholders are filled in the same way.
+  const defaults = resolveTemplateValues(packTemplateVariables(video), () => null, { requireAll: false });
+  const plainValues = "values" in defaults ? defaults.values : new Map<string, string>();
+  const url = absolute(videoPageUrl(video.slug));
+  const links = video.assets.map(
+    (asset) => `<li><a href="${escapeHtml(absolute(publicAssetUrl(asset)))}">${escapeHtml(asset.label)}</a></li>`
+  );
+  if (hasBundleableAssets(video)) {
+    links.push(`<li><a href="${escapeHtml(absolute(packBundleUrl(video.slug)))}">All files (.zip)</a></li>`);
   }
+  const contentHtml = [
+    video.description ? `<p>${escapeHtml(video.description)}</p>` : "",
+    links.length > 0 ? `<ul>${links.join("")}</ul>` : ""
+  ].join("");
 
-  const { hash, salt } = derivePasswordHash(next);
-  updateAdminPassword(ADMIN_USERNAME, hash, salt);
+  return {
+    id: url,
+    url,
+    title: video.title,
+    summary: video.description ?? "",
+    contentHtml,
+    imageUrl: video.thumbnail_url ? absolute(video.thumbnail_url) : null,
+    tags: video.tags,
+    published: packPublishedAt(video),
+    updated: Math.max(packPublishedAt(video), parseDbTimestamp(video.updated_at)),
+    attachments: video.assets.map((asset) => ({
+      url: absolute(publicAssetUrl(asset)),
+      title: asset.label,
+      mimeType: feedAttachmentType(asset),
+      sizeBytes: asset.storage_key
+        ? asset.size_bytes
+        : asset.content !== null
+          ? Buffer.byteLength(renderTemplate(asset.content, plainValues))
+          : null
+    }))
+  };
+}
+
+type FeedFormat = keyof typeof FEED_CONTENT_TYPES;
+
+const FEED_BUILDERS: Record<FeedFormat, (feed: FeedDocument) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed
+};
+
+/** Newest packs first; the ETag covers the rendered body, so branding and asset edits also invalidate caches. */
+function serveFeed(
+  request: Request,
+  format: FeedFormat,
+  videos: VideoWithAssets[],
+  { title, description, homePath }: { title: string; description: string; homePath: string }
+) {
+  const origin = publicBaseUrl(request);
+  const feed: FeedDocument = {
+    title,
+    description,
+    homeUrl: absoluteUrl(homePath, origin),
+    selfUrl: absoluteUrl(new URL(request.url).pathname, origin),
+    items: videos.slice(0, FEED_ITEM_LIMIT).map((video) => buildFeedItem(video, origin))
+  };
+  const body = FEED_BUILDERS[format](feed);
+  const etag = feedEtag(body);
+  const lastModified = feedLastModified(feed);
+  const headers: Record<string, string> = {
+    "content-type": FEED_CONTENT_TYPES[format],
+    "cache-control": "public, max-age=300",
+    etag
+  };
+  if (lastModified !== null) {
+    headers["last-modified"] = new Date(lastModified).toUTCString();
+  }
+  if (isNotModified(request, etag, lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { headers });
+}
 
-  return redirect("/admin?flash=Password+updated");
+function serveSitemap(request: Request) {
+  const baseUrl = publicBaseUrl(request);
+  const videos = listPublicVideos();
+  const day = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+  const newest = videos.length > 0 ? Math.max(...videos.map((video) => parseDbTimestamp(video.updated_at))) : null;
+  const pages: { path: string; lastModified?: number | null }[] = [
+    { path: "/", lastModified: newest },
+    { path: "/tags" },
+    ...listPublicTagCounts(videos)
+      .filter((tag) => tag.video_count > 0)
+      .map((tag) => ({ path: tagPageUrl(tag.name) })),
+    ...videos.map((video) => ({ path: videoPageUrl(video.slug), lastModified: parseDbTimestamp(video.updated_at) }))
+  ];
+  const urls = pages.map(
+    ({ path, lastModified }) =>
+      `  <url><loc>${escapeHtml(absoluteUrl(path, baseUrl))}</loc>${lastModified ? `<lastmod>${day(lastModified)}</lastmod>` : ""}</url>`
+  );
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+  return new Response(body, { headers: { "content-type": "application/xml; charset=utf-8" } });
 }
 
-function jsonResponse(data: unknown, init?: ResponseInit) {
-  return new Response(JSON.stringify(data), {
-    status: init?.status ?? 200,
-    headers: {
-      "content-type": "application/json",
-      ...(init?.headers ?? {})
-    }
+/** Keeps crawlers out of the admin, the API and the download endpoints, which would skew download counts. */
+function serveRobots(request: Request) {
+  const body = [
+    "User-agent: *",
+    "Disallow: /admin",
+    "Disallow: /api/",
+    "Disallow: /downloads/",
+    "Disallow: /go/",
+    "Disallow: /?q=",
+    "",
+    `Sitemap: ${absoluteUrl("/sitemap.xml", publicBaseUrl(request))}`,
+    ""
+  ].join("\n");
+  return new Response(body, { headers: { "content-type": "text/plain; charset=utf-8" } });
+}
+
+function serveSiteFeed(request: Request, format: FeedFormat) {
+  return serveFeed(request, format, listPublicVideos(), {
+    title: branding.siteName,
+    description: branding.metaDescription,
+    homePath: "/"
   });
 }
 
-async function handleCreateVideo(request: Request) {
-  const form = await request.formData();
-  const title = form.get("title")?.toString().trim();
-  if (!title) {
-    return redirect("/admin?error=Title+is+required");
+function serveTagFeed(request: Request, name: string) {
+  const tag = getTagByName(name);
+  if (!tag) {
+    return notFound();
   }
-  const slugInput = form.get("slug")?.toString().trim();
-  const slug = slugInput || slugify(title);
-  const videoUrl = form.get("video_url")?.toString().trim() || undefined;
-  let thumbnailUrl = form.get("thumbnail_url")?.toString().trim() || undefined;
-  if (!thumbnailUrl) {
-    const videoId = extractYouTubeVideoId(videoUrl);
-    if (videoId) {
-      thumbnailUrl = youtubeThumbnailUrl(videoId);
+  return serveFeed(
+    request,
+    "rss",
+    listPublicVideos().filter((video) => video.tags.includes(tag.name)),
+    {
+      title: `#${tag.name} • ${branding.siteName}`,
+      description: `Packs tagged ${tag.name} on ${branding.siteName}.`,
+      homePath: tagPageUrl(tag.name)
     }
+  );
+}
+
+function serializeVideoForApi(video: VideoWithAssets) {
+  const { preview_token, announced_at, ...rest } = video;
+  return {
+    ...rest,
+    bundle_url: hasBundleableAssets(video) ? packBundleUrl(video.slug) : null,
+    assets: video.assets.map(serializeAssetForApi)
+  };
+}
+
+function serializeAssetForApi(asset: AssetRecord) {
+  const { content, compose_summary, link_checked_at, link_status, link_error, link_failures, ...rest } = asset;
+  return { ...rest, download_url: publicAssetUrl(asset), compose: readComposeSummary(compose_summary) };
+}
+
+/** `?image=postgres` keeps packs whose compose files use that image (see imageMatches). */
+function serializeVideosForApi(url: URL) {
+  const image = url.searchParams.get("image")?.trim();
+  const videos = listPublicVideos();
+  return (image ? videos.filter((video) => packComposeImages(video).some((candidate) => imageMatches(candidate, image))) : videos).map(
+    serializeVideoForApi
+  );
+}
+
+type ApiFieldErrors = Record<string, string>;
+type ApiBody = Record<string, unknown>;
+
+function apiError(status: number, message: string, extra?: Record<string, unknown>, headers?: HeadersInit) {
+  return jsonResponse({ error: message, ...extra }, { status, headers });
+}
+
+function apiValidationError(fields: ApiFieldErrors) {
+  return apiError(422, "Validation failed", { fields });
+}
+
+/**
+ * Resolves the bearer token to its owner. A token can never do more than its owner's role
+ * allows, and read tokens are limited to "view" whatever the role.
+ */
+async function withApiToken(
+  request: Request,
+  permission: Permission,
+  handler: (user: AdminUserRecord) => Promise<Response> | Response
+) {
+  const challenge = { "www-authenticate": 'Bearer realm="api"' };
+  const match = (request.headers.get("authorization") ?? "").match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return apiError(401, "Missing bearer token", undefined, challenge);
+  }
+  const token = findApiTokenByHash(hashApiToken(match[1]));
+  const user = token ? getAdminUser(token.username) : null;
+  if (!token || !user || user.disabled) {
+    return apiError(401, "Invalid or revoked token", undefined, challenge);
+  }
+  touchApiToken(token.id, new Date().toISOString());
+  if (permission !== "view" && token.scope !== "write") {
+    return apiError(403, "This token is read-only");
   }
+  if (!can(user, permission)) {
+    return apiError(403, "Your role does not allow that action");
+  }
+  return handler(user);
+}
+
+async function readApiBody(request: Request): Promise<ApiBody | null> {
   try {
-    createVideo({
-      title,
+    const body = await request.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? (body as ApiBody) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** undefined when the field is absent, null when it is explicitly cleared. */
+function readApiString(body: ApiBody, key: string, fields: ApiFieldErrors, { trim = true } = {}) {
+  const value = body[key];
+  if (value === undefined || value === null) return value;
+  if (typeof value !== "string") {
+    fields[key] = "Must be a string";
+    return undefined;
+  }
+  return trim ? value.trim() : value;
+}
+
+/** Returns undefined when an update leaves both `status` and `publish_at` out; `publish_at: null` clears the time. */
+function readApiPublication(body: ApiBody, fields: ApiFieldErrors, existing?: VideoWithAssets) {
+  const statusInput = readApiString(body, "status", fields);
+  const publishAt = readApiString(body, "publish_at", fields);
+  if (fields.status || fields.publish_at || (existing && statusInput === undefined && publishAt === undefined)) {
+    return undefined;
+  }
+  const status = statusInput ? PACK_STATUSES.find((value) => value === statusInput) : existing?.status ?? "published";
+  if (!status) {
+    fields.status = `Must be one of ${PACK_STATUSES.join(", ")}`;
+    return undefined;
+  }
+  const publication = resolvePublication(status, publishAt === null ? "" : publishAt, existing);
+  if ("error" in publication) {
+    fields.publish_at = publication.error;
+    return undefined;
+  }
+  return publication;
+}
+
+function readApiUrl(body: ApiBody, key: string, fields: ApiFieldErrors) {
+  const value = readApiString(body, key, fields);
+  if (!value || isHttpUrl(value)) return value;
+  fields[key] = "Must be an http(s) URL";
+  return undefined;
+}
+
+function readApiTags(body: ApiBody, fields: ApiFieldErrors) {
+  const value = body.tags;
+  if (value === undefined) return undefined;
+  if (value === null) return [];
+  if (typeof value === "string") return parseTagInput(value);
+  if (Array.isArray(value) && value.every((tag) => typeof tag === "string")) return parseTagInput(value.join(","));
+  fields.tags = "Must be an array of strings or a comma-separated string";
+  return undefined;
+}
+
+function findApiVideo(ref: string) {
+  return /^\d+$/.test(ref) ? getVideoById(Number(ref)) : getVideoBySlug(ref);
+}
+
+function serveApiV1Videos(url: URL) {
+  return jsonResponse({ videos: serializeVideosForApi(url) });
+}
+
+function serveApiV1Video(ref: string) {
+  const video = findApiVideo(ref);
+  return video ? jsonResponse({ video: serializeVideoForApi(video) }) : apiError(404, "Video not found");
+}
+
+async function handleApiCreateVideo(request: Request) {
+  const body = await readApiBody(request);
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object");
+  }
+  const fields: ApiFieldErrors = {};
+  const title = readApiString(body, "title", fields);
+  if (!title && !fields.title) {
+    fields.title = "Title is required";
+  }
+  const slugInput = readApiString(body, "slug", fields);
+  const description = readApiString(body, "description", fields);
+  const videoUrl = readApiUrl(body, "video_url", fields);
+  const thumbnailUrl = readApiUrl(body, "thumbnail_url", fields);
+  const tags = readApiTags(body, fields);
+  const publication = readApiPublication(body, fields);
+  const slug = slugInput || (title ? slugify(title) : "");
+  if (slugInput && !isValidSlug(slugInput)) {
+    fields.slug = "Use lowercase letters, digits and single dashes";
+  } else if (slug && getVideoBySlug(slug)) {
+    fields.slug = "Slug is already in use";
+  }
+  if (Object.keys(fields).length > 0) {
+    return apiValidationError(fields);
+  }
+
+  try {
+    const videoId = createVideo({
+      title: title!,
       slug,
-      description: form.get("description")?.toString().trim() || undefined,
-      video_url: videoUrl,
-      thumbnail_url: thumbnailUrl,
-      tags: parseTags(form.get("tags"))
+      description: description || undefined,
+      video_url: videoUrl || undefined,
+      thumbnail_url: thumbnailUrl || defaultThumbnailUrl(videoUrl),
+      tags,
+      ...publication
     });
-    return redirect("/admin?flash=Video+pack+created");
+    const video = getVideoById(videoId)!;
+    queueWebhookEvent("pack.created", video);
+    return jsonResponse(
+      { video: serializeVideoForApi(video) },
+      { status: 201, headers: { location: `/api/v1/videos/${videoId}` } }
+    );
   } catch (error) {
-    console.error("Create video failed", error);
-    return redirect("/admin?error=Failed+to+create+video");
+    console.error("API create video failed", error);
+    return apiError(500, "Failed to create video");
   }
 }
 
-async function handleUpdateVideo(request: Request, videoId: number) {
-  const form = await request.formData();
-  const title = form.get("title")?.toString().trim();
-  if (!title) {
-    return redirect("/admin?error=Title+is+required");
+/** Partial update: fields left out of the body keep their current values. */
+async function handleApiUpdateVideo(request: Request, ref: string) {
+  const video = findApiVideo(ref);
+  if (!video) {
+    return apiError(404, "Video not found");
   }
-  const videoUrl = form.get("video_url")?.toString().trim() || undefined;
-  let thumbnailUrl = form.get("thumbnail_url")?.toString().trim() || undefined;
-  if (!thumbnailUrl) {
-    const videoId = extractYouTubeVideoId(videoUrl);
-    if (videoId) {
-      thumbnailUrl = youtubeThumbnailUrl(videoId);
-    }
+  const body = await readApiBody(request);
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object");
+  }
+  const fields: ApiFieldErrors = {};
+  const title = readApiString(body, "title", fields);
+  const slug = readApiString(body, "slug", fields);
+  const description = readApiString(body, "description", fields);
+  const videoUrl = readApiUrl(body, "video_url", fields);
+  const thumbnailUrl = readApiUrl(body, "thumbnail_url", fields);
+  const tags = readApiTags(body, fields);
+  const publication = readApiPublication(body, fields, video);
+  if (title !== undefined && !title) {
+    fields.title = "Title can't be empty";
   }
+  if (slug !== undefined && slug !== video.slug) {
+    fields.slug = "Slugs can't be changed";
+  }
+  if (Object.keys(fields).length > 0) {
+    return apiValidationError(fields);
+  }
+
+  const nextVideoUrl = videoUrl === undefined ? video.video_url : videoUrl;
   try {
-    updateVideo(videoId, {
-      title,
-      description: form.get("description")?.toString().trim() || undefined,
-      video_url: videoUrl,
-      thumbnail_url: thumbnailUrl,
-      tags: parseTags(form.get("tags"))
+    updateVideo(video.id, {
+      title: title ?? video.title,
+      description: (description === undefined ? video.description : description) || undefined,
+      video_url: nextVideoUrl || undefined,
+      thumbnail_url: (thumbnailUrl === undefined ? video.thumbnail_url : thumbnailUrl) || defaultThumbnailUrl(nextVideoUrl),
+      tags: tags ?? video.tags
     });
-    return redirect("/admin?flash=Changes+saved");
+    if (publication) {
+      setVideoPublication(video.id, publication);
+    }
+    const updated = getVideoById(video.id)!;
+    queueWebhookEvent("pack.updated", updated, { previous: video });
+    return jsonResponse({ video: serializeVideoForApi(updated) });
   } catch (error) {
-    console.error("Update video failed", error);
-    return redirect("/admin?error=Update+failed");
+    console.error("API update video failed", error);
+    return apiError(500, "Failed to update video");
   }
 }
 
-async function handleDeleteVideo(videoId: number) {
+function handleApiDeleteVideo(ref: string) {
+  const video = findApiVideo(ref);
+  if (!video) {
+    return apiError(404, "Video not found");
+  }
   try {
-    deleteVideo(videoId);
-    return redirect("/admin?flash=Video+deleted");
+    deleteVideo(video.id);
+    removePackBundles(video.id);
+    queueWebhookEvent("pack.deleted", video);
+    return new Response(null, { status: 204 });
   } catch (error) {
-    console.error("Delete video failed", error);
-    return redirect("/admin?error=Delete+failed");
+    console.error("API delete video failed", error);
+    return apiError(500, "Failed to delete video");
   }
 }
 
-async function handleCreateAsset(request: Request, videoId: number) {
-  const form = await request.formData();
-  const label = form.get("label")?.toString().trim();
-  const urlInput = form.get("url")?.toString().trim();
-  const filenameInput = form.get("filename")?.toString();
-  const contentEntry = form.get("content");
-  const rawContent = typeof contentEntry === "string" ? contentEntry : contentEntry?.toString() ?? "";
-  const normalizedContent = rawContent ? normalizeSnippetContent(rawContent) : "";
-  const hasContent = normalizedContent.trim().length > 0;
-  const normalizedUrl = urlInput && urlInput.length > 0 ? urlInput : undefined;
+function serializeApiAsset(asset: AssetRecord) {
+  return { ...serializeAssetForApi(asset), content: asset.content };
+}
 
-  if (!label) {
-    return redirect("/admin?error=Asset+label+is+required");
+function serveApiV1VideoAssets(ref: string) {
+  const video = findApiVideo(ref);
+  return video ? jsonResponse({ assets: video.assets.map(serializeApiAsset) }) : apiError(404, "Video not found");
+}
+
+function serveApiV1Asset(assetId: number) {
+  const asset = getAssetById(assetId);
+  return asset ? jsonResponse({ asset: serializeApiAsset(asset) }) : apiError(404, "Asset not found");
+}
+
+/** Assets are either inline snippets (`content`, optional `filename`) or external links (`url`). */
+async function handleApiCreateAsset(request: Request, ref: string) {
+  const video = findApiVideo(ref);
+  if (!video) {
+    return apiError(404, "Video not found");
   }
+  const body = await readApiBody(request);
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object");
+  }
+  const fields: ApiFieldErrors = {};
+  const label = readApiString(body, "label", fields);
+  if (!label && !fields.label) {
+    fields.label = "Label is required";
+  }
+  const content = readApiString(body, "content", fields, { trim: false });
+  const filename = readApiString(body, "filename", fields);
+  const url = readApiUrl(body, "url", fields);
+  const hasContent = Boolean(content && content.trim());
+  if (hasContent && url) {
+    fields.url = "Send either content or url, not both";
+  } else if (!hasContent && !url && !fields.url && !fields.content) {
+    fields.content = "Provide content or a url";
+  }
+  const composeError = hasContent ? composeValidationError(resolveFilename(label ?? "", filename), normalizeSnippetContent(content!)) : null;
+  if (composeError) {
+    fields.content = composeError;
+  }
+  if (Object.keys(fields).length > 0) {
+    return apiValidationError(fields);
+  }
+
+  try {
+    const assetId = createAsset(video.id, {
+      label: label!,
+      url: hasContent ? undefined : url,
+      filename: hasContent ? resolveFilename(label!, filename) : undefined,
+      content: hasContent ? normalizeSnippetContent(content!) : undefined
+    });
+    queueAssetCreated(assetId);
+    return jsonResponse(
+      { asset: serializeApiAsset(getAssetById(assetId)!) },
+      { status: 201, headers: { location: `/api/v1/assets/${assetId}` } }
+    );
+  } catch (error) {
+    console.error("API create asset failed", error);
+    return apiError(500, "Failed to create asset");
+  }
+}
 
-  if (!hasContent && !normalizedUrl) {
-    return redirect("/admin?error=Provide+content+or+a+URL");
+/**
+ * Partial update. Sending `content` makes the asset inline and sending `url` makes it
+ * external; otherwise it keeps its kind and only the label or filename change.
+ */
+async function handleApiUpdateAsset(request: Request, assetId: number) {
+  const asset = getAssetById(assetId);
+  if (!asset) {
+    return apiError(404, "Asset not found");
+  }
+  const body = await readApiBody(request);
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object");
+  }
+  const fields: ApiFieldErrors = {};
+  const labelInput = readApiString(body, "label", fields);
+  const contentInput = readApiString(body, "content", fields, { trim: false });
+  const filenameInput = readApiString(body, "filename", fields);
+  const urlInput = readApiUrl(body, "url", fields);
+  const note = readApiString(body, "note", fields);
+  if (labelInput !== undefined && !labelInput) {
+    fields.label = "Label can't be empty";
+  }
+  if (contentInput !== undefined && urlInput !== undefined) {
+    fields.url = "Send either content or url, not both";
+  } else if (contentInput !== undefined && !contentInput?.trim()) {
+    fields.content = "Inline assets need content";
+  } else if (urlInput === null || (body.url !== undefined && urlInput === "")) {
+    fields.url = "External assets need a URL";
+  }
+  if (Object.keys(fields).length > 0) {
+    return apiValidationError(fields);
   }
 
-  const filename = hasContent ? resolveFilename(label, filenameInput) : undefined;
+  const label = labelInput ?? asset.label;
+  const isInline = asset.content !== null && !asset.storage_key;
+  let update: AssetUpdate;
+  if (contentInput) {
+    const filename = filenameInput ? resolveFilename(label, filenameInput) : asset.filename ?? resolveFilename(label);
+    update = { kind: "inline", label, filename, content: normalizeSnippetContent(contentInput), note: note ?? undefined };
+  } else if (urlInput) {
+    update = { kind: "external", label, url: urlInput };
+  } else if (asset.storage_key) {
+    update = { kind: "upload", label, filename: sanitizeFilename(filenameInput || asset.filename || label) };
+  } else if (isInline) {
+    const filename = filenameInput ? resolveFilename(label, filenameInput) : asset.filename ?? resolveFilename(label);
+    update = { kind: "inline", label, filename, content: asset.content!, note: note ?? undefined };
+  } else {
+    update = { kind: "external", label, url: asset.url };
+  }
+  const composeError = inlineUpdateComposeError(asset, update);
+  if (composeError) {
+    return apiValidationError({ content: composeError });
+  }
 
   try {
-    createAsset(videoId, {
-      label,
-      url: hasContent ? undefined : normalizedUrl,
-      filename,
-      content: hasContent ? normalizedContent : undefined
-    });
-    return redirect("/admin?flash=Asset+added");
+    updateAsset(asset.id, update);
+    return jsonResponse({ asset: serializeApiAsset(getAssetById(asset.id)!) });
   } catch (error) {
-    console.error("Asset creation failed", error);
-    return redirect("/admin?error=Could+not+add+asset");
+    console.error("API update asset failed", error);
+    return apiError(500, "Failed to update asset");
   }
 }
 
-async function handleDeleteAsset(assetId: number) {
+function handleApiDeleteAsset(assetId: number) {
+  if (!getAssetById(assetId)) {
+    return apiError(404, "Asset not found");
+  }
   try {
     deleteAsset(assetId);
-    return redirect("/admin?flash=Asset+removed");
+    return new Response(null, { status: 204 });
   } catch (error) {
-    console.error("Asset deletion failed", error);
-    return redirect("/admin?error=Could+not+remove+asset");
+    console.error("API delete asset failed", error);
+    return apiError(500, "Failed to delete asset");
   }
 }
 
-function handleAssetDownload(assetId: number) {
-  const asset = getAssetById(assetId);
-  if (!asset || !asset.content) {
-    return notFound();
-  }
-  const filename = asset.filename && asset.filename.trim().length > 0 ? asset.filename : `asset-${assetId}.txt`;
-  return new Response(asset.content, {
-    headers: {
-      "content-type": detectMimeTypeFromFilename(filename),
-      "content-disposition": contentDispositionFilename(filename)
-    }
-  });
+function isMutatingRequest(request: Request) {
+  return request.method !== "GET" && request.method !== "HEAD";
 }
 
-function withAuth(
-  request: Request,
-  handler: () => Promise<Response> | Response,
-  options?: { allowDuringPasswordReset?: boolean }
-) {
-  if (!isAuthenticated(request)) {
-    return redirect("/admin?error=Please+login");
+/** Reads the token field without consuming the body the route handler still needs. */
+async function readFormCsrfToken(request: Request) {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.includes("application/x-www-form-urlencoded") && !contentType.includes("multipart/form-data")) {
+    return null;
   }
-  if (adminMustChangePassword() && !options?.allowDuringPasswordReset) {
-    return redirect("/admin/password");
+  try {
+    const form = await request.clone().formData();
+    return form.get(CSRF_FIELD)?.toString() ?? null;
+  } catch (error) {
+    console.error("Failed to read CSRF token", error);
+    return null;
   }
-  return handler();
 }
 
-function serveAdmin(request: Request, url: URL) {
-  const error = url.searchParams.get("error") ?? undefined;
-  const flash = url.searchParams.get("flash") ?? undefined;
-  if (!isAuthenticated(request)) {
-    return new Response(renderLogin(error ?? undefined), {
-      headers: { "content-type": "text/html; charset=utf-8" }
-    });
+/**
+ * Rejects cross-site form posts by comparing Origin (or Referer when a browser omits it)
+ * with the host the request was sent to. Requests carrying neither header fall through to
+ * the token check, which every signed-in mutation still has to pass.
+ */
+function crossOriginReason(request: Request): string | null {
+  const expectedHost = requestHost(request);
+  const origin = request.headers.get("origin");
+  if (origin === "null") {
+    return "The request came from a page without an origin.";
   }
-  if (adminMustChangePassword()) {
-    return redirect("/admin/password");
+  const source = origin ?? request.headers.get("referer");
+  if (!source) return null;
+  try {
+    if (new URL(source).host.toLowerCase() === expectedHost) return null;
+  } catch {
+    // fall through to the rejection below
   }
-  const html = renderAdmin(listVideosWithAssets(), flash ?? undefined);
-  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
-}
-
-function servePublic() {
-  const html = renderPublic();
-  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
-}
-
-function serveApi() {
-  return jsonResponse({ videos: serializeVideosForApi() });
+  return "The request came from another site.";
 }
 
-function serializeVideosForApi() {
-  return listVideosWithAssets().map((video) => ({
-    ...video,
-    assets: video.assets.map(({ content, ...rest }) => rest)
-  }));
+function csrfFailure(request: Request, message: string) {
+  if ((request.headers.get("accept") ?? "").includes("application/json")) {
+    return jsonResponse({ ok: false, error: message }, { status: 403 });
+  }
+  return new Response(renderForbiddenPage(message), {
+    status: 403,
+    headers: { "content-type": "text/html; charset=utf-8" }
+  });
 }
 
 function notFound() {
   return new Response("Not Found", { status: 404 });
 }
 
+function notFoundPage(message?: string) {
+  return new Response(renderNotFoundPage(message), {
+    status: 404,
+    headers: { "content-type": "text/html; charset=utf-8" }
+  });
+}
+
 function pruneSessionsSafely() {
   try {
-    pruneSessions();
+    pruneSessions(sessionIdleSince());
   } catch (error) {
     console.error("Failed to prune sessions", error);
   }
@@ -982,17 +4913,151 @@ function pruneSessionsSafely() {
 const server = Bun.serve({
   hostname: HOST,
   port: PORT,
+  // leave headroom for the multipart envelope and the other form fields
+  maxRequestBodySize: MAX_UPLOAD_BYTES + 1024 * 1024,
   fetch: async (request) => {
     pruneSessionsSafely();
     const url = new URL(request.url);
     const { pathname } = url;
 
+    if (isMutatingRequest(request) && pathname.startsWith("/admin")) {
+      const reason = crossOriginReason(request);
+      if (reason) {
+        return csrfFailure(request, reason);
+      }
+    }
+
     if (pathname === "/" && request.method === "GET") {
-      return servePublic();
+      return servePublic(request, url);
+    }
+
+    const videoPageMatch = pathname.match(/^\/videos\/([^/]+)\/?$/);
+    if (videoPageMatch && request.method === "GET") {
+      let slug: string;
+      try {
+        slug = decodeURIComponent(videoPageMatch[1]);
+      } catch {
+        return notFoundPage();
+      }
+      return serveVideoPage(request, slug);
+    }
+
+    if (pathname === "/tags" && request.method === "GET") {
+      return serveTagIndex(request);
+    }
+
+    const tagFeedMatch = pathname.match(/^\/tags\/([^/]+)\/feed\.xml$/);
+    if (tagFeedMatch && request.method === "GET") {
+      let name: string;
+      try {
+        name = decodeURIComponent(tagFeedMatch[1]);
+      } catch {
+        return notFound();
+      }
+      return serveTagFeed(request, name);
+    }
+
+    const tagPageMatch = pathname.match(/^\/tags\/([^/]+)\/?$/);
+    if (tagPageMatch && request.method === "GET") {
+      let name: string;
+      try {
+        name = decodeURIComponent(tagPageMatch[1]);
+      } catch {
+        return notFoundPage();
+      }
+      return serveTagPage(request, name);
+    }
+
+    if (pathname === "/sitemap.xml" && request.method === "GET") {
+      return serveSitemap(request);
+    }
+
+    if (pathname === "/robots.txt" && request.method === "GET") {
+      return serveRobots(request);
+    }
+
+    if (pathname === "/feed.xml" && request.method === "GET") {
+      return serveSiteFeed(request, "rss");
+    }
+
+    if (pathname === "/atom.xml" && request.method === "GET") {
+      return serveSiteFeed(request, "atom");
+    }
+
+    if (pathname === "/feed.json" && request.method === "GET") {
+      return serveSiteFeed(request, "json");
     }
 
     if (pathname === "/api/videos" && request.method === "GET") {
-      return serveApi();
+      return serveApi(url);
+    }
+
+    if (pathname === "/api/search" && request.method === "GET") {
+      return serveSearchApi(url);
+    }
+
+    if (pathname === "/api/v1/videos" && request.method === "GET") {
+      return withApiToken(request, "view", () => serveApiV1Videos(url));
+    }
+
+    if (pathname === "/api/v1/videos" && request.method === "POST") {
+      return withApiToken(request, "edit", () => handleApiCreateVideo(request));
+    }
+
+    const apiVideoAssetsMatch = pathname.match(/^\/api\/v1\/videos\/([^/]+)\/assets$/);
+    if (apiVideoAssetsMatch) {
+      let ref: string;
+      try {
+        ref = decodeURIComponent(apiVideoAssetsMatch[1]);
+      } catch {
+        return apiError(404, "Video not found");
+      }
+      if (request.method === "GET") {
+        return withApiToken(request, "view", () => serveApiV1VideoAssets(ref));
+      }
+      if (request.method === "POST") {
+        return withApiToken(request, "edit", () => handleApiCreateAsset(request, ref));
+      }
+      return apiError(405, "Method not allowed", undefined, { allow: "GET, POST" });
+    }
+
+    const apiVideoMatch = pathname.match(/^\/api\/v1\/videos\/([^/]+)$/);
+    if (apiVideoMatch) {
+      let ref: string;
+      try {
+        ref = decodeURIComponent(apiVideoMatch[1]);
+      } catch {
+        return apiError(404, "Video not found");
+      }
+      if (request.method === "GET") {
+        return withApiToken(request, "view", () => serveApiV1Video(ref));
+      }
+      if (request.method === "PATCH") {
+        return withApiToken(request, "edit", () => handleApiUpdateVideo(request, ref));
+      }
+      if (request.method === "DELETE") {
+        return withApiToken(request, "delete", () => handleApiDeleteVideo(ref));
+      }
+      return apiError(405, "Method not allowed", undefined, { allow: "GET, PATCH, DELETE" });
+    }
+
+    const apiAssetMatch = pathname.match(/^\/api\/v1\/assets\/(\d+)$/);
+    if (apiAssetMatch) {
+      const assetId = Number(apiAssetMatch[1]);
+      if (request.method === "GET") {
+        return withApiToken(request, "view", () => serveApiV1Asset(assetId));
+      }
+      if (request.method === "PATCH") {
+        return withApiToken(request, "edit", () => handleApiUpdateAsset(request, assetId));
+      }
+      if (request.method === "DELETE") {
+        return withApiToken(request, "edit", () => handleApiDeleteAsset(assetId));
+      }
+      return apiError(405, "Method not allowed", undefined, { allow: "GET, PATCH, DELETE" });
+    }
+
+    if (pathname.startsWith("/api/v1/")) {
+      return apiError(404, "Not found");
     }
 
     if (pathname === "/admin" && request.method === "GET") {
@@ -1003,19 +5068,43 @@ const server = Bun.serve({
       return handleLogin(request);
     }
 
+    if (pathname === "/admin/login/2fa" && request.method === "GET") {
+      return serveLoginChallenge(request, url);
+    }
+
+    if (pathname === "/admin/login/2fa" && request.method === "POST") {
+      return handleLoginChallenge(request);
+    }
+
+    if (pathname === TWO_FACTOR_SETUP_PATH && request.method === "GET") {
+      return withAuth(request, (user) => serveTwoFactorSetup(url, user), { allowDuringAccountSetup: true });
+    }
+
+    if (pathname === `${TWO_FACTOR_SETUP_PATH}/enable` && request.method === "POST") {
+      return withAuth(request, (user) => handleEnableTwoFactor(request, user), { allowDuringAccountSetup: true });
+    }
+
+    if (pathname === `${TWO_FACTOR_SETUP_PATH}/recovery-codes` && request.method === "POST") {
+      return withAuth(request, (user) => handleRegenerateRecoveryCodes(request, user));
+    }
+
+    if (pathname === `${TWO_FACTOR_SETUP_PATH}/disable` && request.method === "POST") {
+      return withAuth(request, (user) => handleDisableTwoFactor(request, user));
+    }
+
     if (pathname === "/admin/password" && request.method === "GET") {
       return withAuth(
         request,
-        () => servePasswordChange(url),
-        { allowDuringPasswordReset: true }
+        (user) => servePasswordChange(url, user),
+        { allowDuringAccountSetup: true }
       );
     }
 
     if (pathname === "/admin/password" && request.method === "POST") {
       return withAuth(
         request,
-        () => handlePasswordChange(request),
-        { allowDuringPasswordReset: true }
+        (user) => handlePasswordChange(request, user),
+        { allowDuringAccountSetup: true }
       );
     }
 
@@ -1023,7 +5112,7 @@ const server = Bun.serve({
       return withAuth(
         request,
         () => handleLogout(request),
-        { allowDuringPasswordReset: true }
+        { allowDuringAccountSetup: true }
       );
     }
 
@@ -1031,40 +5120,238 @@ const server = Bun.serve({
       return new Response("ok");
     }
 
+    const revisionDownloadMatch = pathname.match(/^\/downloads\/assets\/(\d+)\/rev\/(\d+)$/);
+    if (revisionDownloadMatch && isDownloadMethod(request)) {
+      return handleRevisionDownload(request, Number(revisionDownloadMatch[1]), Number(revisionDownloadMatch[2]));
+    }
+
+    const assetViewMatch = pathname.match(/^\/downloads\/assets\/(\d+)\/(preview|raw)$/);
+    if (assetViewMatch && isDownloadMethod(request)) {
+      const assetId = Number(assetViewMatch[1]);
+      return assetViewMatch[2] === "preview" ? handleAssetPreview(request, assetId) : handleAssetRaw(request, assetId);
+    }
+
     const assetDownloadMatch = pathname.match(/^\/downloads\/assets\/(\d+)(?:\/.*)?$/);
-    if (assetDownloadMatch && request.method === "GET") {
+    if (assetDownloadMatch && isDownloadMethod(request, { allowPost: true })) {
       const assetId = Number(assetDownloadMatch[1]);
       if (!Number.isNaN(assetId)) {
-        return handleAssetDownload(assetId);
+        return handleAssetDownload(request, assetId);
+      }
+    }
+
+    const packBundleMatch = pathname.match(/^\/downloads\/packs\/([^/]+)\.zip$/);
+    if (packBundleMatch && isDownloadMethod(request, { allowPost: true })) {
+      let slug: string;
+      try {
+        slug = decodeURIComponent(packBundleMatch[1]);
+      } catch {
+        return notFound();
       }
+      return handlePackBundle(request, slug);
+    }
+
+    const assetRedirectMatch = pathname.match(/^\/go\/assets\/(\d+)$/);
+    if (assetRedirectMatch && isDownloadMethod(request)) {
+      return handleAssetRedirect(request, Number(assetRedirectMatch[1]));
     }
 
     const videoUpdateMatch = pathname.match(/^\/admin\/videos\/(\d+)$/);
     if (videoUpdateMatch && request.method === "POST") {
       const videoId = Number(videoUpdateMatch[1]);
-      return withAuth(request, () => handleUpdateVideo(request, videoId));
+      return withAuth(request, () => handleUpdateVideo(request, videoId), { permission: "edit" });
     }
 
     const videoDeleteMatch = pathname.match(/^\/admin\/videos\/(\d+)\/delete$/);
     if (videoDeleteMatch && request.method === "POST") {
       const videoId = Number(videoDeleteMatch[1]);
-      return withAuth(request, () => handleDeleteVideo(videoId));
+      return withAuth(request, () => handleDeleteVideo(videoId), { permission: "delete" });
     }
 
     const videoAssetMatch = pathname.match(/^\/admin\/videos\/(\d+)\/assets$/);
     if (videoAssetMatch && request.method === "POST") {
       const videoId = Number(videoAssetMatch[1]);
-      return withAuth(request, () => handleCreateAsset(request, videoId));
+      return withAuth(request, () => handleCreateAsset(request, videoId), { permission: "edit" });
+    }
+
+    const assetOrderMatch = pathname.match(/^\/admin\/videos\/(\d+)\/assets\/order$/);
+    if (assetOrderMatch && request.method === "POST") {
+      const videoId = Number(assetOrderMatch[1]);
+      return withAuth(request, () => handleReorderAssets(request, videoId), { permission: "edit" });
+    }
+
+    const assetUpdateMatch = pathname.match(/^\/admin\/assets\/(\d+)$/);
+    if (assetUpdateMatch && request.method === "POST") {
+      const assetId = Number(assetUpdateMatch[1]);
+      return withAuth(request, () => handleUpdateAsset(request, assetId), { permission: "edit" });
+    }
+
+    const assetMoveMatch = pathname.match(/^\/admin\/assets\/(\d+)\/move$/);
+    if (assetMoveMatch && request.method === "POST") {
+      const assetId = Number(assetMoveMatch[1]);
+      return withAuth(request, () => handleMoveAsset(request, assetId), { permission: "edit" });
+    }
+
+    const assetRevisionsMatch = pathname.match(/^\/admin\/assets\/(\d+)\/revisions$/);
+    if (assetRevisionsMatch && request.method === "GET") {
+      const assetId = Number(assetRevisionsMatch[1]);
+      return withAuth(request, (user) => serveAssetRevisions(url, assetId, user));
+    }
+
+    const assetContentMatch = pathname.match(/^\/admin\/assets\/(\d+)\/content$/);
+    if (assetContentMatch && request.method === "POST") {
+      const assetId = Number(assetContentMatch[1]);
+      return withAuth(request, () => handleUpdateAssetContent(request, assetId), { permission: "edit" });
+    }
+
+    const assetRollbackMatch = pathname.match(/^\/admin\/assets\/(\d+)\/revisions\/(\d+)\/rollback$/);
+    if (assetRollbackMatch && request.method === "POST") {
+      const assetId = Number(assetRollbackMatch[1]);
+      const revision = Number(assetRollbackMatch[2]);
+      return withAuth(request, () => handleRollbackAsset(assetId, revision), { permission: "edit" });
     }
 
     const assetDeleteMatch = pathname.match(/^\/admin\/assets\/(\d+)\/delete$/);
     if (assetDeleteMatch && request.method === "POST") {
       const assetId = Number(assetDeleteMatch[1]);
-      return withAuth(request, () => handleDeleteAsset(assetId));
+      return withAuth(request, () => handleDeleteAsset(assetId), { permission: "edit" });
+    }
+
+    if (pathname === "/admin/stats" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminStats(url, user));
+    }
+
+    if (pathname === "/admin/links" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminLinks(url, user));
+    }
+
+    if (pathname === "/admin/links/check" && request.method === "POST") {
+      return withAuth(request, () => handleCheckLinks(), { permission: "edit" });
+    }
+
+    if (pathname === "/admin/stats.json" && request.method === "GET") {
+      return withAuth(request, () => serveAdminStatsJson(url));
+    }
+
+    if (pathname === "/admin/tags" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminTags(url, user));
+    }
+
+    const tagActionMatch = pathname.match(/^\/admin\/tags\/(\d+)\/(rename|merge|delete)$/);
+    if (tagActionMatch && request.method === "POST") {
+      const tagId = Number(tagActionMatch[1]);
+      const action = tagActionMatch[2];
+      if (action === "rename") {
+        return withAuth(request, () => handleRenameTag(request, tagId), { permission: "edit" });
+      }
+      if (action === "merge") {
+        return withAuth(request, () => handleMergeTag(request, tagId), { permission: "edit" });
+      }
+      return withAuth(request, () => handleDeleteTag(tagId), { permission: "edit" });
+    }
+
+    if (pathname === "/admin/backup" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminBackup(url, user), { permission: "manage_settings" });
+    }
+
+    if (pathname === "/admin/backup/export.json" && request.method === "GET") {
+      return withAuth(request, () => serveHubExport(), { permission: "manage_settings" });
+    }
+
+    if (pathname === "/admin/backup/import" && request.method === "POST") {
+      return withAuth(request, (user) => handleHubImport(request, user), { permission: "manage_settings" });
+    }
+
+    if (pathname === "/admin/webhooks" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminWebhooks(url, user), { permission: "manage_settings" });
+    }
+
+    if (pathname === "/admin/webhooks" && request.method === "POST") {
+      return withAuth(request, () => handleCreateWebhook(request), { permission: "manage_settings" });
+    }
+
+    const webhookActionMatch = pathname.match(/^\/admin\/webhooks\/(\d+)\/(pause|resume|delete)$/);
+    if (webhookActionMatch && request.method === "POST") {
+      const webhookId = Number(webhookActionMatch[1]);
+      const action = webhookActionMatch[2] as "pause" | "resume" | "delete";
+      return withAuth(request, () => handleWebhookAction(webhookId, action), { permission: "manage_settings" });
+    }
+
+    const redeliverMatch = pathname.match(/^\/admin\/webhooks\/deliveries\/(\d+)\/redeliver$/);
+    if (redeliverMatch && request.method === "POST") {
+      const deliveryId = Number(redeliverMatch[1]);
+      return withAuth(request, () => handleRedeliverWebhook(deliveryId), { permission: "manage_settings" });
+    }
+
+    if (pathname === "/admin/tokens" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminTokens(url, user));
+    }
+
+    if (pathname === "/admin/tokens" && request.method === "POST") {
+      return withAuth(request, (user) => handleCreateApiToken(request, url, user));
+    }
+
+    const tokenRevokeMatch = pathname.match(/^\/admin\/tokens\/(\d+)\/revoke$/);
+    if (tokenRevokeMatch && request.method === "POST") {
+      const tokenId = Number(tokenRevokeMatch[1]);
+      return withAuth(request, (user) => handleRevokeApiToken(user, tokenId));
+    }
+
+    if (pathname === "/admin/sessions" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminSessions(url, user));
+    }
+
+    if (pathname === "/admin/sessions/revoke-others" && request.method === "POST") {
+      return withAuth(request, (user) => handleRevokeOtherSessions(user));
+    }
+
+    const sessionRevokeMatch = pathname.match(/^\/admin\/sessions\/([0-9a-f]{16})\/revoke$/);
+    if (sessionRevokeMatch && request.method === "POST") {
+      const handle = sessionRevokeMatch[1];
+      return withAuth(request, (user) => handleRevokeSession(user, handle));
+    }
+
+    if (pathname === "/admin/logins" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminLogins(url, user), { permission: "manage_users" });
+    }
+
+    if (pathname === "/admin/logins/unlock" && request.method === "POST") {
+      return withAuth(request, () => handleUnlockLogin(request), { permission: "manage_users" });
+    }
+
+    if (pathname === "/admin/settings/security" && request.method === "POST") {
+      return withAuth(request, () => handleSecuritySettings(request), { permission: "manage_settings" });
+    }
+
+    if (pathname === "/admin/users" && request.method === "GET") {
+      return withAuth(request, (user) => serveAdminUsers(url, user), { permission: "manage_users" });
+    }
+
+    if (pathname === "/admin/users" && request.method === "POST") {
+      return withAuth(request, (user) => handleCreateUser(request, url, user), { permission: "manage_users" });
+    }
+
+    const userActionMatch = pathname.match(
+      /^\/admin\/users\/([a-z0-9._-]+)\/(role|disable|enable|reset-password|reset-2fa)$/
+    );
+    if (userActionMatch && request.method === "POST") {
+      const username = userActionMatch[1];
+      const action = userActionMatch[2];
+      if (action === "role") {
+        return withAuth(request, (user) => handleUpdateUserRole(request, user, username), { permission: "manage_users" });
+      }
+      if (action === "reset-password") {
+        return withAuth(request, (user) => handleResetUserPassword(url, user, username), { permission: "manage_users" });
+      }
+      if (action === "reset-2fa") {
+        return withAuth(request, (user) => handleResetUserTwoFactor(user, username), { permission: "manage_users" });
+      }
+      return withAuth(request, (user) => handleSetUserDisabled(user, username, action === "disable"), {
+        permission: "manage_users"
+      });
     }
 
     if (pathname === "/admin/videos" && request.method === "POST") {
-      return withAuth(request, () => handleCreateVideo(request));
+      return withAuth(request, () => handleCreateVideo(request), { permission: "edit" });
     }
 
     return notFound();
@@ -1076,6 +5363,8 @@ const server = Bun.serve({
 });
 
 registerGracefulShutdown(server);
+startLinkChecker();
+startWebhookWorker();
 
 console.log(`▶ Download hub ready on http://${HOST}:${PORT} (env: ${Bun.env.NODE_ENV ?? "development"})`);
 
@@ -0,0 +1,47 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, renameSync, unlinkSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+export const dataDir = Bun.env.DATA_DIR ?? join(process.cwd(), "data");
+mkdirSync(dataDir, { recursive: true });
+
+export const uploadsDir = join(dataDir, "uploads");
+mkdirSync(uploadsDir, { recursive: true });
+
+export type StoredUpload = {
+  key: string;
+  size: number;
+};
+
+/** Uploads are content-addressed: `uploads/<first two hex chars>/<sha256>`. */
+export function uploadPath(key: string) {
+  if (!/^[0-9a-f]{64}$/.test(key)) {
+    throw new Error(`Invalid upload key: ${key}`);
+  }
+  return join(uploadsDir, key.slice(0, 2), key);
+}
+
+export async function storeUpload(file: Blob): Promise<StoredUpload> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const key = createHash("sha256").update(bytes).digest("hex");
+  const target = uploadPath(key);
+
+  if (!existsSync(target)) {
+    mkdirSync(dirname(target), { recursive: true });
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await Bun.write(temporary, bytes);
+    renameSync(temporary, target);
+  }
+
+  return { key, size: bytes.byteLength };
+}
+
+export function removeUpload(key: string) {
+  try {
+    unlinkSync(uploadPath(key));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to remove upload ${key}`, error);
+    }
+  }
+}
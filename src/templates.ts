@@ -0,0 +1,126 @@
+import { randomBytes } from "node:crypto";
+
+export type TemplateVariableType = "text" | "port" | "secret" | "timezone";
+
+export type TemplateVariable = {
+  name: string;
+  type: TemplateVariableType;
+  defaultValue: string | null;
+  description: string | null;
+};
+
+/**
+ * `{{NAME}}`, `{{NAME|default}}` or `{{NAME:type|default|description}}`, where an empty default
+ * means none. Names are upper-case so Go, Jinja and Helm templates (`{{ .Name }}`, `{{ var }}`)
+ * pass through untouched.
+ */
+const PLACEHOLDER = /\{\{([A-Z][A-Z0-9_]*)(?::(text|port|secret|timezone))?(?:\|([^|{}\n]*))?(?:\|([^{}\n]*))?\}\}/g;
+
+/**
+ * Variables in the order they first appear. A variable may be used several times; each
+ * attribute comes from the first occurrence that spells it out.
+ */
+export function findTemplateVariables(contents: (string | null)[]): TemplateVariable[] {
+  const found = new Map<string, TemplateVariable & { typed: boolean }>();
+  for (const content of contents) {
+    if (!content) continue;
+    for (const [, name, type, defaultValue, description] of content.matchAll(PLACEHOLDER)) {
+      const existing = found.get(name);
+      if (!existing) {
+        found.set(name, {
+          name,
+          type: (type as TemplateVariableType | undefined) ?? "text",
+          typed: type !== undefined,
+          defaultValue: defaultValue || null,
+          description: description?.trim() || null
+        });
+        continue;
+      }
+      if (!existing.typed && type) {
+        existing.type = type as TemplateVariableType;
+        existing.typed = true;
+      }
+      existing.defaultValue ??= defaultValue || null;
+      existing.description ??= description?.trim() || null;
+    }
+  }
+  return [...found.values()].map(({ typed: _typed, ...variable }) => variable);
+}
+
+export function hasTemplateVariables(content: string | null) {
+  return content !== null && new RegExp(PLACEHOLDER.source).test(content);
+}
+
+/** Secrets without an author default get a random value when left blank. */
+export function isGeneratedSecret(variable: TemplateVariable) {
+  return variable.type === "secret" && variable.defaultValue === null;
+}
+
+export function generateSecret() {
+  return randomBytes(24).toString("base64url");
+}
+
+export function isValidTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Intl.supportedValuesOf is ES2022; Bun has it, the ES2021 lib typings don't. */
+export function timeZoneNames(): string[] {
+  return (Intl as unknown as { supportedValuesOf(key: "timeZone"): string[] }).supportedValuesOf("timeZone");
+}
+
+function validateValue(variable: TemplateVariable, value: string) {
+  // Values land inside YAML, .env and shell files, where a line break could smuggle in extra keys.
+  if (/[\u0000-\u001f\u007f]/.test(value)) {
+    return `${variable.name} can't contain line breaks or control characters`;
+  }
+  if (variable.type === "port" && !(/^\d{1,5}$/.test(value) && Number(value) >= 1 && Number(value) <= 65535)) {
+    return `${variable.name} must be a port number between 1 and 65535`;
+  }
+  if (variable.type === "timezone" && !isValidTimeZone(value)) {
+    return `${variable.name} must be a time zone such as Europe/Berlin`;
+  }
+  return null;
+}
+
+/**
+ * Turns submitted values into the map `renderTemplate` substitutes. Only submitted values are
+ * validated; blank fields fall back to the pack author's default, and blank secrets without
+ * one get a fresh random value. With `requireAll` (a submitted form) a variable with neither
+ * is an error; otherwise its placeholder is kept as written so the gap shows in the file.
+ */
+export function resolveTemplateValues(
+  variables: TemplateVariable[],
+  submitted: (name: string) => string | null,
+  { requireAll }: { requireAll: boolean }
+): { values: Map<string, string> } | { errors: string[] } {
+  const values = new Map<string, string>();
+  const errors: string[] = [];
+  for (const variable of variables) {
+    const input = submitted(variable.name)?.trim() ?? "";
+    if (input) {
+      const error = validateValue(variable, input);
+      if (error) {
+        errors.push(error);
+      } else {
+        values.set(variable.name, input);
+      }
+    } else if (variable.defaultValue !== null) {
+      values.set(variable.name, variable.defaultValue);
+    } else if (isGeneratedSecret(variable)) {
+      values.set(variable.name, generateSecret());
+    } else if (requireAll) {
+      errors.push(`${variable.name} is required`);
+    }
+  }
+  return errors.length > 0 ? { errors } : { values };
+}
+
+export function renderTemplate(content: string, values: Map<string, string>) {
+  return content.replace(PLACEHOLDER, (placeholder, name: string) => values.get(name) ?? placeholder);
+}
@@ -0,0 +1,108 @@
+import { Buffer } from "node:buffer";
+import { createHash, createHmac, randomBytes } from "node:crypto";
+
+// RFC 6238 defaults that every authenticator app understands.
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export function base32Encode(bytes: Uint8Array) {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/** 160-bit shared secret, base32 encoded as authenticator apps expect. */
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpCounter(now = Date.now()) {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function totpCode(secret: string, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Checks a code against the current time step and one step either side for clock drift.
+ * Returns the matching counter so callers can reject replays, or null when nothing matches.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  { lastUsedCounter = null, now = Date.now() }: { lastUsedCounter?: number | null; now?: number } = {}
+) {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = totpCounter(now);
+  for (const counter of [current - 1, current, current + 1]) {
+    if (lastUsedCounter !== null && counter <= lastUsedCounter) continue;
+    if (totpCode(secret, counter) === normalized) return counter;
+  }
+  return null;
+}
+
+export function totpUri({ issuer, account, secret }: { issuer: string; account: string; secret: string }) {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** One-time codes shaped like `abcde-fghjk`; only their hashes are stored. */
+export function generateRecoveryCodes(count = 10) {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+  });
+}
+
+export function hashRecoveryCode(code: string) {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
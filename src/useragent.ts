@@ -0,0 +1,37 @@
+export type ParsedUserAgent = {
+  browser: string;
+  os: string;
+};
+
+// Order matters: Edge and Opera include "Chrome", and Chrome includes "Safari".
+const BROWSERS: [name: string, pattern: RegExp][] = [
+  ["Edge", /Edg(?:e|A|iOS)?\/(\d+)/],
+  ["Opera", /(?:OPR|Opera)\/(\d+)/],
+  ["Samsung Internet", /SamsungBrowser\/(\d+)/],
+  ["Firefox", /(?:Firefox|FxiOS)\/(\d+)/],
+  ["Chrome", /(?:Chrome|CriOS)\/(\d+)/],
+  ["Safari", /Version\/(\d+)[^ ]* (?:Mobile\/\S+ )?Safari\//],
+  ["curl", /curl\/(\d+)/]
+];
+
+const OPERATING_SYSTEMS: [name: string, pattern: RegExp][] = [
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["ChromeOS", /CrOS/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux/]
+];
+
+/** Best-effort browser and OS names for the sessions page; unknown agents fall back to "Unknown". */
+export function parseUserAgent(userAgent: string | null): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: "Unknown browser", os: "Unknown OS" };
+  }
+  const browserMatch = BROWSERS.map(([name, pattern]) => [name, userAgent.match(pattern)] as const).find(
+    ([, match]) => match
+  );
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? "Unknown OS";
+  const browser = browserMatch ? `${browserMatch[0]} ${browserMatch[1]?.[1] ?? ""}`.trim() : "Unknown browser";
+  return { browser, os };
+}
@@ -0,0 +1,61 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The database is opened at import time, so the environment is set up first.
+const dataDir = mkdtempSync(join(tmpdir(), "webhooks-test-"));
+Bun.env.DATA_DIR = dataDir;
+const { queueWebhookEvent } = await import("./webhooks");
+const { createVideo, createWebhook, db, deleteVideo, getVideoById, migrateDatabase, setVideoPublication } = await import("./db");
+migrateDatabase(() => undefined);
+
+createWebhook({
+  url: "http://127.0.0.1:9/hook",
+  description: null,
+  secret: "secret",
+  events: ["pack.created", "pack.published", "pack.updated", "pack.deleted", "asset.created"],
+  format: "json"
+});
+
+function queued() {
+  const rows = db.prepare("SELECT event, payload FROM webhook_deliveries ORDER BY id").all() as { event: string; payload: string }[];
+  return rows.map((row) => ({ event: row.event, status: JSON.parse(row.payload).pack.status as string }));
+}
+
+beforeEach(() => {
+  db.exec("DELETE FROM webhook_deliveries");
+});
+
+afterAll(() => {
+  db.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("queueWebhookEvent", () => {
+  test("archiving a published pack sends pack.updated", () => {
+    const id = createVideo({ title: "Archived later", slug: "archived-later" });
+    const before = getVideoById(id)!;
+    setVideoPublication(id, { status: "archived", publish_at: before.publish_at });
+    queueWebhookEvent("pack.updated", getVideoById(id)!, { previous: before });
+    expect(queued()).toEqual([{ event: "pack.updated", status: "archived" }]);
+  });
+
+  test("deleting an archived pack that was announced sends pack.deleted", () => {
+    const id = createVideo({ title: "Old pack", slug: "old-pack", status: "archived" });
+    const snapshot = getVideoById(id)!;
+    deleteVideo(id);
+    queueWebhookEvent("pack.deleted", snapshot);
+    expect(queued()).toEqual([{ event: "pack.deleted", status: "archived" }]);
+  });
+
+  test("changes to a draft stay quiet", () => {
+    const id = createVideo({ title: "Secret", slug: "secret", status: "draft" });
+    const before = getVideoById(id)!;
+    queueWebhookEvent("pack.updated", getVideoById(id)!, { previous: before });
+    const snapshot = getVideoById(id)!;
+    deleteVideo(id);
+    queueWebhookEvent("pack.deleted", snapshot);
+    expect(queued()).toEqual([]);
+  });
+});
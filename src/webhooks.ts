@@ -0,0 +1,250 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { branding } from "./config";
+import {
+  claimPackAnnouncement,
+  enqueueWebhookDeliveries,
+  getVideoById,
+  listDueWebhookDeliveries,
+  listUnannouncedLivePackIds,
+  pruneWebhookDeliveries,
+  recordWebhookAttempt,
+  type AssetRecord,
+  type VideoWithAssets,
+  type WebhookDeliveryRecord,
+  type WebhookRecord
+} from "./db";
+import { effectivePackStatus, formatDbTimestamp, isPackListed } from "./packs";
+
+export type WebhookEvent = "pack.created" | "pack.published" | "pack.updated" | "pack.deleted" | "asset.created";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ["pack.created", "pack.published", "pack.updated", "pack.deleted", "asset.created"];
+
+export const webhookPolicy = {
+  // Attempts per delivery, counting the first; retries back off 1, 4, 16, 64… minutes.
+  maxAttempts: Number(Bun.env.WEBHOOK_MAX_ATTEMPTS ?? 6),
+  timeoutSeconds: Number(Bun.env.WEBHOOK_TIMEOUT_SECONDS ?? 10)
+};
+
+const RETRY_BASE_SECONDS = 60;
+const RETRY_FACTOR = 4;
+// Deliveries queued by the CLI (a separate process) are picked up by the server within one tick.
+const WORKER_TICK_MS = 5_000;
+const DELIVERY_LOG_RETENTION_DAYS = 30;
+const RESPONSE_BODY_LIMIT = 1000;
+const USER_AGENT = "manage-video-download-links webhooks";
+const PUBLIC_BASE_URL = Bun.env.PUBLIC_BASE_URL?.trim().replace(/\/+$/, "") || null;
+
+export type WebhookPayload = {
+  id: string;
+  event: WebhookEvent;
+  occurred_at: string;
+  pack: {
+    id: number;
+    slug: string;
+    title: string;
+    description: string | null;
+    status: string;
+    tags: string[];
+    video_url: string | null;
+    url: string;
+  };
+  asset?: {
+    id: number;
+    label: string;
+    kind: "inline" | "upload" | "external";
+    filename: string | null;
+    download_url: string;
+  };
+};
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/** `sha256=` + hex HMAC of `<timestamp>.<body>`, so a captured request can't be replayed later with a new timestamp. */
+export function signWebhookBody(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function retryDelaySeconds(attempt: number) {
+  return RETRY_BASE_SECONDS * RETRY_FACTOR ** (attempt - 1);
+}
+
+/** Links are absolute when PUBLIC_BASE_URL is set; events can come from the CLI, where there is no request origin. */
+function absoluteUrl(path: string) {
+  return PUBLIC_BASE_URL && path.startsWith("/") ? `${PUBLIC_BASE_URL}${path}` : path;
+}
+
+function buildPayload(event: WebhookEvent, pack: VideoWithAssets, asset?: AssetRecord): WebhookPayload {
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event,
+    occurred_at: new Date().toISOString(),
+    pack: {
+      id: pack.id,
+      slug: pack.slug,
+      title: pack.title,
+      description: pack.description,
+      status: effectivePackStatus(pack),
+      tags: pack.tags,
+      video_url: pack.video_url,
+      url: absoluteUrl(`/videos/${encodeURIComponent(pack.slug)}`)
+    }
+  };
+  if (asset) {
+    const kind = asset.storage_key ? "upload" : asset.content !== null ? "inline" : "external";
+    payload.asset = {
+      id: asset.id,
+      label: asset.label,
+      kind,
+      filename: asset.filename,
+      download_url: absoluteUrl(kind === "external" ? `/go/assets/${asset.id}` : asset.url)
+    };
+  }
+  return payload;
+}
+
+function enqueue(event: WebhookEvent, pack: VideoWithAssets, asset?: AssetRecord) {
+  enqueueWebhookDeliveries(event, JSON.stringify(buildPayload(event, pack, asset)), formatDbTimestamp(Date.now()));
+}
+
+/**
+ * Queues `event` for every endpoint subscribed to it. Drafts and packs scheduled for later
+ * aren't public, so changes to them send nothing unless `previous` (the pack before the change)
+ * was listed: archiving or unpublishing a live pack still sends `pack.updated`. `pack.deleted`
+ * is judged by the pack as it was, and also goes out for archived packs that were announced.
+ * The first change that finds a pack live and not yet announced sends `pack.published` (in
+ * place of `pack.updated`). Never throws: a broken webhook setup must not fail the edit that
+ * triggered it.
+ */
+export function queueWebhookEvent(
+  event: WebhookEvent,
+  pack: VideoWithAssets,
+  { asset, previous }: { asset?: AssetRecord; previous?: VideoWithAssets } = {}
+) {
+  const listed = isPackListed(pack);
+  const wasPublic =
+    (previous !== undefined && isPackListed(previous)) || (event === "pack.deleted" && pack.announced_at !== null);
+  if (!listed && !wasPublic) return;
+  try {
+    const announcing = listed && event !== "pack.deleted" && claimPackAnnouncement(pack.id, formatDbTimestamp(Date.now()));
+    // A pack created as published is announced by pack.created itself.
+    if (announcing && event !== "pack.created") enqueue("pack.published", pack);
+    if (!(announcing && event === "pack.updated")) enqueue(event, pack, asset);
+  } catch (error) {
+    console.error(`Failed to queue ${event} webhook`, error);
+  }
+}
+
+/** Scheduled packs go live without an edit, so the worker looks for them on every tick. */
+export function queueScheduledAnnouncements(now = Date.now()) {
+  for (const id of listUnannouncedLivePackIds(formatDbTimestamp(now))) {
+    const pack = getVideoById(id);
+    if (pack && isPackListed(pack, now) && claimPackAnnouncement(id, formatDbTimestamp(now))) {
+      enqueue("pack.published", pack);
+    }
+  }
+}
+
+const DISCORD_MESSAGES: Record<WebhookEvent, (payload: WebhookPayload) => string> = {
+  "pack.created": ({ pack }) => `New pack: **${pack.title}**`,
+  "pack.published": ({ pack }) => `Now available: **${pack.title}**`,
+  "pack.updated": ({ pack }) => `Pack updated: **${pack.title}**`,
+  "pack.deleted": ({ pack }) => `Pack deleted: **${pack.title}**`,
+  "asset.created": ({ pack, asset }) => `New download in **${pack.title}**: ${asset?.label ?? ""}`
+};
+
+/** Discord ignores unknown fields but needs `content` or `embeds`, so those endpoints get a chat message instead. */
+function formatBody(webhook: WebhookRecord, payload: WebhookPayload) {
+  if (webhook.format !== "discord") return JSON.stringify(payload);
+  const link = /^https?:\/\//.test(payload.pack.url) ? payload.pack.url : undefined;
+  return JSON.stringify({
+    username: branding.siteName,
+    content: DISCORD_MESSAGES[payload.event](payload),
+    embeds:
+      payload.event === "pack.deleted"
+        ? []
+        : [{ title: payload.pack.title, url: link, description: payload.pack.description?.slice(0, 300) ?? undefined }],
+    allowed_mentions: { parse: [] }
+  });
+}
+
+async function attemptDelivery(delivery: WebhookDeliveryRecord & { webhook: WebhookRecord }) {
+  const attempts = delivery.attempts + 1;
+  const now = Date.now();
+  const timestamp = String(Math.floor(now / 1000));
+  const body = formatBody(delivery.webhook, JSON.parse(delivery.payload) as WebhookPayload);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: "POST",
+      redirect: "manual",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": USER_AGENT,
+        "x-hub-event": delivery.event,
+        "x-hub-delivery": String(delivery.id),
+        "x-hub-timestamp": timestamp,
+        "x-hub-signature-256": signWebhookBody(delivery.webhook.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(webhookPolicy.timeoutSeconds * 1000)
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (caught) {
+    error =
+      caught instanceof DOMException && (caught.name === "TimeoutError" || caught.name === "AbortError")
+        ? `No response within ${webhookPolicy.timeoutSeconds}s`
+        : caught instanceof Error
+          ? caught.message
+          : String(caught);
+  }
+
+  const retry = error !== null && attempts < webhookPolicy.maxAttempts;
+  recordWebhookAttempt(delivery.id, {
+    status: error === null ? "delivered" : retry ? "pending" : "failed",
+    attempts,
+    next_attempt_at: retry ? formatDbTimestamp(now + retryDelaySeconds(attempts) * 1000) : null,
+    last_attempt_at: formatDbTimestamp(now),
+    response_status: responseStatus,
+    response_body: responseBody,
+    error
+  });
+}
+
+let activeRun: Promise<void> | null = null;
+
+/** Sends every delivery that is due, one at a time. Overlapping calls share the run in progress. */
+export function processWebhookQueue() {
+  activeRun ??= (async () => {
+    let due = listDueWebhookDeliveries(formatDbTimestamp(Date.now()));
+    while (due.length > 0) {
+      for (const delivery of due) {
+        await attemptDelivery(delivery);
+      }
+      due = listDueWebhookDeliveries(formatDbTimestamp(Date.now()));
+    }
+    pruneWebhookDeliveries(DELIVERY_LOG_RETENTION_DAYS);
+  })().finally(() => {
+    activeRun = null;
+  });
+  return activeRun;
+}
+
+/** Delivers queued webhooks in the background for the lifetime of the server process. */
+export function startWebhookWorker() {
+  const tick = () => {
+    try {
+      queueScheduledAnnouncements();
+    } catch (error) {
+      console.error("Queueing scheduled pack announcements failed", error);
+    }
+    return processWebhookQueue().catch((error) => console.error("Webhook delivery failed", error));
+  };
+  setInterval(tick, WORKER_TICK_MS);
+  void tick();
+}
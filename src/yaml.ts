@@ -0,0 +1,544 @@
+/**
+ * A small YAML reader for the block-style files people actually publish (compose files,
+ * configs): mappings, lists, plain/quoted/block scalars, flow collections, anchors, aliases
+ * and `<<` merge keys. Every node remembers its line so callers can point at mistakes.
+ * Complex keys, multiple documents and custom tag semantics are not supported.
+ */
+
+export type YamlScalar = string | number | boolean | null;
+
+export type YamlNode =
+  | { kind: "map"; line: number; entries: YamlEntry[] }
+  | { kind: "seq"; line: number; items: YamlNode[] }
+  | { kind: "scalar"; line: number; value: YamlScalar };
+
+export type YamlEntry = { key: string; line: number; value: YamlNode };
+
+export type YamlError = { line: number; message: string };
+
+class YamlSyntaxError extends Error {
+  constructor(
+    readonly line: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type ContentLine = { index: number; indent: number; text: string };
+
+function fail(line: number, message: string): never {
+  throw new YamlSyntaxError(line, message);
+}
+
+/** A quote only opens a string at the start of a value, so `it's` in a plain scalar is just text. */
+function opensQuotedScalar(text: string, index: number) {
+  const before = text.slice(0, index).trimEnd();
+  return before === "" || /[:\-[{,?]$/.test(before);
+}
+
+function stripComment(text: string) {
+  let quote: string | null = null;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (quote === '"' && char === "\\") {
+        index += 1;
+      } else if (char === quote) {
+        if (quote === "'" && text[index + 1] === "'") {
+          index += 1;
+        } else {
+          quote = null;
+        }
+      }
+      continue;
+    }
+    if (char === "#" && (index === 0 || /\s/.test(text[index - 1]))) {
+      return text.slice(0, index);
+    }
+    if ((char === '"' || char === "'") && opensQuotedScalar(text, index)) {
+      quote = char;
+    }
+  }
+  return text;
+}
+
+/** Index just past the closing quote of the string starting at `start`, or -1 if it isn't closed. */
+function findClosingQuote(text: string, start: number) {
+  const quote = text[start];
+  for (let index = start + 1; index < text.length; index++) {
+    if (quote === '"' && text[index] === "\\") {
+      index += 1;
+    } else if (text[index] === quote) {
+      if (quote === "'" && text[index + 1] === "'") {
+        index += 1;
+      } else {
+        return index + 1;
+      }
+    }
+  }
+  return -1;
+}
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\u0085",
+  _: " "
+};
+
+function unquote(text: string, line: number) {
+  const inner = text.slice(1, -1);
+  if (text[0] === "'") {
+    return inner.replace(/''/g, "'");
+  }
+  return inner.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|[\s\S])/g, (_, escape: string) => {
+    if (escape.length > 1) {
+      return String.fromCodePoint(parseInt(escape.slice(1), 16));
+    }
+    if (!(escape in ESCAPES)) {
+      fail(line, `Unknown escape sequence "\\${escape}" in a double-quoted string`);
+    }
+    return ESCAPES[escape];
+  });
+}
+
+/** YAML 1.2 core schema: the same rules Docker Compose's parser uses. */
+function resolvePlain(text: string): YamlScalar {
+  if (text === "" || text === "~" || /^(?:null|Null|NULL)$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  if (/^[-+]?(?:\.\d+|\d+\.\d*)(?:[eE][-+]?\d+)?$/.test(text) || /^[-+]?\d+[eE][-+]?\d+$/.test(text)) return Number(text);
+  return text;
+}
+
+function isSequenceItem(text: string) {
+  return text === "-" || /^-\s/.test(text);
+}
+
+function isDocumentMarker(line: ContentLine) {
+  return line.indent === 0 && (line.text === "---" || line.text === "..." || line.text.startsWith("--- "));
+}
+
+/** Position of the `:` that makes `text` a `key: value` line, or null when it's something else. */
+function findMappingColon(text: string): number | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findClosingQuote(text, 0);
+    const match = end === -1 ? null : /^\s*:(?=\s|$)/.exec(text.slice(end));
+    return match ? end + match[0].length - 1 : null;
+  }
+  if (/^[[{]/.test(text)) return null;
+  const match = /:(?=\s|$)/.exec(text);
+  return match ? match.index : null;
+}
+
+function describe(text: string) {
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+export function parseYaml(source: string): { document: YamlNode | null } | { error: YamlError } {
+  const lines = source.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const anchors = new Map<string, YamlNode>();
+  let pos = 0;
+
+  // The next line that holds more than whitespace or a comment; does not consume it.
+  function peek(): ContentLine | null {
+    for (let index = pos; index < lines.length; index++) {
+      const raw = lines[index];
+      const indent = raw.length - raw.trimStart().length;
+      const text = stripComment(raw.slice(indent)).trimEnd();
+      if (!text) continue;
+      if (raw.slice(0, indent).includes("\t")) {
+        fail(index + 1, "Tabs can't be used for indentation; use spaces");
+      }
+      return { index, indent, text };
+    }
+    return null;
+  }
+
+  function parseBlock(indent: number): YamlNode {
+    const line = peek()!;
+    if (isSequenceItem(line.text)) return parseSequence(indent);
+    if (findMappingColon(line.text) !== null) return parseMapping(indent);
+    pos = line.index + 1;
+    return parseValue(line.text, line.index, indent - 1, false);
+  }
+
+  function parseMapping(indent: number): YamlNode {
+    const first = peek()!;
+    const entries: YamlEntry[] = [];
+    const merges: { line: number; value: YamlNode }[] = [];
+    const seen = new Map<string, number>();
+
+    for (let line = peek(); line && line.indent === indent && !isDocumentMarker(line); line = peek()) {
+      const number = line.index + 1;
+      if (isSequenceItem(line.text)) {
+        fail(number, "Expected a `key: value` pair here, not a list item");
+      }
+      const colon = findMappingColon(line.text);
+      if (colon === null) {
+        fail(number, `Expected a \`key: value\` pair, found "${describe(line.text)}"`);
+      }
+      const key = parseKey(line.text.slice(0, colon).trimEnd(), number);
+      pos = line.index + 1;
+      const value = parseValue(line.text.slice(colon + 1).trim(), line.index, indent, true);
+      if (key === "<<") {
+        merges.push({ line: number, value });
+      } else {
+        if (seen.has(key)) {
+          fail(number, `Duplicate key "${key}" (already defined on line ${seen.get(key)})`);
+        }
+        seen.set(key, number);
+        entries.push({ key, line: number, value });
+      }
+      checkNoDeeperLine(indent);
+    }
+
+    return { kind: "map", line: first.index + 1, entries: applyMerges(entries, merges) };
+  }
+
+  function parseKey(text: string, line: number) {
+    if (text.startsWith("? ") || text === "?") fail(line, "Complex keys (`? `) aren't supported");
+    if (text.startsWith('"') || text.startsWith("'")) return unquote(text, line);
+    if (!text) fail(line, "Missing key before `:`");
+    return text;
+  }
+
+  // Explicit keys win over merged ones, and earlier merge sources win over later ones.
+  function applyMerges(entries: YamlEntry[], merges: { line: number; value: YamlNode }[]) {
+    const result = [...entries];
+    const keys = new Set(entries.map((entry) => entry.key));
+    for (const merge of merges) {
+      const sources = merge.value.kind === "seq" ? merge.value.items : [merge.value];
+      for (const source of sources) {
+        if (source.kind !== "map") {
+          fail(merge.line, "`<<` can only merge mappings (usually an alias such as `<<: *defaults`)");
+        }
+        for (const entry of source.entries) {
+          if (!keys.has(entry.key)) {
+            keys.add(entry.key);
+            result.push(entry);
+          }
+        }
+      }
+    }
+    return result;
+  }
+
+  function parseSequence(indent: number): YamlNode {
+    const first = peek()!;
+    const items: YamlNode[] = [];
+
+    for (let line = peek(); line && line.indent === indent && isSequenceItem(line.text); line = peek()) {
+      const rest = line.text.slice(1).trimStart();
+      if (rest && (isSequenceItem(rest) || findMappingColon(rest) !== null)) {
+        // `- key: value` and `- - item` open a nested block at the column after the dash.
+        const column = indent + line.text.length - rest.length;
+        lines[line.index] = " ".repeat(column) + rest;
+        items.push(parseBlock(column));
+      } else {
+        pos = line.index + 1;
+        items.push(parseValue(rest, line.index, indent, false));
+      }
+      checkNoDeeperLine(indent);
+    }
+
+    return { kind: "seq", line: first.index + 1, items };
+  }
+
+  function checkNoDeeperLine(indent: number) {
+    const next = peek();
+    if (next && next.indent > indent && !isDocumentMarker(next)) {
+      fail(next.index + 1, "Bad indentation: this line is indented further than the lines around it");
+    }
+  }
+
+  /** Parses the value that follows `key:` or `- ` on line `index`; `pos` is already past that line. */
+  function parseValue(text: string, index: number, parentIndent: number, inMapping: boolean): YamlNode {
+    let anchor: string | null = null;
+    for (let property = /^([&!])(\S*)\s*/.exec(text); property; property = /^([&!])(\S*)\s*/.exec(text)) {
+      if (property[1] === "&") {
+        if (!property[2]) fail(index + 1, "Anchor `&` needs a name");
+        anchor = property[2];
+      }
+      text = text.slice(property[0].length);
+    }
+    const node = parseValueBody(text, index, parentIndent, inMapping);
+    if (anchor) anchors.set(anchor, node);
+    return node;
+  }
+
+  function parseValueBody(text: string, index: number, parentIndent: number, inMapping: boolean): YamlNode {
+    const line = index + 1;
+
+    if (text === "") {
+      const next = peek();
+      // A mapping value may be a list at the same indentation as its key.
+      if (
+        next &&
+        !isDocumentMarker(next) &&
+        (next.indent > parentIndent || (inMapping && next.indent === parentIndent && isSequenceItem(next.text)))
+      ) {
+        return parseBlock(next.indent);
+      }
+      return { kind: "scalar", line, value: null };
+    }
+
+    if (text.startsWith("*")) {
+      const name = text.slice(1);
+      if (!/^\S+$/.test(name)) fail(line, `Unexpected text after alias "${describe(text)}"`);
+      const target = anchors.get(name);
+      if (!target) fail(line, `Unknown alias "*${name}"; anchors must be defined before they are used`);
+      return target;
+    }
+
+    if (text.startsWith("|") || text.startsWith(">")) {
+      return parseBlockScalar(text, index, parentIndent);
+    }
+
+    if (text.startsWith("[") || text.startsWith("{")) {
+      return parseFlow(text, index);
+    }
+
+    if (text.startsWith('"') || text.startsWith("'")) {
+      let quoted = text;
+      let last = index;
+      let end = findClosingQuote(quoted, 0);
+      // Quoted strings may run over several lines; the breaks fold into spaces.
+      while (end === -1) {
+        last += 1;
+        if (last >= lines.length) fail(line, "This quoted string is never closed");
+        quoted += ` ${lines[last].trim()}`;
+        end = findClosingQuote(quoted, 0);
+      }
+      const trailing = stripComment(quoted.slice(end)).trim();
+      if (trailing) {
+        fail(last + 1, `Unexpected text after the closing quote: "${describe(trailing)}"`);
+      }
+      pos = last + 1;
+      return { kind: "scalar", line, value: unquote(quoted.slice(0, end), line) };
+    }
+
+    if (/:\s/.test(text)) {
+      fail(line, "Unexpected `: ` inside a value; quote the value if it really contains a colon and a space");
+    }
+    if (/^[@`]/.test(text)) {
+      fail(line, `Plain values can't start with "${text[0]}"; quote the value`);
+    }
+
+    // Plain scalars may continue on more-indented lines; the breaks fold into spaces.
+    let value = text;
+    for (let next = peek(); next && next.indent > parentIndent && !isDocumentMarker(next); next = peek()) {
+      if (findMappingColon(next.text) !== null) {
+        fail(next.index + 1, "Bad indentation: this `key: value` line is indented under a plain value");
+      }
+      value += ` ${next.text}`;
+      pos = next.index + 1;
+    }
+    return { kind: "scalar", line, value: resolvePlain(value) };
+  }
+
+  function parseBlockScalar(header: string, index: number, parentIndent: number): YamlNode {
+    const match = /^([|>])(?:([+-])?([1-9])?|([1-9])([+-]))$/.exec(header);
+    if (!match) {
+      fail(index + 1, `Invalid block scalar header "${describe(header)}"; use |, |-, |+, > or >-`);
+    }
+    const folded = match[1] === ">";
+    const chomp = match[2] ?? match[5] ?? "";
+    const explicit = match[3] ?? match[4];
+    let blockIndent = explicit ? Math.max(parentIndent, 0) + Number(explicit) : null;
+
+    const content: string[] = [];
+    let next = index + 1;
+    for (; next < lines.length; next++) {
+      const raw = lines[next];
+      if (raw.trim() === "") {
+        content.push("");
+        continue;
+      }
+      const indent = raw.length - raw.trimStart().length;
+      if (blockIndent === null) {
+        if (indent <= parentIndent) break;
+        blockIndent = indent;
+      }
+      if (indent < blockIndent) break;
+      content.push(raw.slice(blockIndent));
+    }
+    pos = next;
+
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1] === "") {
+      content.pop();
+      trailing += 1;
+    }
+    let value = folded
+      ? content.reduce((text, current, position) => {
+          if (position === 0) return current;
+          const previous = content[position - 1];
+          if (current === "") return `${text}\n`;
+          if (previous === "") return text + current;
+          return /^\s/.test(current) || /^\s/.test(previous) ? `${text}\n${current}` : `${text} ${current}`;
+        }, "")
+      : content.join("\n");
+    if (content.length > 0 && chomp !== "-") value += "\n";
+    if (chomp === "+") value += "\n".repeat(trailing);
+    return { kind: "scalar", line: index + 1, value };
+  }
+
+  function parseFlow(text: string, index: number): YamlNode {
+    let source = text;
+    let last = index;
+    while (flowDepth(source) > 0) {
+      last += 1;
+      if (last >= lines.length) fail(index + 1, "This `[` or `{` is never closed");
+      source += ` ${stripComment(lines[last].trim()).trim()}`;
+    }
+    pos = last + 1;
+
+    const line = index + 1;
+    let at = 0;
+    const skipSpace = () => {
+      while (at < source.length && /\s/.test(source[at])) at += 1;
+    };
+
+    const readPlain = () => {
+      const start = at;
+      while (at < source.length && !/[,\]}]/.test(source[at]) && !(source[at] === ":" && /[\s,\]}]|^$/.test(source[at + 1] ?? ""))) {
+        at += 1;
+      }
+      return source.slice(start, at).trim();
+    };
+
+    const readNode = (): YamlNode => {
+      skipSpace();
+      const char = source[at];
+      if (char === "[") {
+        at += 1;
+        const items: YamlNode[] = [];
+        for (;;) {
+          skipSpace();
+          if (source[at] === "]") {
+            at += 1;
+            return { kind: "seq", line, items };
+          }
+          items.push(readNode());
+          skipSpace();
+          if (source[at] === ",") at += 1;
+          else if (source[at] !== "]") fail(line, "Expected `,` or `]` in a flow list");
+        }
+      }
+      if (char === "{") {
+        at += 1;
+        const entries: YamlEntry[] = [];
+        for (;;) {
+          skipSpace();
+          if (source[at] === "}") {
+            at += 1;
+            return { kind: "map", line, entries };
+          }
+          const keyNode = readNode();
+          if (keyNode.kind !== "scalar" || keyNode.value === null) fail(line, "Flow mapping keys must be plain values");
+          const key = String(keyNode.value);
+          skipSpace();
+          let value: YamlNode = { kind: "scalar", line, value: null };
+          if (source[at] === ":") {
+            at += 1;
+            skipSpace();
+            if (source[at] !== "," && source[at] !== "}") value = readNode();
+          }
+          if (entries.some((entry) => entry.key === key)) fail(line, `Duplicate key "${key}"`);
+          entries.push({ key, line, value });
+          skipSpace();
+          if (source[at] === ",") at += 1;
+          else if (source[at] !== "}") fail(line, "Expected `,` or `}` in a flow mapping");
+        }
+      }
+      if (char === '"' || char === "'") {
+        const end = findClosingQuote(source, at);
+        if (end === -1) fail(line, "This quoted string is never closed");
+        const value = unquote(source.slice(at, end), line);
+        at = end;
+        return { kind: "scalar", line, value };
+      }
+      if (char === "*") {
+        at += 1;
+        const name = readPlain();
+        const target = anchors.get(name);
+        if (!target) fail(line, `Unknown alias "*${name}"; anchors must be defined before they are used`);
+        return target;
+      }
+      if (char === undefined) fail(line, "Unexpected end of a flow collection");
+      return { kind: "scalar", line, value: resolvePlain(readPlain()) };
+    };
+
+    const node = readNode();
+    skipSpace();
+    if (at < source.length) {
+      fail(last + 1, `Unexpected text after the closing bracket: "${describe(source.slice(at))}"`);
+    }
+    return node;
+  }
+
+  try {
+    let first = peek();
+    while (first && first.indent === 0 && first.text.startsWith("%")) {
+      pos = first.index + 1;
+      first = peek();
+    }
+    if (first && first.indent === 0 && first.text === "---") {
+      pos = first.index + 1;
+      first = peek();
+    }
+    if (!first || (first.indent === 0 && first.text === "...")) {
+      return { document: null };
+    }
+    const document = parseBlock(first.indent);
+    const rest = peek();
+    if (rest) {
+      if (rest.indent === 0 && (rest.text === "---" || rest.text.startsWith("--- "))) {
+        fail(rest.index + 1, "Only one YAML document per file is supported");
+      }
+      if (!(rest.indent === 0 && rest.text === "...")) {
+        fail(rest.index + 1, "Bad indentation: this line doesn't line up with any key above it");
+      }
+    }
+    return { document };
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      return { error: { line: error.line, message: error.message } };
+    }
+    throw error;
+  }
+}
+
+function flowDepth(text: string) {
+  let depth = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if ((char === '"' || char === "'") && opensQuotedScalar(text, index)) {
+      const end = findClosingQuote(text, index);
+      if (end === -1) return depth;
+      index = end - 1;
+    } else if (char === "[" || char === "{") {
+      depth += 1;
+    } else if (char === "]" || char === "}") {
+      depth -= 1;
+    }
+  }
+  return depth;
+}